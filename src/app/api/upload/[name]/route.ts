@@ -0,0 +1,29 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { NextResponse, type NextRequest } from "next/server";
+
+import { loadUpload } from "~/server/uploads";
+
+export const runtime = "nodejs";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ name: string }> },
+) {
+  const { name } = await params;
+  const upload = await loadUpload(name);
+  if (!upload) {
+    return NextResponse.json({ error: "Not found." }, { status: 404 });
+  }
+  const headers = new Headers({
+    "content-type": upload.contentType,
+    // Names are never reused, so an upload never changes.
+    "cache-control": "public, max-age=31536000, immutable",
+    "x-content-type-options": "nosniff",
+  });
+  if (upload.size !== undefined) {
+    headers.set("content-length", String(upload.size));
+  }
+  return new NextResponse(upload.data, { headers });
+}
@@ -0,0 +1,45 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { NextResponse, type NextRequest } from "next/server";
+
+import {
+  getMaxUploadSize,
+  readUploadBody,
+  saveUpload,
+  UploadError,
+} from "~/server/uploads";
+
+export const runtime = "nodejs";
+
+// Stores an image pasted or dropped into the report editor, and returns the
+// URL it is served at. The URL is relative, as the origin the server sees may
+// not be the one of the page behind a proxy.
+export async function POST(request: NextRequest) {
+  const contentLength = Number(request.headers.get("content-length"));
+  if (contentLength > getMaxUploadSize()) {
+    return NextResponse.json(
+      { error: "The file is too large." },
+      { status: 413 },
+    );
+  }
+  try {
+    const name = await saveUpload(
+      await readUploadBody(request.body),
+      request.headers.get("content-type") ?? "",
+    );
+    return NextResponse.json({ url: `/api/upload/${name}` });
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status },
+      );
+    }
+    console.error(error);
+    return NextResponse.json(
+      { error: "Failed to store the file." },
+      { status: 500 },
+    );
+  }
+}
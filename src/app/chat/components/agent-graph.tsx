@@ -0,0 +1,195 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { ReactFlow, Background } from "@xyflow/react";
+import "@xyflow/react/dist/style.css";
+import { Workflow } from "lucide-react";
+import { useTheme } from "next-themes";
+import { useMemo } from "react";
+
+import { Tooltip } from "~/components/deer-flow/tooltip";
+import { Button } from "~/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "~/components/ui/popover";
+import type { Message } from "~/core/messages";
+import { focusActivity, useStore, type RunState } from "~/core/store";
+
+import { nodeTypes } from "../../landing/components/multi-agent-visualization";
+import { graph, type Graph } from "../../landing/store";
+import { highlightGraph } from "../../landing/store/mav-store";
+
+const AGENT_NODES: Record<string, string> = {
+  coordinator: "Coordinator",
+  planner: "Planner",
+  researcher: "Researcher",
+  coder: "Coder",
+  reporter: "Reporter",
+};
+
+// Agents whose messages live in a research, so clicking them can jump there.
+const FOCUSABLE_NODES = ["Researcher", "Coder", "Reporter"];
+
+export function AgentGraphButton() {
+  const responding = useStore((state) => state.responding);
+  return (
+    <Popover>
+      <Tooltip title="Agent graph">
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="icon">
+            <Workflow className={responding ? "animate-pulse" : undefined} />
+          </Button>
+        </PopoverTrigger>
+      </Tooltip>
+      <PopoverContent
+        className="h-[420px] w-[460px] p-2"
+        align="start"
+        // Keep the graph open while the user works with the research panel.
+        onInteractOutside={(e) => e.preventDefault()}
+      >
+        <AgentGraph />
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export function AgentGraph() {
+  const { resolvedTheme } = useTheme();
+  const messageIds = useStore((state) => state.messageIds);
+  const messages = useStore((state) => state.messages);
+  const responding = useStore((state) => state.responding);
+  const runState = useStore((state) => state.runState);
+  const { nodes, edges } = useMemo(
+    () => buildAgentGraph(messageIds, messages, responding, runState),
+    [messageIds, messages, responding, runState],
+  );
+  return (
+    <ReactFlow
+      style={{
+        ["--xy-background-color-default" as string]: "transparent",
+      }}
+      nodes={nodes}
+      edges={edges}
+      nodeTypes={nodeTypes}
+      fitView
+      proOptions={{ hideAttribution: true }}
+      colorMode={resolvedTheme === "dark" ? "dark" : "light"}
+      nodesDraggable={false}
+      nodesConnectable={false}
+      zoomOnScroll={false}
+      panOnDrag={false}
+    >
+      <Background bgColor="var(--popover)" />
+    </ReactFlow>
+  );
+}
+
+// Derives the state of the graph from the messages of the current thread, so
+// that it follows live streams, replays and restored threads alike.
+function buildAgentGraph(
+  messageIds: string[],
+  messages: Map<string, Message>,
+  responding: boolean,
+  runState: RunState,
+): Graph {
+  const toolCallCounts = new Map<string, number>();
+  const latestMessageIds = new Map<string, string>();
+  const streamingNodes = new Set<string>();
+  // Nodes in the order the agents took turns.
+  const turns: string[] = [];
+  for (const id of messageIds) {
+    const message = messages.get(id);
+    const node = message?.agent ? AGENT_NODES[message.agent] : undefined;
+    if (!message || !node) {
+      continue;
+    }
+    toolCallCounts.set(
+      node,
+      (toolCallCounts.get(node) ?? 0) + (message.toolCalls?.length ?? 0),
+    );
+    latestMessageIds.set(node, id);
+    if (message.isStreaming) {
+      streamingNodes.add(node);
+    }
+    if (turns[turns.length - 1] !== node) {
+      turns.push(node);
+    }
+  }
+
+  const currentNode = turns[turns.length - 1];
+  const activeNodes = new Set(streamingNodes);
+  const activeEdges = new Set<string>();
+  if (responding) {
+    if (currentNode) {
+      // Between two messages the agent that spoke last is still working.
+      activeNodes.add(currentNode);
+      const previousNode = turns[turns.length - 2] ?? "Start";
+      findPath(previousNode, currentNode).forEach((edge) =>
+        activeEdges.add(edge),
+      );
+    } else {
+      activeNodes.add("Start");
+    }
+  } else if (runState === "interrupted" && currentNode === "Planner") {
+    activeNodes.add("HumanFeedback");
+    findPath("Planner", "HumanFeedback").forEach((edge) =>
+      activeEdges.add(edge),
+    );
+  } else if (runState === "idle" && currentNode === "Reporter") {
+    activeNodes.add("End");
+  }
+  if (activeNodes.has("Researcher") || activeNodes.has("Coder")) {
+    activeNodes.add("ResearchTeam");
+  }
+
+  const highlighted = highlightGraph(
+    graph,
+    Array.from(activeNodes),
+    Array.from(activeEdges),
+  );
+  return {
+    ...highlighted,
+    nodes: highlighted.nodes.map((node) => {
+      const latestMessageId = latestMessageIds.get(node.id);
+      return {
+        ...node,
+        data: {
+          ...node.data,
+          count: toolCallCounts.get(node.id),
+          onClick:
+            latestMessageId && FOCUSABLE_NODES.includes(node.id)
+              ? () => focusActivity(latestMessageId)
+              : undefined,
+        },
+      };
+    }),
+  };
+}
+
+// The shortest chain of edges from one node to another, e.g. from the planner
+// to a researcher through the human feedback and the research team.
+function findPath(from: string, to: string) {
+  const previous = new Map<string, { node: string; edge: string }>();
+  const queue = [from];
+  const visited = new Set([from]);
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    if (node === to) {
+      const path: string[] = [];
+      for (let step = previous.get(to); step; step = previous.get(step.node)) {
+        path.unshift(step.edge);
+      }
+      return path;
+    }
+    for (const edge of graph.edges) {
+      if (edge.source === node && !visited.has(edge.target)) {
+        visited.add(edge.target);
+        previous.set(edge.target, { node, edge: edge.id });
+        queue.push(edge.target);
+      }
+    }
+  }
+  return [];
+}
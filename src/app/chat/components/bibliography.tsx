@@ -0,0 +1,70 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { useMemo } from "react";
+
+import { Markdown } from "~/components/deer-flow/markdown";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  CITATION_STYLES,
+  formatBibliography,
+  getBibliographyTitle,
+  type Citation,
+  type CitationStyle,
+} from "~/core/citations";
+import { setCitationStyle, useSettingsStore } from "~/core/store";
+import { cn } from "~/lib/utils";
+
+export function Bibliography({
+  className,
+  citations,
+}: {
+  className?: string;
+  citations: Citation[];
+}) {
+  const style = useSettingsStore((state) => state.general.citationStyle);
+  const entries = useMemo(
+    () => formatBibliography(citations, style),
+    [citations, style],
+  );
+  if (citations.length === 0) {
+    return null;
+  }
+  return (
+    <section className={cn("border-t pt-6", className)}>
+      <header className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">{getBibliographyTitle(style)}</h2>
+        <Select
+          value={style}
+          onValueChange={(value) => setCitationStyle(value as CitationStyle)}
+        >
+          <SelectTrigger size="sm" className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CITATION_STYLES.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </header>
+      <ul className="mt-4 flex flex-col gap-2">
+        {entries.map((entry) => (
+          <li key={entry} className="text-sm break-words">
+            <Markdown className="prose-p:my-0 max-w-none text-sm">
+              {entry}
+            </Markdown>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
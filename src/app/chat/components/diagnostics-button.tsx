@@ -0,0 +1,78 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { TriangleAlert } from "lucide-react";
+import { useEffect, useRef } from "react";
+import { toast } from "sonner";
+
+import { Tooltip } from "~/components/deer-flow/tooltip";
+import { Button } from "~/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "~/components/ui/popover";
+import { clearDiagnostics, useDiagnostics } from "~/core/diagnostics";
+
+export function DiagnosticsButton() {
+  const diagnostics = useDiagnostics();
+  const warnedVersions = useRef(new Set<string>());
+
+  // An incompatible server affects the whole conversation, so it is worth
+  // interrupting the user once.
+  useEffect(() => {
+    for (const diagnostic of diagnostics) {
+      if (
+        diagnostic.kind === "incompatible_protocol" &&
+        !warnedVersions.current.has(diagnostic.key)
+      ) {
+        warnedVersions.current.add(diagnostic.key);
+        toast(diagnostic.message);
+      }
+    }
+  }, [diagnostics]);
+
+  if (diagnostics.length === 0) {
+    return null;
+  }
+  return (
+    <Popover>
+      <Tooltip title="Protocol diagnostics">
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="icon">
+            <TriangleAlert className="text-yellow-500" />
+          </Button>
+        </PopoverTrigger>
+      </Tooltip>
+      <PopoverContent className="w-96" align="end">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium">Diagnostics</h3>
+          <Button variant="ghost" size="sm" onClick={clearDiagnostics}>
+            Clear
+          </Button>
+        </div>
+        <p className="text-muted-foreground mb-2 text-xs">
+          Events from the server that this UI does not fully understand.
+        </p>
+        <ul className="flex max-h-80 flex-col gap-2 overflow-y-auto">
+          {diagnostics.map((diagnostic) => (
+            <li
+              key={`${diagnostic.kind}:${diagnostic.key}`}
+              className="rounded-md border p-2 text-xs"
+            >
+              <div className="flex justify-between gap-2">
+                <span className="font-mono">{diagnostic.kind}</span>
+                {diagnostic.count > 1 && (
+                  <span className="text-muted-foreground">
+                    ×{diagnostic.count}
+                  </span>
+                )}
+              </div>
+              <div className="mt-1 break-words">{diagnostic.message}</div>
+            </li>
+          ))}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,26 +1,46 @@
 // Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
 // SPDX-License-Identifier: MIT
 
-import { useCallback, useRef } from "react";
+import { useCallback, useMemo, useRef } from "react";
 
 import { LoadingAnimation } from "~/components/deer-flow/loading-animation";
 import { Markdown } from "~/components/deer-flow/markdown";
 import ReportEditor from "~/components/editor";
+import { getCitedCitations } from "~/core/citations";
 import { useReplay } from "~/core/replay";
-import { useFinalPaper, useFinalPaperLoading, useFinalPaperError, useStore } from "~/core/store";
+import {
+  applyReportRewrite,
+  useFinalPaper,
+  useFinalPaperLoading,
+  useFinalPaperError,
+  useResearchCitations,
+  useStore,
+} from "~/core/store";
 import { cn } from "~/lib/utils";
 
+import { Bibliography } from "./bibliography";
+
 export function FinalPaperBlock({
   className,
+  researchId,
   editing,
+  onPendingChangesChange,
 }: {
   className?: string;
+  researchId: string;
   editing: boolean;
+  onPendingChangesChange?: (pending: boolean) => void;
 }) {
   const finalPaper = useFinalPaper();
+  const citations = useResearchCitations(researchId);
+  const citedCitations = useMemo(
+    () => getCitedCitations(finalPaper?.final_paper ?? "", citations),
+    [finalPaper?.final_paper, citations],
+  );
   const loading = useFinalPaperLoading();
   const error = useFinalPaperError();
   const { isReplay } = useReplay();
+  const reportId = useStore((state) => state.researchReportIds.get(researchId));
   
   const handleMarkdownChange = useCallback(
     (markdown: string) => {
@@ -36,6 +56,14 @@ export function FinalPaperBlock({
     },
     [finalPaper],
   );
+  const handleRewrite = useCallback(
+    (before: string, after: string) => {
+      if (reportId) {
+        applyReportRewrite(reportId, before, after);
+      }
+    },
+    [reportId],
+  );
   
   const contentRef = useRef<HTMLDivElement>(null);
   const isCompleted = !loading && finalPaper?.final_paper && !error;
@@ -79,13 +107,17 @@ export function FinalPaperBlock({
       {!isReplay && isCompleted && editing ? (
         <ReportEditor
           content={finalPaper.final_paper}
+          researchId={researchId}
           onMarkdownChange={handleMarkdownChange}
+          onRewrite={handleRewrite}
+          onPendingChangesChange={onPendingChangesChange}
         />
       ) : (
         <>
-          <Markdown animated checkLinkCredibility>
+          <Markdown animated checkLinkCredibility citations={citations}>
             {finalPaper.final_paper}
           </Markdown>
+          <Bibliography className="mt-8" citations={citedCitations} />
         </>
       )}
     </div>
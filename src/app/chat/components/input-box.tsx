@@ -34,7 +34,11 @@ export function InputBox({
   size?: "large" | "normal";
   responding?: boolean;
   feedback?: { option: Option } | null;
-  onSend?: (message: string, options?: { interruptFeedback?: string }) => void;
+  // Returns `false` when the message was not sent, which keeps it in the box.
+  onSend?: (
+    message: string,
+    options?: { interruptFeedback?: string },
+  ) => boolean | void;
   onCancel?: () => void;
   onRemoveFeedback?: () => void;
 }) {
@@ -70,9 +74,12 @@ export function InputBox({
         return;
       }
       if (onSend) {
-        onSend(message, {
+        const sent = onSend(message, {
           interruptFeedback: feedback?.option.value,
         });
+        if (sent === false) {
+          return;
+        }
         setMessage("");
         onRemoveFeedback?.();
       }
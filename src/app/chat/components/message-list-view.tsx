@@ -3,7 +3,16 @@
 
 import { LoadingOutlined } from "@ant-design/icons";
 import { motion } from "framer-motion";
-import { Download, Headphones, FileText, Edit3 } from "lucide-react";
+import {
+  Ban,
+  CircleAlert,
+  Download,
+  Edit3,
+  FileText,
+  GitCompare,
+  Pencil,
+  Play,
+} from "lucide-react";
 import { useCallback, useMemo, useRef, useState } from "react";
 
 import { LoadingAnimation } from "~/components/deer-flow/loading-animation";
@@ -14,7 +23,6 @@ import {
   ScrollContainer,
   type ScrollContainerRef,
 } from "~/components/deer-flow/scroll-container";
-import { Tooltip } from "~/components/deer-flow/tooltip";
 import { Button } from "~/components/ui/button";
 import {
   Card,
@@ -24,6 +32,7 @@ import {
   CardTitle,
 } from "~/components/ui/card";
 import type { Message, Option } from "~/core/messages";
+import { createEditedPlanFeedback, parsePlan, type Plan } from "~/core/plan";
 import {
   closeResearch,
   openResearch,
@@ -31,29 +40,40 @@ import {
   useLastInterruptMessage,
   useMessage,
   useMessageIds,
+  usePreviousPlanMessageId,
+  useResearchCitations,
+  useResearchIdOfMessage,
   useResearchMessage,
   useStore,
+  updatePlan,
 } from "~/core/store";
 import { parseJSON } from "~/core/utils";
 import { cn } from "~/lib/utils";
 
+import { PlanDiffView } from "./plan-diff-view";
+import { PlanEditor } from "./plan-editor";
+import { PodcastCard } from "./podcast-card";
+
 export function MessageListView({
   className,
   onFeedback,
   onSendMessage,
+  onContinue,
 }: {
   className?: string;
   onFeedback?: (feedback: { option: Option }) => void;
   onSendMessage?: (
     message: string,
     options?: { interruptFeedback?: string },
-  ) => void;
+  ) => boolean | void;
+  onContinue?: () => void;
 }) {
   const scrollContainerRef = useRef<ScrollContainerRef>(null);
   const messageIds = useMessageIds();
   const interruptMessage = useLastInterruptMessage();
   const waitingForFeedbackMessageId = useLastFeedbackMessageId();
   const responding = useStore((state) => state.responding);
+  const runState = useStore((state) => state.runState);
   const noOngoingResearch = useStore(
     (state) => state.ongoingResearchId === null,
   );
@@ -93,6 +113,13 @@ export function MessageListView({
             onToggleResearch={handleToggleResearch}
           />
         ))}
+        {(runState === "cancelled" || runState === "failed") && (
+          <RunStateNotice
+            className="mt-10 px-4"
+            runState={runState}
+            onContinue={onContinue}
+          />
+        )}
         <div className="flex h-8 w-full shrink-0"></div>
       </ul>
       {responding && (noOngoingResearch || !ongoingResearchIsOpen) && (
@@ -119,7 +146,7 @@ function MessageListItem({
   onSendMessage?: (
     message: string,
     options?: { interruptFeedback?: string },
-  ) => void;
+  ) => boolean | void;
   onToggleResearch?: () => void;
 }) {
   const message = useMessage(messageId);
@@ -209,6 +236,9 @@ function MessageListItem({
             <MessageBubble message={message}>
               <div className="flex w-full flex-col">
                 <Markdown>{message?.content}</Markdown>
+                {message.status && (
+                  <MessageStatus className="mt-2" status={message.status} />
+                )}
               </div>
             </MessageBubble>
           </div>
@@ -260,6 +290,70 @@ function MessageBubble({
   );
 }
 
+function MessageStatus({
+  className,
+  status,
+}: {
+  className?: string;
+  status: NonNullable<Message["status"]>;
+}) {
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-1 text-xs",
+        status === "cancelled" ? "text-muted-foreground" : "text-red-500",
+        className,
+      )}
+    >
+      {status === "cancelled" ? <Ban size={12} /> : <CircleAlert size={12} />}
+      {status === "cancelled" ? "Stopped by user" : "Interrupted by an error"}
+    </div>
+  );
+}
+
+function RunStateNotice({
+  className,
+  runState,
+  onContinue,
+}: {
+  className?: string;
+  runState: "cancelled" | "failed";
+  onContinue?: () => void;
+}) {
+  return (
+    <motion.li
+      className={cn("flex w-full", className)}
+      initial={{ opacity: 0, y: 24 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.2, ease: "easeOut" }}
+    >
+      <div className="bg-card flex w-full items-center justify-between gap-4 rounded-2xl border px-4 py-3 text-sm">
+        <div
+          className={cn(
+            "flex items-center gap-2",
+            runState === "cancelled" ? "text-muted-foreground" : "text-red-500",
+          )}
+        >
+          {runState === "cancelled" ? (
+            <Ban size={16} />
+          ) : (
+            <CircleAlert size={16} />
+          )}
+          {runState === "cancelled"
+            ? "You stopped the response."
+            : "The response was interrupted by an error."}
+        </div>
+        {onContinue && (
+          <Button size="sm" variant="outline" onClick={onContinue}>
+            <Play size={16} />
+            Continue
+          </Button>
+        )}
+      </div>
+    </motion.li>
+  );
+}
+
 function ResearchCard({
   className,
   researchId,
@@ -275,12 +369,24 @@ function ResearchCard({
     (state) => hasReport && state.messages.get(reportId)!.isStreaming,
   );
   const openResearchId = useStore((state) => state.openResearchId);
+  const status = useStore((state) => {
+    const activityIds = state.researchActivityIds.get(researchId);
+    const lastActivityId = activityIds?.[activityIds.length - 1];
+    return lastActivityId
+      ? state.messages.get(lastActivityId)?.status
+      : undefined;
+  });
   const state = useMemo(() => {
+    if (status === "cancelled") {
+      return "Research stopped";
+    } else if (status === "failed") {
+      return "Research interrupted by an error";
+    }
     if (hasReport) {
       return reportGenerating ? "Generating report..." : "Report generated";
     }
     return "Researching...";
-  }, [hasReport, reportGenerating]);
+  }, [hasReport, reportGenerating, status]);
   const msg = useResearchMessage(researchId);
   const title = useMemo(() => {
     if (msg) {
@@ -300,14 +406,21 @@ function ResearchCard({
     <Card className={cn("w-full", className)}>
       <CardHeader>
         <CardTitle>
-          <RainbowText animated={state !== "Report generated"}>
+          <RainbowText
+            animated={state !== "Report generated" && status === undefined}
+          >
             {title !== undefined && title !== "" ? title : "Deep Research"}
           </RainbowText>
         </CardTitle>
       </CardHeader>
       <CardFooter>
         <div className="flex w-full">
-          <RollingText className="text-muted-foreground flex-grow text-sm">
+          <RollingText
+            className={cn(
+              "text-muted-foreground flex-grow text-sm",
+              status === "failed" && "text-red-500",
+            )}
+          >
             {state}
           </RollingText>
           <Button
@@ -338,16 +451,10 @@ function PlanCard({
   onSendMessage?: (
     message: string,
     options?: { interruptFeedback?: string },
-  ) => void;
+  ) => boolean | void;
   waitForFeedback?: boolean;
 }) {
-  const plan = useMemo<{
-    title?: string;
-    thought?: string;
-    steps?: { title?: string; description?: string }[];
-  }>(() => {
-    return parseJSON(message.content ?? "", {});
-  }, [message.content]);
+  const plan = useMemo(() => parsePlan(message.content), [message.content]);
   const handleAccept = useCallback(async () => {
     if (onSendMessage) {
       onSendMessage(
@@ -358,38 +465,83 @@ function PlanCard({
       );
     }
   }, [onSendMessage]);
+  const [editing, setEditing] = useState(false);
+  const canEdit =
+    waitForFeedback &&
+    !message.isStreaming &&
+    interruptMessage?.options?.some((option) => option.value === "accepted");
+  const handleSubmitEditedPlan = useCallback(
+    (editedPlan: Plan) => {
+      const sent = onSendMessage?.("Let's start with the edited plan.", {
+        interruptFeedback: createEditedPlanFeedback(editedPlan),
+      });
+      // Keep the editor open with the changes when the run is refused.
+      if (sent !== false) {
+        setEditing(false);
+        updatePlan(message.id, editedPlan);
+      }
+    },
+    [message.id, onSendMessage],
+  );
+  const previousPlanMessage = useMessage(usePreviousPlanMessageId(message.id));
+  const previousPlan = useMemo(
+    () =>
+      previousPlanMessage ? parsePlan(previousPlanMessage.content) : null,
+    [previousPlanMessage],
+  );
+  const [showingChanges, setShowingChanges] = useState(false);
+  const canShowChanges = previousPlan !== null && !message.isStreaming;
 
+  if (editing && canEdit) {
+    return (
+      <Card className={cn("w-full", className)}>
+        <CardHeader>
+          <CardTitle className="text-muted-foreground text-sm font-normal">
+            Edit plan
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <PlanEditor
+            plan={plan}
+            onCancel={() => setEditing(false)}
+            onSubmit={handleSubmitEditedPlan}
+          />
+        </CardContent>
+      </Card>
+    );
+  }
 
   return (
     <Card className={cn("w-full", className)}>
-      <CardHeader>
+      <CardHeader className="flex items-start justify-between">
         <CardTitle>
           <Markdown animated>
-            {`### ${
-              plan.title !== undefined && plan.title !== ""
-                ? plan.title
-                : "Deep Research"
-            }`}
+            {`### ${plan.title !== "" ? plan.title : "Deep Research"}`}
           </Markdown>
         </CardTitle>
+        {canShowChanges && (
+          <Button
+            variant={showingChanges ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => setShowingChanges((showing) => !showing)}
+          >
+            <GitCompare />
+            {showingChanges ? "Hide changes" : "Show changes"}
+          </Button>
+        )}
       </CardHeader>
       <CardContent>
-        <Markdown className="opacity-80" animated>
-          {plan.thought}
-        </Markdown>
-        {plan.steps && (
-          <ul className="my-2 flex list-decimal flex-col gap-4 border-l-[2px] pl-8">
-            {plan.steps.map((step, i) => (
-              <li key={`step-${i}`}>
-                <h3 className="mb text-lg font-medium">
-                  <Markdown animated>{step.title}</Markdown>
-                </h3>
-                <div className="text-muted-foreground text-sm">
-                  <Markdown animated>{step.description}</Markdown>
-                </div>
-              </li>
-            ))}
-          </ul>
+        {canShowChanges && showingChanges ? (
+          <PlanDiffView
+            className="mb-4"
+            previous={previousPlan}
+            current={plan}
+          />
+        ) : (
+          <PlanSteps plan={plan} />
+        )}
+        {message.status && (
+          <MessageStatus className="mt-4" status={message.status} />
         )}
       </CardContent>
       <CardFooter className="flex justify-end">
@@ -400,6 +552,12 @@ function PlanCard({
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.3, delay: 0.3 }}
           >
+            {canEdit && (
+              <Button variant="outline" onClick={() => setEditing(true)}>
+                <Pencil />
+                Edit plan
+              </Button>
+            )}
             {interruptMessage?.options.map((option) => (
               <Button
                 key={option.value}
@@ -425,80 +583,27 @@ function PlanCard({
   );
 }
 
-function PodcastCard({
-  className,
-  message,
-}: {
-  className?: string;
-  message: Message;
-}) {
-  const data = useMemo(() => {
-    return JSON.parse(message.content ?? "");
-  }, [message.content]);
-  const title = useMemo<string | undefined>(() => data?.title, [data]);
-  const audioUrl = useMemo<string | undefined>(() => data?.audioUrl, [data]);
-  const isGenerating = useMemo(() => {
-    return message.isStreaming;
-  }, [message.isStreaming]);
-  const hasError = useMemo(() => {
-    return data?.error !== undefined;
-  }, [data]);
-  const [isPlaying, setIsPlaying] = useState(false);
+function PlanSteps({ plan }: { plan: Plan }) {
   return (
-    <Card className={cn("w-[508px]", className)}>
-      <CardHeader>
-        <div className="text-muted-foreground flex items-center justify-between text-sm">
-          <div className="flex items-center gap-2">
-            {isGenerating ? <LoadingOutlined /> : <Headphones size={16} />}
-            {!hasError ? (
-              <RainbowText animated={isGenerating}>
-                {isGenerating
-                  ? "Generating podcast..."
-                  : isPlaying
-                    ? "Now playing podcast..."
-                    : "Podcast"}
-              </RainbowText>
-            ) : (
-              <div className="text-red-500">
-                Error when generating podcast. Please try again.
+    <>
+      <Markdown className="opacity-80" animated>
+        {plan.thought}
+      </Markdown>
+      {plan.steps.length > 0 && (
+        <ul className="my-2 flex list-decimal flex-col gap-4 border-l-[2px] pl-8">
+          {plan.steps.map((step, i) => (
+            <li key={`step-${i}`}>
+              <h3 className="mb text-lg font-medium">
+                <Markdown animated>{step.title}</Markdown>
+              </h3>
+              <div className="text-muted-foreground text-sm">
+                <Markdown animated>{step.description}</Markdown>
               </div>
-            )}
-          </div>
-          {!hasError && !isGenerating && (
-            <div className="flex">
-              <Tooltip title="Download podcast">
-                <Button variant="ghost" size="icon" asChild>
-                  <a
-                    href={audioUrl}
-                    download={`${(title ?? "podcast").replaceAll(" ", "-")}.mp3`}
-                  >
-                    <Download size={16} />
-                  </a>
-                </Button>
-              </Tooltip>
-            </div>
-          )}
-        </div>
-        <CardTitle>
-          <div className="text-lg font-medium">
-            <RainbowText animated={isGenerating}>{title}</RainbowText>
-          </div>
-        </CardTitle>
-      </CardHeader>
-      <CardContent>
-        {audioUrl ? (
-          <audio
-            className="w-full"
-            src={audioUrl}
-            controls
-            onPlay={() => setIsPlaying(true)}
-            onPause={() => setIsPlaying(false)}
-          />
-        ) : (
-          <div className="w-full"></div>
-        )}
-      </CardContent>
-    </Card>
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
   );
 }
 
@@ -517,7 +622,7 @@ function OutlineCard({
   onSendMessage?: (
     message: string,
     options?: { interruptFeedback?: string },
-  ) => void;
+  ) => boolean | void;
   waitForFeedback?: boolean;
 }) {
   const outline = useMemo<{
@@ -649,6 +754,9 @@ function PaperWritingCard({
   }>(() => {
     return parseJSON(message.content ?? "", {});
   }, [message.content]);
+  // Number citations by the research-wide registry, so that sections written
+  // separately do not reuse the same numbers for different sources.
+  const citations = useResearchCitations(useResearchIdOfMessage(message.id));
 
   const isGenerating = useMemo(() => {
     return message.isStreaming;
@@ -676,7 +784,10 @@ function PaperWritingCard({
             <ul className="space-y-2">
               {sectionData.citations.map((citation, i) => (
                 <li key={`citation-${i}`} className="text-xs text-muted-foreground">
-                  <span className="font-medium">[{citation.number}]</span> {citation.title}
+                  <span className="font-medium">
+                    [{citations.get(citation.url)?.number ?? citation.number}]
+                  </span>{" "}
+                  {citation.title}
                   {citation.url && (
                     <a 
                       href={citation.url} 
@@ -821,6 +932,9 @@ function ReporterCard({
           </Markdown>
         </div>
         {message.isStreaming && <LoadingAnimation className="my-4" />}
+        {message.status && (
+          <MessageStatus className="mt-4" status={message.status} />
+        )}
       </CardContent>
       <CardFooter className="flex justify-end">
         {!isGenerating && message.content && (
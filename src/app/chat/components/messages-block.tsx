@@ -2,8 +2,8 @@
 // SPDX-License-Identifier: MIT
 
 import { motion } from "framer-motion";
-import { FastForward, Play } from "lucide-react";
-import { useCallback, useRef, useState } from "react";
+import { Play } from "lucide-react";
+import { useCallback, useEffect, useRef, useState } from "react";
 
 import { RainbowText } from "~/components/deer-flow/rainbow-text";
 import { Button } from "~/components/ui/button";
@@ -13,17 +13,26 @@ import {
   CardHeader,
   CardTitle,
 } from "~/components/ui/card";
-import { fastForwardReplay } from "~/core/api";
 import { useReplayMetadata } from "~/core/api/hooks";
 import type { Option } from "~/core/messages";
 import { useReplay } from "~/core/replay";
-import { sendMessage, useMessageIds, useStore } from "~/core/store";
+import {
+  confirmStartRun,
+  continueRun,
+  loadReplay,
+  playReplay,
+  sendMessage,
+  useMessageIds,
+  useReplayStore,
+  useStore,
+} from "~/core/store";
 import { env } from "~/env";
 import { cn } from "~/lib/utils";
 
 import { ConversationStarter } from "./conversation-starter";
 import { InputBox } from "./input-box";
 import { MessageListView } from "./message-list-view";
+import { ReplayPlayer } from "./replay-player";
 import { Welcome } from "./welcome";
 
 export function MessagesBlock({ className }: { className?: string }) {
@@ -33,27 +42,38 @@ export function MessagesBlock({ className }: { className?: string }) {
   const { isReplay } = useReplay();
   const { title: replayTitle, hasError: replayHasError } = useReplayMetadata();
   const [replayStarted, setReplayStarted] = useState(false);
+  const replayStatus = useReplayStore((state) => state.status);
   const abortControllerRef = useRef<AbortController | null>(null);
   const [feedback, setFeedback] = useState<{ option: Option } | null>(null);
   const handleSend = useCallback(
-    async (message: string, options?: { interruptFeedback?: string }) => {
+    (message: string, options?: { interruptFeedback?: string }) => {
+      if (!confirmStartRun()) {
+        return false;
+      }
       const abortController = new AbortController();
       abortControllerRef.current = abortController;
-      try {
-        await sendMessage(
-          message,
-          {
-            interruptFeedback:
-              options?.interruptFeedback ?? feedback?.option.value,
-          },
-          {
-            abortSignal: abortController.signal,
-          },
-        );
-      } catch {}
+      sendMessage(
+        message,
+        {
+          interruptFeedback:
+            options?.interruptFeedback ?? feedback?.option.value,
+        },
+        {
+          abortSignal: abortController.signal,
+        },
+      ).catch(() => undefined);
+      return true;
     },
     [feedback],
   );
+  const handleContinue = useCallback(async () => {
+    if (!confirmStartRun()) {
+      return;
+    }
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    await continueRun({ abortSignal: abortController.signal });
+  }, []);
   const handleCancel = useCallback(() => {
     abortControllerRef.current?.abort();
     abortControllerRef.current = null;
@@ -67,21 +87,22 @@ export function MessagesBlock({ className }: { className?: string }) {
   const handleRemoveFeedback = useCallback(() => {
     setFeedback(null);
   }, [setFeedback]);
+  useEffect(() => {
+    if (isReplay) {
+      void loadReplay();
+    }
+  }, [isReplay]);
   const handleStartReplay = useCallback(() => {
     setReplayStarted(true);
-    void sendMessage();
+    playReplay();
   }, [setReplayStarted]);
-  const [fastForwarding, setFastForwarding] = useState(false);
-  const handleFastForwardReplay = useCallback(() => {
-    setFastForwarding(!fastForwarding);
-    fastForwardReplay(!fastForwarding);
-  }, [fastForwarding]);
   return (
     <div className={cn("flex h-full flex-col", className)}>
       <MessageListView
         className="flex flex-grow"
         onFeedback={handleFeedback}
         onSendMessage={handleSend}
+        onContinue={!isReplay ? handleContinue : undefined}
       />
       {!isReplay ? (
         <div className="relative flex h-42 shrink-0 pb-4">
@@ -134,34 +155,29 @@ export function MessagesBlock({ className }: { className?: string }) {
                       <RainbowText animated={responding}>
                         {responding
                           ? "DeerFlow is now replaying the conversation..."
-                          : replayStarted
-                            ? "The replay has been stopped."
-                            : `You're now in DeerFlow's replay mode. Click the "Play" button on the right to start.`}
+                          : replayStatus === "ended"
+                            ? "The replay has ended."
+                            : replayStarted
+                              ? "The replay has been paused."
+                              : `You're now in DeerFlow's replay mode. Click the "Play" button on the right to start.`}
                       </RainbowText>
                     </CardDescription>
                   </CardHeader>
                 </div>
-                {!replayHasError && (
+                {!replayHasError && !replayStarted && (
                   <div className="pr-4">
-                    {responding && (
-                      <Button
-                        className={cn(fastForwarding && "animate-pulse")}
-                        variant={fastForwarding ? "default" : "outline"}
-                        onClick={handleFastForwardReplay}
-                      >
-                        <FastForward size={16} />
-                        Fast Forward
-                      </Button>
-                    )}
-                    {!replayStarted && (
-                      <Button className="w-24" onClick={handleStartReplay}>
-                        <Play size={16} />
-                        Play
-                      </Button>
-                    )}
+                    <Button
+                      className="w-24"
+                      disabled={replayStatus !== "paused"}
+                      onClick={handleStartReplay}
+                    >
+                      <Play size={16} />
+                      Play
+                    </Button>
                   </div>
                 )}
               </div>
+              {replayStarted && <ReplayPlayer className="px-6" />}
             </Card>
             {!replayStarted && env.NEXT_PUBLIC_STATIC_WEBSITE_ONLY && (
               <div className="text-muted-foreground w-full text-center text-xs">
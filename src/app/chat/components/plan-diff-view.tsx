@@ -0,0 +1,197 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { useMemo } from "react";
+
+import {
+  diffPlans,
+  type Plan,
+  type PlanStep,
+  type PlanStepDiff,
+  type TextDiffSegment,
+} from "~/core/plan";
+import { cn } from "~/lib/utils";
+
+export function PlanDiffView({
+  className,
+  previous,
+  current,
+}: {
+  className?: string;
+  previous: Plan;
+  current: Plan;
+}) {
+  const diff = useMemo(() => diffPlans(previous, current), [previous, current]);
+  if (!diff.hasChanges) {
+    return (
+      <div className={cn("text-muted-foreground text-sm", className)}>
+        The plan is the same as the previous iteration.
+      </div>
+    );
+  }
+  return (
+    <div className={cn("grid grid-cols-2 gap-x-4 gap-y-3 text-sm", className)}>
+      <div className="text-muted-foreground text-xs font-medium uppercase">
+        Previous
+      </div>
+      <div className="text-muted-foreground text-xs font-medium uppercase">
+        Current
+      </div>
+      <TextRow
+        className="text-base font-medium"
+        before={previous.title}
+        after={current.title}
+        segments={diff.title}
+      />
+      <TextRow
+        className="text-muted-foreground"
+        before={previous.thought}
+        after={current.thought}
+        segments={diff.thought}
+      />
+      {diff.steps.map((step, i) => (
+        <StepRow key={i} step={step} />
+      ))}
+    </div>
+  );
+}
+
+function TextRow({
+  className,
+  before,
+  after,
+  segments,
+}: {
+  className?: string;
+  before: string;
+  after: string;
+  segments: TextDiffSegment[] | null;
+}) {
+  if (!segments) {
+    return (
+      <>
+        <div className={className}>{before}</div>
+        <div className={className}>{after}</div>
+      </>
+    );
+  }
+  return (
+    <>
+      <DiffText className={className} segments={segments} side="before" />
+      <DiffText className={className} segments={segments} side="after" />
+    </>
+  );
+}
+
+function StepRow({ step }: { step: PlanStepDiff }) {
+  switch (step.type) {
+    case "unchanged":
+      return (
+        <>
+          <StepBox className="opacity-60" step={step.before} />
+          <StepBox className="opacity-60" step={step.after} />
+        </>
+      );
+    case "added":
+      return (
+        <>
+          <div />
+          <StepBox
+            className="border-green-500/50 bg-green-500/10"
+            step={step.after}
+            label="Added"
+          />
+        </>
+      );
+    case "removed":
+      return (
+        <>
+          <StepBox
+            className="border-red-500/50 bg-red-500/10 line-through"
+            step={step.before}
+            label="Removed"
+          />
+          <div />
+        </>
+      );
+    case "changed":
+      return (
+        <>
+          <div className="rounded-md border border-amber-500/50 p-2">
+            <DiffText
+              className="font-medium"
+              segments={step.title}
+              side="before"
+            />
+            <DiffText
+              className="text-muted-foreground mt-1"
+              segments={step.description}
+              side="before"
+            />
+          </div>
+          <div className="rounded-md border border-amber-500/50 p-2">
+            <div className="text-xs text-amber-600">Reworded</div>
+            <DiffText
+              className="font-medium"
+              segments={step.title}
+              side="after"
+            />
+            <DiffText
+              className="text-muted-foreground mt-1"
+              segments={step.description}
+              side="after"
+            />
+          </div>
+        </>
+      );
+  }
+}
+
+function StepBox({
+  className,
+  step,
+  label,
+}: {
+  className?: string;
+  step: PlanStep;
+  label?: string;
+}) {
+  return (
+    <div className={cn("rounded-md border p-2", className)}>
+      {label && <div className="text-muted-foreground text-xs">{label}</div>}
+      <div className="font-medium">{step.title}</div>
+      <div className="text-muted-foreground mt-1">{step.description}</div>
+    </div>
+  );
+}
+
+function DiffText({
+  className,
+  segments,
+  side,
+}: {
+  className?: string;
+  segments: TextDiffSegment[];
+  side: "before" | "after";
+}) {
+  const hidden = side === "before" ? "added" : "removed";
+  return (
+    <div className={className}>
+      {segments
+        .filter((segment) => segment.type !== hidden)
+        .map((segment, i) => (
+          <span
+            key={i}
+            className={cn(
+              segment.type === "removed" &&
+                "bg-red-500/20 text-red-700 line-through dark:text-red-300",
+              segment.type === "added" &&
+                "bg-green-500/20 text-green-700 dark:text-green-300",
+            )}
+          >
+            {segment.text}
+          </span>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { ArrowDown, ArrowUp, Plus, Trash } from "lucide-react";
+import { nanoid } from "nanoid";
+import { useCallback, useMemo, useState } from "react";
+
+import { Tooltip } from "~/components/deer-flow/tooltip";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { Switch } from "~/components/ui/switch";
+import { Textarea } from "~/components/ui/textarea";
+import {
+  createPlanStep,
+  type Plan,
+  type PlanStep,
+  type PlanStepType,
+} from "~/core/plan";
+import { cn } from "~/lib/utils";
+
+type DraftStep = PlanStep & { key: string };
+
+const STEP_TYPES: { value: PlanStepType; label: string }[] = [
+  { value: "research", label: "Research" },
+  { value: "processing", label: "Processing" },
+];
+
+export function PlanEditor({
+  className,
+  plan,
+  onCancel,
+  onSubmit,
+}: {
+  className?: string;
+  plan: Plan;
+  onCancel: () => void;
+  onSubmit: (plan: Plan) => void;
+}) {
+  const [title, setTitle] = useState(plan.title);
+  const [thought, setThought] = useState(plan.thought);
+  // Steps get a local key so that inputs keep their focus while reordering.
+  const [steps, setSteps] = useState<DraftStep[]>(() =>
+    plan.steps.map((step) => ({ ...step, key: nanoid() })),
+  );
+
+  const updateStep = useCallback((key: string, changes: Partial<PlanStep>) => {
+    setSteps((steps) =>
+      steps.map((step) => (step.key === key ? { ...step, ...changes } : step)),
+    );
+  }, []);
+  const moveStep = useCallback((index: number, offset: number) => {
+    setSteps((steps) => {
+      const target = index + offset;
+      if (target < 0 || target >= steps.length) {
+        return steps;
+      }
+      const newSteps = [...steps];
+      [newSteps[index], newSteps[target]] = [
+        newSteps[target]!,
+        newSteps[index]!,
+      ];
+      return newSteps;
+    });
+  }, []);
+  const removeStep = useCallback((key: string) => {
+    setSteps((steps) => steps.filter((step) => step.key !== key));
+  }, []);
+  const addStep = useCallback(() => {
+    setSteps((steps) => [...steps, { ...createPlanStep(), key: nanoid() }]);
+  }, []);
+
+  const valid = useMemo(
+    () =>
+      title.trim() !== "" &&
+      steps.length > 0 &&
+      steps.every((step) => step.title.trim() !== ""),
+    [title, steps],
+  );
+  const handleSubmit = useCallback(() => {
+    onSubmit({
+      ...plan,
+      title: title.trim(),
+      thought: thought.trim(),
+      steps: steps.map(({ key: _key, ...step }) => ({
+        ...step,
+        title: step.title.trim(),
+        description: step.description.trim(),
+      })),
+    });
+  }, [plan, title, thought, steps, onSubmit]);
+
+  return (
+    <div className={cn("flex flex-col gap-4", className)}>
+      <Input
+        className="text-lg font-medium"
+        placeholder="Title"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+      />
+      <Textarea
+        className="min-h-20"
+        placeholder="Thought"
+        value={thought}
+        onChange={(e) => setThought(e.target.value)}
+      />
+      <ol className="flex flex-col gap-3 border-l-[2px] pl-4">
+        {steps.map((step, i) => (
+          <li key={step.key} className="flex gap-2">
+            <span className="text-muted-foreground w-5 pt-2 text-sm">
+              {i + 1}.
+            </span>
+            <div className="flex flex-grow flex-col gap-2">
+              <Input
+                placeholder="Step title"
+                value={step.title}
+                onChange={(e) =>
+                  updateStep(step.key, { title: e.target.value })
+                }
+              />
+              <Textarea
+                className="min-h-16 text-sm"
+                placeholder="What should be researched in this step?"
+                value={step.description}
+                onChange={(e) =>
+                  updateStep(step.key, { description: e.target.value })
+                }
+              />
+              <div className="flex items-center gap-4">
+                <Select
+                  value={step.step_type ?? "research"}
+                  onValueChange={(value) =>
+                    updateStep(step.key, {
+                      step_type: value as PlanStepType,
+                      // Processing works on what was found in earlier steps.
+                      need_web_search: value === "research",
+                    })
+                  }
+                >
+                  <SelectTrigger size="sm" className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STEP_TYPES.map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`plan-step-web-search-${step.key}`}
+                    checked={step.need_web_search ?? false}
+                    onCheckedChange={(checked) =>
+                      updateStep(step.key, { need_web_search: checked })
+                    }
+                  />
+                  <Label
+                    className="text-muted-foreground text-sm"
+                    htmlFor={`plan-step-web-search-${step.key}`}
+                  >
+                    Search the web
+                  </Label>
+                </div>
+              </div>
+            </div>
+            <div className="flex flex-col">
+              <Tooltip title="Move up">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={i === 0}
+                  onClick={() => moveStep(i, -1)}
+                >
+                  <ArrowUp />
+                </Button>
+              </Tooltip>
+              <Tooltip title="Move down">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={i === steps.length - 1}
+                  onClick={() => moveStep(i, 1)}
+                >
+                  <ArrowDown />
+                </Button>
+              </Tooltip>
+              <Tooltip title="Delete step">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeStep(step.key)}
+                >
+                  <Trash />
+                </Button>
+              </Tooltip>
+            </div>
+          </li>
+        ))}
+      </ol>
+      <div className="flex items-center justify-between">
+        <Button variant="outline" size="sm" onClick={addStep}>
+          <Plus />
+          Add step
+        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button disabled={!valid} onClick={handleSubmit}>
+            Start research
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
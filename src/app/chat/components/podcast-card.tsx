@@ -0,0 +1,159 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { LoadingOutlined } from "@ant-design/icons";
+import { Download, Headphones, Pencil, RotateCcw } from "lucide-react";
+import { useCallback, useMemo, useState } from "react";
+
+import { RainbowText } from "~/components/deer-flow/rainbow-text";
+import { Tooltip } from "~/components/deer-flow/tooltip";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import type { Message } from "~/core/messages";
+import {
+  parsePodcast,
+  type PodcastOptions,
+  type PodcastScriptLine,
+} from "~/core/podcast";
+import {
+  cancelPodcastScriptEdit,
+  editPodcastScript,
+  rewritePodcastScript,
+  synthesizePodcast,
+  updatePodcastOptions,
+  updatePodcastScript,
+  usePodcastAudioURL,
+} from "~/core/store";
+import { cn } from "~/lib/utils";
+
+import { PodcastPlayer } from "./podcast-player";
+import { PodcastScriptEditor } from "./podcast-script-editor";
+
+export function PodcastCard({
+  className,
+  message,
+}: {
+  className?: string;
+  message: Message;
+}) {
+  const podcast = useMemo(() => parsePodcast(message), [message]);
+  const { status, audio, options, lines, progress, error } = podcast;
+  const audioURL = usePodcastAudioURL(audio?.id);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const isGenerating = status === "scripting" || status === "synthesizing";
+
+  const handleRewrite = useCallback(
+    (options: PodcastOptions) => {
+      void rewritePodcastScript(message.id, options);
+    },
+    [message.id],
+  );
+  const handleSubmit = useCallback(
+    (lines: PodcastScriptLine[], options: PodcastOptions) => {
+      updatePodcastScript(message.id, lines);
+      updatePodcastOptions(message.id, options);
+      void synthesizePodcast(message.id);
+    },
+    [message.id],
+  );
+
+  return (
+    <Card className={cn("w-[508px]", className)}>
+      <CardHeader>
+        <div className="text-muted-foreground flex items-center justify-between text-sm">
+          <div className="flex items-center gap-2">
+            {isGenerating ? <LoadingOutlined /> : <Headphones size={16} />}
+            {status !== "error" ? (
+              <RainbowText animated={isGenerating}>
+                {status === "scripting"
+                  ? "Writing podcast script..."
+                  : status === "synthesizing"
+                    ? `Generating audio... ${progress ?? 0} / ${lines.length} lines`
+                    : status === "draft"
+                      ? "Review the podcast script"
+                      : isPlaying
+                        ? "Now playing podcast..."
+                        : "Podcast"}
+              </RainbowText>
+            ) : (
+              <div className="text-red-500">
+                {error ?? "Error when generating podcast. Please try again."}
+              </div>
+            )}
+          </div>
+          <div className="flex">
+            {status === "error" && (
+              <Tooltip title="Try again">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRewrite(options)}
+                >
+                  <RotateCcw size={16} />
+                </Button>
+              </Tooltip>
+            )}
+            {status === "ready" && (
+              <>
+                {audio && audio.lines.length > 0 && (
+                  <Tooltip title="Edit script">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => editPodcastScript(message.id)}
+                    >
+                      <Pencil size={16} />
+                    </Button>
+                  </Tooltip>
+                )}
+                <Tooltip title="Download podcast">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={!audioURL}
+                    asChild
+                  >
+                    <a
+                      href={audioURL ?? undefined}
+                      download={`${(podcast.title || "podcast").replaceAll(" ", "-")}.mp3`}
+                    >
+                      <Download size={16} />
+                    </a>
+                  </Button>
+                </Tooltip>
+              </>
+            )}
+          </div>
+        </div>
+        <CardTitle>
+          <div className="text-lg font-medium">
+            <RainbowText animated={isGenerating}>{podcast.title}</RainbowText>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {status === "draft" && (
+          <>
+            {error && <div className="mb-4 text-sm text-red-500">{error}</div>}
+            <PodcastScriptEditor
+              lines={lines}
+              options={options}
+              onCancel={
+                audio ? () => cancelPodcastScriptEdit(message.id) : undefined
+              }
+              onRewrite={handleRewrite}
+              onSubmit={handleSubmit}
+            />
+          </>
+        )}
+        {status === "ready" && audio && (
+          <PodcastPlayer
+            audio={audio}
+            src={audioURL}
+            onPlayingChange={setIsPlaying}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
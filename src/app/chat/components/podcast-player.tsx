@@ -0,0 +1,196 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { Pause, Play } from "lucide-react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import { Tooltip } from "~/components/deer-flow/tooltip";
+import { Button } from "~/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { Slider } from "~/components/ui/slider";
+import {
+  getPodcastChapterAt,
+  getPodcastLineAt,
+  type PodcastAudio,
+} from "~/core/podcast";
+import { cn } from "~/lib/utils";
+
+import { PODCAST_SPEAKER_NAMES } from "./podcast-script-editor";
+
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+export function PodcastPlayer({
+  className,
+  audio,
+  src,
+  onPlayingChange,
+}: {
+  className?: string;
+  audio: PodcastAudio;
+  src: string | null;
+  onPlayingChange?: (playing: boolean) => void;
+}) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const transcriptRef = useRef<HTMLOListElement>(null);
+  const [playing, setPlaying] = useState(false);
+  const [time, setTime] = useState(0);
+  const [rate, setRate] = useState(1);
+
+  const lineIndex = useMemo(() => getPodcastLineAt(audio, time), [audio, time]);
+  const chapterIndex = useMemo(
+    () => getPodcastChapterAt(audio.chapters, lineIndex),
+    [audio.chapters, lineIndex],
+  );
+
+  useEffect(() => {
+    onPlayingChange?.(playing);
+  }, [playing, onPlayingChange]);
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.playbackRate = rate;
+    }
+  }, [rate, src]);
+  // Keeps the line being spoken in view, without scrolling the page.
+  useEffect(() => {
+    const list = transcriptRef.current;
+    const item = list?.children[lineIndex] as HTMLElement | undefined;
+    if (!list || !item || !playing) {
+      return;
+    }
+    list.scrollTo({
+      top: item.offsetTop - (list.clientHeight - item.clientHeight) / 2,
+      behavior: "smooth",
+    });
+  }, [lineIndex, playing]);
+
+  const seek = useCallback((time: number) => {
+    if (audioRef.current) {
+      audioRef.current.currentTime = time;
+    }
+    setTime(time);
+  }, []);
+  const togglePlaying = useCallback(() => {
+    const element = audioRef.current;
+    if (!element) {
+      return;
+    }
+    if (element.paused) {
+      void element.play();
+    } else {
+      element.pause();
+    }
+  }, []);
+
+  return (
+    <div className={cn("flex flex-col gap-3", className)}>
+      {src && (
+        <audio
+          ref={audioRef}
+          src={src}
+          preload="auto"
+          onPlay={() => setPlaying(true)}
+          onPause={() => setPlaying(false)}
+          onEnded={() => setPlaying(false)}
+          onTimeUpdate={(e) => setTime(e.currentTarget.currentTime)}
+        />
+      )}
+      <div className="flex items-center gap-2">
+        <Tooltip title={playing ? "Pause" : "Play"}>
+          <Button
+            variant="ghost"
+            size="icon"
+            disabled={!src}
+            onClick={togglePlaying}
+          >
+            {playing ? <Pause /> : <Play />}
+          </Button>
+        </Tooltip>
+        <Slider
+          className="flex-grow"
+          min={0}
+          max={audio.duration}
+          step={0.1}
+          value={[time]}
+          disabled={!src}
+          onValueChange={([value]) => seek(value ?? 0)}
+        />
+        <span className="text-muted-foreground text-xs tabular-nums">
+          {formatTime(time)} / {formatTime(audio.duration)}
+        </span>
+        <Select
+          value={String(rate)}
+          onValueChange={(value) => setRate(Number(value))}
+        >
+          <SelectTrigger size="sm" className="w-20">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PLAYBACK_RATES.map((rate) => (
+              <SelectItem key={rate} value={String(rate)}>
+                {rate}x
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {audio.chapters.length > 0 && (
+        <ul className="flex flex-col text-sm">
+          {audio.chapters.map((chapter, i) => {
+            const start = audio.lineStarts[chapter.lineIndex] ?? 0;
+            return (
+              <li key={i}>
+                <button
+                  className={cn(
+                    "hover:bg-accent flex w-full cursor-pointer items-center gap-2 rounded-md px-2 py-1 text-left",
+                    i === chapterIndex && "bg-accent font-medium",
+                  )}
+                  onClick={() => seek(start)}
+                >
+                  <span className="text-muted-foreground w-10 text-xs tabular-nums">
+                    {formatTime(start)}
+                  </span>
+                  <span className="flex-grow truncate">{chapter.title}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {audio.lines.length > 0 && (
+        <ol
+          ref={transcriptRef}
+          className="relative flex max-h-64 flex-col gap-1 overflow-y-auto border-t pt-2 text-sm"
+        >
+          {audio.lines.map((line, i) => (
+            <li
+              key={i}
+              className={cn(
+                "hover:bg-accent cursor-pointer rounded-md px-2 py-1 transition-colors",
+                i === lineIndex
+                  ? "bg-accent text-foreground"
+                  : "text-muted-foreground",
+              )}
+              onClick={() => seek(audio.lineStarts[i] ?? 0)}
+            >
+              <span className="text-xs font-medium">
+                {PODCAST_SPEAKER_NAMES[line.speaker]}
+              </span>
+              <p>{line.paragraph}</p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+function formatTime(seconds: number) {
+  const s = Math.floor(seconds);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+}
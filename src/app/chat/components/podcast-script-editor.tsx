@@ -0,0 +1,268 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { AudioLines, Plus, RefreshCw, Trash } from "lucide-react";
+import { nanoid } from "nanoid";
+import { useCallback, useMemo, useState } from "react";
+
+import { Tooltip } from "~/components/deer-flow/tooltip";
+import { Button } from "~/components/ui/button";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { Textarea } from "~/components/ui/textarea";
+import {
+  PODCAST_VOICES,
+  type PodcastLength,
+  type PodcastLocale,
+  type PodcastOptions,
+  type PodcastScriptLine,
+  type PodcastSpeaker,
+} from "~/core/podcast";
+import { cn } from "~/lib/utils";
+
+type DraftLine = PodcastScriptLine & { key: string };
+
+export const PODCAST_SPEAKER_NAMES: Record<PodcastSpeaker, string> = {
+  female: "Female host",
+  male: "Male host",
+};
+
+const LOCALES: { value: PodcastLocale; label: string }[] = [
+  { value: "en", label: "English" },
+  { value: "zh", label: "中文" },
+];
+
+const LENGTHS: { value: PodcastLength; label: string }[] = [
+  { value: "short", label: "Short" },
+  { value: "medium", label: "Medium" },
+  { value: "long", label: "Long" },
+];
+
+export function PodcastScriptEditor({
+  className,
+  lines,
+  options,
+  onCancel,
+  onRewrite,
+  onSubmit,
+}: {
+  className?: string;
+  lines: PodcastScriptLine[];
+  options: PodcastOptions;
+  onCancel?: () => void;
+  onRewrite: (options: PodcastOptions) => void;
+  onSubmit: (lines: PodcastScriptLine[], options: PodcastOptions) => void;
+}) {
+  const [draftOptions, setDraftOptions] = useState(options);
+  // Lines get a local key so that text areas keep their focus while lines are
+  // added or removed.
+  const [draftLines, setDraftLines] = useState<DraftLine[]>(() =>
+    lines.map((line) => ({ ...line, key: nanoid() })),
+  );
+
+  const updateLine = useCallback(
+    (key: string, changes: Partial<PodcastScriptLine>) => {
+      setDraftLines((lines) =>
+        lines.map((line) =>
+          line.key === key ? { ...line, ...changes } : line,
+        ),
+      );
+    },
+    [],
+  );
+  const removeLine = useCallback((key: string) => {
+    setDraftLines((lines) => lines.filter((line) => line.key !== key));
+  }, []);
+  // A new line goes to the other speaker, as the dialogue takes turns.
+  const addLine = useCallback(() => {
+    setDraftLines((lines) => [
+      ...lines,
+      {
+        key: nanoid(),
+        speaker:
+          lines[lines.length - 1]?.speaker === "male" ? "female" : "male",
+        paragraph: "",
+      },
+    ]);
+  }, []);
+
+  const valid = useMemo(
+    () =>
+      draftLines.length > 0 &&
+      draftLines.every((line) => line.paragraph.trim() !== ""),
+    [draftLines],
+  );
+  const handleSubmit = useCallback(() => {
+    onSubmit(
+      draftLines.map(({ key: _key, ...line }) => ({
+        ...line,
+        paragraph: line.paragraph.trim(),
+      })),
+      draftOptions,
+    );
+  }, [draftLines, draftOptions, onSubmit]);
+
+  return (
+    <div className={cn("flex flex-col gap-4", className)}>
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="flex flex-col gap-1">
+          <Label className="text-muted-foreground text-xs">Language</Label>
+          <Select
+            value={draftOptions.locale}
+            onValueChange={(value) =>
+              setDraftOptions({
+                ...draftOptions,
+                locale: value as PodcastLocale,
+              })
+            }
+          >
+            <SelectTrigger size="sm" className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LOCALES.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col gap-1">
+          <Label className="text-muted-foreground text-xs">Length</Label>
+          <Select
+            value={draftOptions.length}
+            onValueChange={(value) =>
+              setDraftOptions({
+                ...draftOptions,
+                length: value as PodcastLength,
+              })
+            }
+          >
+            <SelectTrigger size="sm" className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LENGTHS.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Tooltip title="Write the script again in this language and length. Edits to the script are lost.">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onRewrite(draftOptions)}
+          >
+            <RefreshCw />
+            Rewrite script
+          </Button>
+        </Tooltip>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(PODCAST_SPEAKER_NAMES) as PodcastSpeaker[]).map(
+          (speaker) => (
+            <div key={speaker} className="flex flex-col gap-1">
+              <Label className="text-muted-foreground text-xs">
+                Voice of the {PODCAST_SPEAKER_NAMES[speaker].toLowerCase()}
+              </Label>
+              <Select
+                value={draftOptions.voices[speaker]}
+                onValueChange={(value) =>
+                  setDraftOptions({
+                    ...draftOptions,
+                    voices: { ...draftOptions.voices, [speaker]: value },
+                  })
+                }
+              >
+                <SelectTrigger size="sm" className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PODCAST_VOICES.map((voice) => (
+                    <SelectItem key={voice.id} value={voice.id}>
+                      {voice.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ),
+        )}
+      </div>
+      <ol className="flex flex-col gap-3 border-l-[2px] pl-4">
+        {draftLines.map((line) => (
+          <li key={line.key} className="flex gap-2">
+            <div className="flex flex-grow flex-col gap-1">
+              <Select
+                value={line.speaker}
+                onValueChange={(value) =>
+                  updateLine(line.key, { speaker: value as PodcastSpeaker })
+                }
+              >
+                <SelectTrigger size="sm" className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(
+                    Object.entries(PODCAST_SPEAKER_NAMES) as [
+                      PodcastSpeaker,
+                      string,
+                    ][]
+                  ).map(([speaker, name]) => (
+                    <SelectItem key={speaker} value={speaker}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Textarea
+                className="min-h-16 text-sm"
+                placeholder="What does the host say?"
+                value={line.paragraph}
+                onChange={(e) =>
+                  updateLine(line.key, { paragraph: e.target.value })
+                }
+              />
+            </div>
+            <Tooltip title="Delete line">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => removeLine(line.key)}
+              >
+                <Trash />
+              </Button>
+            </Tooltip>
+          </li>
+        ))}
+      </ol>
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" size="sm" onClick={addLine}>
+          <Plus />
+          Add line
+        </Button>
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button variant="outline" size="sm" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button size="sm" disabled={!valid} onClick={handleSubmit}>
+            <AudioLines />
+            Generate audio
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { Clapperboard, Download, FolderOpen, Save, Trash } from "lucide-react";
+import { nanoid } from "nanoid";
+import { useCallback, useRef, useState } from "react";
+import { toast } from "sonner";
+
+import { Tooltip } from "~/components/deer-flow/tooltip";
+import { Button } from "~/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "~/components/ui/dropdown-menu";
+import { downloadBlob, toFileName } from "~/core/export";
+import {
+  getLocalReplayURL,
+  getRecording,
+  getRecordingTitle,
+  listRecordings,
+  parseRecording,
+  removeRecording,
+  saveRecording,
+  useReplay,
+  type ReplayRecording,
+} from "~/core/replay";
+import { useStore } from "~/core/store";
+
+export function ReplayMenu() {
+  const { isReplay } = useReplay();
+  const threadId = useStore((state) => state.threadId);
+  const responding = useStore((state) => state.responding);
+  const [hasRecording, setHasRecording] = useState(false);
+  const [savedRecordings, setSavedRecordings] = useState<ReplayRecording[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleOpenChange = useCallback(
+    (open: boolean) => {
+      if (!open) {
+        return;
+      }
+      setHasRecording(getRecording(threadId) !== null);
+      listRecordings()
+        .then(setSavedRecordings)
+        .catch((error) => console.error(error));
+    },
+    [threadId],
+  );
+  const handleDownload = useCallback(() => {
+    const text = getRecording(threadId);
+    if (!text) {
+      return;
+    }
+    const title = getRecordingTitle(text) ?? "replay";
+    downloadBlob(
+      new Blob([text], { type: "text/plain;charset=utf-8" }),
+      `${toFileName(title)}.txt`,
+    );
+  }, [threadId]);
+  const handleSave = useCallback(async () => {
+    const text = getRecording(threadId);
+    if (!text) {
+      return;
+    }
+    try {
+      // Saving the same conversation again updates its replay.
+      await saveRecording({
+        id: threadId,
+        title: getRecordingTitle(text) ?? "Untitled replay",
+        createdAt: Date.now(),
+        text,
+      });
+      toast("The replay has been saved in this browser.");
+    } catch (error) {
+      console.error(error);
+      toast("Failed to save the replay.");
+    }
+  }, [threadId]);
+  const handleFileChange = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = "";
+      if (!file) {
+        return;
+      }
+      try {
+        const text = await file.text();
+        if (parseRecording(text).length === 0) {
+          toast("The file is not a replay.");
+          return;
+        }
+        const id = nanoid();
+        await saveRecording({
+          id,
+          title: getRecordingTitle(text) ?? file.name,
+          createdAt: Date.now(),
+          text,
+        });
+        window.location.assign(getLocalReplayURL(id));
+      } catch (error) {
+        console.error(error);
+        toast("Failed to open the replay.");
+      }
+    },
+    [],
+  );
+  const handleRemove = useCallback(async (id: string) => {
+    try {
+      await removeRecording(id);
+      setSavedRecordings((recordings) =>
+        recordings.filter((recording) => recording.id !== id),
+      );
+    } catch (error) {
+      console.error(error);
+    }
+  }, []);
+
+  return (
+    <>
+      <DropdownMenu onOpenChange={handleOpenChange}>
+        <Tooltip title="Replays">
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon">
+              <Clapperboard />
+            </Button>
+          </DropdownMenuTrigger>
+        </Tooltip>
+        <DropdownMenuContent className="w-72" align="start">
+          {!isReplay && (
+            <>
+              <DropdownMenuItem
+                disabled={!hasRecording || responding}
+                onClick={handleDownload}
+              >
+                <Download />
+                Download replay
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                disabled={!hasRecording || responding}
+                onClick={handleSave}
+              >
+                <Save />
+                Save replay in this browser
+              </DropdownMenuItem>
+            </>
+          )}
+          <DropdownMenuItem onClick={() => fileInputRef.current?.click()}>
+            <FolderOpen />
+            Open replay file...
+          </DropdownMenuItem>
+          {savedRecordings.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-muted-foreground text-xs">
+                Saved replays
+              </DropdownMenuLabel>
+              {savedRecordings.map((recording) => (
+                <DropdownMenuItem
+                  key={recording.id}
+                  onClick={() =>
+                    window.location.assign(getLocalReplayURL(recording.id))
+                  }
+                >
+                  <span className="min-w-0 flex-grow truncate">
+                    {recording.title}
+                  </span>
+                  <Button
+                    className="size-6"
+                    variant="ghost"
+                    size="icon"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      void handleRemove(recording.id);
+                    }}
+                  >
+                    <Trash />
+                  </Button>
+                </DropdownMenuItem>
+              ))}
+            </>
+          )}
+          {!isReplay && !hasRecording && (
+            <>
+              <DropdownMenuSeparator />
+              <p className="text-muted-foreground px-2 py-1.5 text-xs">
+                Runs of this conversation are recorded while the page stays
+                open.
+              </p>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <input
+        ref={fileInputRef}
+        className="hidden"
+        type="file"
+        accept=".txt,text/plain"
+        onChange={handleFileChange}
+      />
+    </>
+  );
+}
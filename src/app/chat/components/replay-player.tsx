@@ -0,0 +1,261 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { Pause, Play, SkipBack, SkipForward } from "lucide-react";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { Tooltip } from "~/components/deer-flow/tooltip";
+import { Button } from "~/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import type { ReplayPhaseKind, ReplayTimeline } from "~/core/replay";
+import {
+  REPLAY_SPEEDS,
+  changeReplaySpeed,
+  jumpToReplayPhase,
+  seekReplay,
+  seekReplayToTime,
+  setReplaySpeed,
+  toggleReplay,
+  useReplayStore,
+  useReplayTime,
+} from "~/core/store";
+import { cn } from "~/lib/utils";
+
+const PHASE_COLORS: Record<ReplayPhaseKind, string> = {
+  coordinator: "bg-gray-400/60",
+  plan: "bg-blue-400/70",
+  research: "bg-amber-400/70",
+  report: "bg-green-500/70",
+};
+
+const SHORTCUTS = [
+  ["Space", "Play / pause"],
+  ["← / →", "Previous / next phase"],
+  [", / .", "Previous / next event"],
+  ["- / +", "Slower / faster"],
+];
+
+export function ReplayPlayer({ className }: { className?: string }) {
+  const status = useReplayStore((state) => state.status);
+  const speed = useReplayStore((state) => state.speed);
+  const timeline = useReplayStore((state) => state.timeline);
+  const time = useReplayTime();
+  useReplayShortcuts();
+
+  if (!timeline) {
+    return null;
+  }
+  return (
+    <div className={cn("flex flex-col gap-2", className)}>
+      <ReplayTimelineBar timeline={timeline} time={time} />
+      <div className="flex items-center gap-1">
+        <Tooltip title="Previous phase">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => jumpToReplayPhase(-1)}
+          >
+            <SkipBack />
+          </Button>
+        </Tooltip>
+        <Tooltip title={status === "playing" ? "Pause" : "Play"}>
+          <Button variant="ghost" size="icon" onClick={toggleReplay}>
+            {status === "playing" ? <Pause /> : <Play />}
+          </Button>
+        </Tooltip>
+        <Tooltip title="Next phase">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => jumpToReplayPhase(1)}
+          >
+            <SkipForward />
+          </Button>
+        </Tooltip>
+        <span className="text-muted-foreground ml-2 text-xs tabular-nums">
+          {formatTime(time)} / {formatTime(timeline.duration)}
+        </span>
+        <div className="flex-grow" />
+        <Tooltip
+          title={
+            <ul className="flex flex-col gap-1">
+              {SHORTCUTS.map(([keys, description]) => (
+                <li key={keys} className="flex justify-between gap-4">
+                  <span>{description}</span>
+                  <kbd className="font-mono">{keys}</kbd>
+                </li>
+              ))}
+            </ul>
+          }
+        >
+          <span className="text-muted-foreground mr-2 cursor-help text-xs">
+            Shortcuts
+          </span>
+        </Tooltip>
+        <Select
+          value={String(speed)}
+          onValueChange={(value) => setReplaySpeed(Number(value))}
+        >
+          <SelectTrigger size="sm" className="w-20">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {REPLAY_SPEEDS.map((speed) => (
+              <SelectItem key={speed} value={String(speed)}>
+                {speed}x
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
+
+function ReplayTimelineBar({
+  timeline,
+  time,
+}: {
+  timeline: ReplayTimeline;
+  time: number;
+}) {
+  const barRef = useRef<HTMLDivElement>(null);
+  // While dragging, only the playhead moves. The thread is rebuilt once the
+  // pointer is released.
+  const [dragTime, setDragTime] = useState<number | null>(null);
+  const duration = Math.max(timeline.duration, 1);
+
+  const getPointerTime = useCallback(
+    (e: React.PointerEvent) => {
+      const rect = barRef.current!.getBoundingClientRect();
+      const ratio = Math.min(
+        Math.max((e.clientX - rect.left) / rect.width, 0),
+        1,
+      );
+      return ratio * duration;
+    },
+    [duration],
+  );
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setDragTime(getPointerTime(e));
+    },
+    [getPointerTime],
+  );
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent) => {
+      if (dragTime !== null) {
+        setDragTime(getPointerTime(e));
+      }
+    },
+    [dragTime, getPointerTime],
+  );
+  const handlePointerUp = useCallback(
+    (e: React.PointerEvent) => {
+      if (dragTime !== null) {
+        seekReplayToTime(getPointerTime(e));
+        setDragTime(null);
+      }
+    },
+    [dragTime, getPointerTime],
+  );
+
+  const playheadTime = dragTime ?? time;
+  return (
+    <div
+      ref={barRef}
+      className="relative h-4 cursor-pointer touch-none select-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      <div className="bg-muted absolute inset-x-0 top-1/2 h-1.5 -translate-y-1/2 overflow-hidden rounded-full">
+        {timeline.phases.map((phase) => {
+          const start = timeline.times[phase.start] ?? 0;
+          const end =
+            phase.end < timeline.times.length
+              ? timeline.times[phase.end]!
+              : timeline.duration;
+          return (
+            <Tooltip key={phase.start} title={phase.label} delayDuration={0}>
+              <div
+                className={cn(
+                  "absolute inset-y-0 border-r border-white/60",
+                  PHASE_COLORS[phase.kind],
+                )}
+                style={{
+                  left: `${(start / duration) * 100}%`,
+                  width: `${((end - start) / duration) * 100}%`,
+                }}
+              />
+            </Tooltip>
+          );
+        })}
+      </div>
+      <div
+        className="bg-primary absolute top-0 h-4 w-1 -translate-x-1/2 rounded-full"
+        style={{ left: `${(playheadTime / duration) * 100}%` }}
+      />
+    </div>
+  );
+}
+
+function useReplayShortcuts() {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (
+        e.metaKey ||
+        e.ctrlKey ||
+        e.altKey ||
+        target?.isContentEditable ||
+        target?.tagName === "INPUT" ||
+        target?.tagName === "TEXTAREA"
+      ) {
+        return;
+      }
+      const { position } = useReplayStore.getState();
+      switch (e.key) {
+        case " ":
+          toggleReplay();
+          break;
+        case "ArrowLeft":
+          jumpToReplayPhase(-1);
+          break;
+        case "ArrowRight":
+          jumpToReplayPhase(1);
+          break;
+        case ",":
+          seekReplay(position - 1);
+          break;
+        case ".":
+          seekReplay(position + 1);
+          break;
+        case "-":
+          changeReplaySpeed(-1);
+          break;
+        case "+":
+        case "=":
+          changeReplaySpeed(1);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+}
+
+function formatTime(ms: number) {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
@@ -0,0 +1,220 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { History } from "lucide-react";
+import { useMemo, useState } from "react";
+
+import { Tooltip } from "~/components/deer-flow/tooltip";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "~/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  countChangedLines,
+  diffReports,
+  type ReportDiffLine,
+  type ReportVersion,
+  type ReportVersionSource,
+} from "~/core/reports";
+import { useReportVersions } from "~/core/store";
+import { cn } from "~/lib/utils";
+
+const SOURCE_LABELS: Record<ReportVersionSource, string> = {
+  generated: "Generated",
+  edited: "Edited",
+  rewritten: "AI rewrite",
+  restored: "Restored",
+};
+
+export function ReportHistoryDialog({
+  reportId,
+  onRestore,
+}: {
+  reportId: string;
+  onRestore: (version: ReportVersion) => void;
+}) {
+  const versions = useReportVersions(reportId);
+  const [open, setOpen] = useState(false);
+  // Version ids, defaulting to the latest version against the one before it.
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [baseId, setBaseId] = useState<string | null>(null);
+
+  const selected =
+    versions.find((v) => v.id === selectedId) ?? versions[versions.length - 1];
+  const base =
+    versions.find((v) => v.id === baseId) ??
+    versions[(selected?.number ?? 1) - 2] ??
+    selected;
+  const diff = useMemo(
+    () => (base && selected ? diffReports(base.content, selected.content) : []),
+    [base, selected],
+  );
+  const latest = versions[versions.length - 1];
+
+  const handleOpenChange = (open: boolean) => {
+    setOpen(open);
+    if (open) {
+      setSelectedId(null);
+      setBaseId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <Tooltip title="Version history">
+        <DialogTrigger asChild>
+          <Button
+            className="text-gray-400"
+            size="icon"
+            variant="ghost"
+            disabled={versions.length === 0}
+          >
+            <History />
+          </Button>
+        </DialogTrigger>
+      </Tooltip>
+      <DialogContent className="sm:max-w-[960px]">
+        <DialogHeader>
+          <DialogTitle>Version History</DialogTitle>
+          <DialogDescription>
+            Every version of the report, from what the model wrote to the latest
+            edit. Pick a version to see what changed.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex h-[60vh] min-h-0 gap-4">
+          <ul className="flex w-56 shrink-0 flex-col gap-1 overflow-y-auto">
+            {[...versions].reverse().map((version) => (
+              <li key={version.id}>
+                <button
+                  className={cn(
+                    "hover:bg-accent w-full rounded-md px-3 py-2 text-left text-sm",
+                    version.id === selected?.id && "bg-accent",
+                  )}
+                  onClick={() => {
+                    setSelectedId(version.id);
+                    setBaseId(null);
+                  }}
+                >
+                  <div className="font-medium">
+                    Version {version.number}
+                    {version === latest && (
+                      <span className="text-muted-foreground font-normal">
+                        {" "}
+                        (current)
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-muted-foreground text-xs">
+                    {getVersionLabel(version)} ·{" "}
+                    {new Date(version.createdAt).toLocaleString()}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="flex min-w-0 flex-grow flex-col gap-2">
+            {selected && base && (
+              <div className="flex items-center gap-2 text-sm">
+                <span className="text-muted-foreground">Compare with</span>
+                <Select value={base.id} onValueChange={setBaseId}>
+                  <SelectTrigger size="sm" className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((version) => (
+                      <SelectItem key={version.id} value={version.id}>
+                        Version {version.number} · {getVersionLabel(version)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="text-muted-foreground ml-auto text-xs">
+                  {countChangedLines(diff)} changed lines
+                </span>
+              </div>
+            )}
+            <ReportDiffView
+              className="min-h-0 flex-grow overflow-y-auto rounded-md border p-4"
+              lines={diff}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            disabled={!selected || selected === latest}
+            onClick={() => {
+              if (selected) {
+                onRestore(selected);
+                setOpen(false);
+              }
+            }}
+          >
+            Restore Version {selected?.number}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ReportDiffView({
+  className,
+  lines,
+}: {
+  className?: string;
+  lines: ReportDiffLine[];
+}) {
+  return (
+    <div className={cn("font-mono text-xs leading-5", className)}>
+      {lines.map((line, i) => (
+        <div
+          key={i}
+          className={cn(
+            "min-h-5 px-1 break-words whitespace-pre-wrap",
+            line.type === "removed" &&
+              "bg-red-500/20 text-red-700 line-through dark:text-red-300",
+            line.type === "added" &&
+              "bg-green-500/20 text-green-700 dark:text-green-300",
+            line.type === "changed" && "bg-yellow-500/10",
+          )}
+        >
+          {line.type === "changed"
+            ? line.segments.map((segment, j) => (
+                <span
+                  key={j}
+                  className={cn(
+                    segment.type === "removed" &&
+                      "bg-red-500/20 text-red-700 line-through dark:text-red-300",
+                    segment.type === "added" &&
+                      "bg-green-500/20 text-green-700 dark:text-green-300",
+                  )}
+                >
+                  {segment.text}
+                </span>
+              ))
+            : line.text}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function getVersionLabel(version: ReportVersion) {
+  if (version.source === "restored" && version.restoredFrom !== undefined) {
+    return `Restored from version ${version.restoredFrom}`;
+  }
+  return SOURCE_LABELS[version.source];
+}
@@ -1,21 +1,69 @@
 // Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
 // SPDX-License-Identifier: MIT
 
-import { Check, Copy, Headphones, Pencil, Undo2, X } from "lucide-react";
+import {
+  Check,
+  Copy,
+  Download,
+  Headphones,
+  Loader2,
+  Pencil,
+  Undo2,
+  X,
+} from "lucide-react";
 import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
 
 import { ScrollContainer } from "~/components/deer-flow/scroll-container";
 import { Tooltip } from "~/components/deer-flow/tooltip";
 import { Button } from "~/components/ui/button";
 import { Card } from "~/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "~/components/ui/dropdown-menu";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "~/components/ui/tabs";
+import {
+  buildCitationRegistry,
+  getCitedCitations,
+} from "~/core/citations";
+import {
+  exportReport,
+  type ExportableReport,
+  type ReportExportFormat,
+} from "~/core/export";
+import type { Message } from "~/core/messages";
 import { useReplay } from "~/core/replay";
-import { closeResearch, listenToPodcast, useStore } from "~/core/store";
+import type { ReportVersion } from "~/core/reports";
+import {
+  clearFocusedActivity,
+  closeResearch,
+  isPaperWritingWorkflow,
+  listenToPodcast,
+  recordGeneratedReport,
+  restoreReportVersion,
+  saveReportEdit,
+  useFinalPaper,
+  useFinalPaperLoading,
+  useSettingsStore,
+  useStore,
+} from "~/core/store";
+import { parseJSON } from "~/core/utils";
 import { cn } from "~/lib/utils";
 
+import { ReportHistoryDialog } from "./report-history-dialog";
 import { ResearchActivitiesBlock } from "./research-activities-block";
 import { ResearchReportBlock } from "./research-report-block";
 
+const EXPORT_FORMATS: { format: ReportExportFormat; label: string }[] = [
+  { format: "pdf", label: "PDF" },
+  { format: "docx", label: "Word (.docx)" },
+  { format: "html", label: "HTML" },
+  { format: "markdown", label: "Markdown with images (.zip)" },
+];
+
 export function ResearchBlock({
   className,
   researchId = null,
@@ -74,9 +122,104 @@ export function ResearchBlock({
     }, 1000);
   }, [reportId]);
 
+  const [exporting, setExporting] = useState(false);
+  const handleExport = useCallback(
+    async (format: ReportExportFormat) => {
+      if (!researchId || !reportId) {
+        return;
+      }
+      setExporting(true);
+      try {
+        await exportReport(getExportableReport(researchId, reportId), format);
+      } catch (error) {
+        console.error(error);
+        toast("Failed to export the report.");
+      } finally {
+        setExporting(false);
+      }
+    },
+    [researchId, reportId],
+  );
+
+  // Suggestions left in the editor are not part of the report, and are lost
+  // when editing ends.
+  const [pendingChanges, setPendingChanges] = useState(false);
   const handleEdit = useCallback(() => {
-    setEditing((editing) => !editing);
-  }, []);
+    if (
+      editing &&
+      pendingChanges &&
+      !window.confirm(
+        "Some suggestions are neither accepted nor rejected. Stop editing and discard them?",
+      )
+    ) {
+      return;
+    }
+    setPendingChanges(false);
+    setEditing(!editing);
+  }, [editing, pendingChanges]);
+
+  // The first version of a report is what the model wrote.
+  const finalPaper = useFinalPaper();
+  const finalPaperLoading = useFinalPaperLoading();
+  useEffect(() => {
+    if (reportId && !reportStreaming) {
+      recordGeneratedReport(reportId);
+    }
+  }, [reportId, reportStreaming, finalPaper, finalPaperLoading]);
+
+  // Each editing session becomes a version when it ends.
+  useEffect(() => {
+    if (!editing || !reportId) {
+      return;
+    }
+    return () => saveReportEdit(reportId);
+  }, [editing, reportId]);
+
+  const handleRestore = useCallback(
+    (version: ReportVersion) => {
+      if (!reportId) {
+        return;
+      }
+      // The editor does not pick up content replaced under it.
+      if (editing) {
+        saveReportEdit(reportId);
+        setPendingChanges(false);
+        setEditing(false);
+      }
+      restoreReportVersion(reportId, version.id);
+    },
+    [reportId, editing],
+  );
+
+  // Jump to an activity picked elsewhere, e.g. from the agent graph.
+  const focusedActivityId = useStore((state) => state.focusedActivityId);
+  useEffect(() => {
+    if (!focusedActivityId || !researchId) {
+      return;
+    }
+    const state = useStore.getState();
+    if (state.researchReportIds.get(researchId) === focusedActivityId) {
+      setActiveTab("report");
+      clearFocusedActivity();
+      return;
+    }
+    const activityIds = state.researchActivityIds.get(researchId);
+    if (!activityIds?.includes(focusedActivityId)) {
+      return;
+    }
+    setActiveTab("activities");
+    // Wait for the tab to be shown before scrolling.
+    const scrollTimer = setTimeout(() => {
+      document
+        .getElementById(`activity-${focusedActivityId}`)
+        ?.scrollIntoView({ behavior: "smooth", block: "start" });
+    }, 100);
+    const clearTimer = setTimeout(clearFocusedActivity, 2000);
+    return () => {
+      clearTimeout(scrollTimer);
+      clearTimeout(clearTimer);
+    };
+  }, [focusedActivityId, researchId]);
 
   // When the research id changes, set the active tab to activities
   useEffect(() => {
@@ -113,6 +256,12 @@ export function ResearchBlock({
                   {editing ? <Undo2 /> : <Pencil />}
                 </Button>
               </Tooltip>
+              {reportId && (
+                <ReportHistoryDialog
+                  reportId={reportId}
+                  onRestore={handleRestore}
+                />
+              )}
               <Tooltip title="Copy">
                 <Button
                   className="text-gray-400"
@@ -123,6 +272,34 @@ export function ResearchBlock({
                   {copied ? <Check /> : <Copy />}
                 </Button>
               </Tooltip>
+              <DropdownMenu>
+                <Tooltip title="Export">
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      className="text-gray-400"
+                      size="icon"
+                      variant="ghost"
+                      disabled={exporting}
+                    >
+                      {exporting ? (
+                        <Loader2 className="animate-spin" />
+                      ) : (
+                        <Download />
+                      )}
+                    </Button>
+                  </DropdownMenuTrigger>
+                </Tooltip>
+                <DropdownMenuContent align="end">
+                  {EXPORT_FORMATS.map(({ format, label }) => (
+                    <DropdownMenuItem
+                      key={format}
+                      onClick={() => handleExport(format)}
+                    >
+                      {label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
             </>
           )}
           <Tooltip title="Close">
@@ -174,6 +351,7 @@ export function ResearchBlock({
                   researchId={researchId}
                   messageId={reportId}
                   editing={editing}
+                  onPendingChangesChange={setPendingChanges}
                 />
               )}
             </ScrollContainer>
@@ -202,3 +380,30 @@ export function ResearchBlock({
     </div>
   );
 }
+
+function getExportableReport(
+  researchId: string,
+  reportId: string,
+): ExportableReport {
+  const state = useStore.getState();
+  const planMessage = state.messages.get(
+    state.researchPlanIds.get(researchId) ?? "",
+  );
+  const activityMessages = (state.researchActivityIds.get(researchId) ?? [])
+    .map((id) => state.messages.get(id))
+    .filter((message): message is Message => !!message);
+  // Mirror `ResearchReportBlock`, which shows the final paper instead of the
+  // report in the paper writing workflow.
+  const markdown =
+    isPaperWritingWorkflow(state.messages) && state.finalPaper
+      ? state.finalPaper.final_paper
+      : (state.messages.get(reportId)?.content ?? "");
+  const citations = buildCitationRegistry(activityMessages);
+  return {
+    title: parseJSON(planMessage?.content, { title: "" }).title || "Report",
+    markdown,
+    citationRegistry: citations,
+    citations: getCitedCitations(markdown, citations),
+    citationStyle: useSettingsStore.getState().general.citationStyle,
+  };
+}
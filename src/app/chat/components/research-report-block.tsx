@@ -1,39 +1,56 @@
 // Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
 // SPDX-License-Identifier: MIT
 
-import { useCallback, useRef } from "react";
+import { useCallback, useMemo, useRef } from "react";
 
 import { LoadingAnimation } from "~/components/deer-flow/loading-animation";
 import { Markdown } from "~/components/deer-flow/markdown";
 import ReportEditor from "~/components/editor";
+import { getCitedCitations } from "~/core/citations";
 import { useReplay } from "~/core/replay";
-import { useMessage, useStore, useFinalPaper } from "~/core/store";
+import {
+  applyReportRewrite,
+  isPaperWritingWorkflow,
+  setReportContent,
+  useMessage,
+  useStore,
+  useFinalPaper,
+  useResearchCitations,
+} from "~/core/store";
 import { cn } from "~/lib/utils";
 
+import { Bibliography } from "./bibliography";
 import { FinalPaperBlock } from "./final-paper-block";
 
 export function ResearchReportBlock({
   className,
+  researchId,
   messageId,
   editing,
+  onPendingChangesChange,
 }: {
   className?: string;
   researchId: string;
   messageId: string;
   editing: boolean;
+  onPendingChangesChange?: (pending: boolean) => void;
 }) {
   const message = useMessage(messageId);
   const finalPaper = useFinalPaper();
+  const citations = useResearchCitations(researchId);
+  const citedCitations = useMemo(
+    () => getCitedCitations(message?.content ?? "", citations),
+    [message?.content, citations],
+  );
   const { isReplay } = useReplay();
   
   // Check if this is a paper writing workflow by looking for paper_writer messages
-  const isPaperWritingWorkflow = Array.from(useStore.getState().messages.values())
-    .some(msg => msg.agent === "paper_writer" || msg.agent === "outline_writer");
+  const isPaperWriting = isPaperWritingWorkflow(useStore.getState().messages);
   
   // Debug logging
   console.log("🔍 ResearchReportBlock render:", {
     messageId,
-    isPaperWritingWorkflow,
+    isPaperWritingWorkflow: isPaperWriting,
     hasFinalPaper: !!finalPaper,
     finalPaperContent: finalPaper?.final_paper ? `${finalPaper.final_paper.length} chars` : 'none',
     messageAgent: message?.agent,
@@ -41,29 +58,26 @@ export function ResearchReportBlock({
   });
   
   const handleMarkdownChange = useCallback(
-    (markdown: string) => {
-      if (message) {
-        message.content = markdown;
-        useStore.setState({
-          messages: new Map(useStore.getState().messages).set(
-            message.id,
-            message,
-          ),
-        });
-      }
-    },
-    [message],
+    (markdown: string) => setReportContent(messageId, markdown),
+    [messageId],
+  );
+  const handleRewrite = useCallback(
+    (before: string, after: string) =>
+      applyReportRewrite(messageId, before, after),
+    [messageId],
   );
   const contentRef = useRef<HTMLDivElement>(null);
   const isCompleted = message?.isStreaming === false && message?.content !== "";
   
   // If this is a paper writing workflow and we have a final paper, show the final paper component
-  if (isPaperWritingWorkflow && finalPaper) {
+  if (isPaperWriting && finalPaper) {
     console.log("✅ Rendering FinalPaperBlock");
     return (
       <FinalPaperBlock
         className={className}
+        researchId={researchId}
         editing={editing}
+        onPendingChangesChange={onPendingChangesChange}
       />
     );
   }
@@ -92,14 +106,21 @@ export function ResearchReportBlock({
       {!isReplay && isCompleted && editing ? (
         <ReportEditor
           content={message?.content}
+          researchId={researchId}
           onMarkdownChange={handleMarkdownChange}
+          onRewrite={handleRewrite}
+          onPendingChangesChange={onPendingChangesChange}
         />
       ) : (
         <>
-          <Markdown animated checkLinkCredibility>
+          <Markdown animated checkLinkCredibility citations={citations}>
             {message?.content}
           </Markdown>
-          {message?.isStreaming && <LoadingAnimation className="my-12" />}
+          {message?.isStreaming ? (
+            <LoadingAnimation className="my-12" />
+          ) : (
+            <Bibliography className="mt-8" citations={citedCitations} />
+          )}
         </>
       )}
     </div>
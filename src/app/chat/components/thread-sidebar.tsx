@@ -0,0 +1,201 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { Check, History, Pencil, Plus, Trash } from "lucide-react";
+import { useCallback, useState } from "react";
+
+import { Tooltip } from "~/components/deer-flow/tooltip";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "~/components/ui/sheet";
+import { useReplay } from "~/core/replay";
+import {
+  createThread,
+  deleteThread,
+  renameThread,
+  switchThread,
+  useStore,
+  useThreads,
+} from "~/core/store";
+import { getThreadTitle, type Thread } from "~/core/threads";
+import { cn } from "~/lib/utils";
+
+export function ThreadSidebar() {
+  const { isReplay } = useReplay();
+  const [open, setOpen] = useState(false);
+  const threads = useThreads();
+  const activeThreadId = useStore((state) => state.threadId);
+  const responding = useStore((state) => state.responding);
+
+  const handleCreate = useCallback(async () => {
+    await createThread();
+    setOpen(false);
+  }, []);
+  const handleSwitch = useCallback(async (threadId: string) => {
+    await switchThread(threadId);
+    setOpen(false);
+  }, []);
+
+  if (isReplay) {
+    return null;
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <Tooltip title="Conversations">
+        <SheetTrigger asChild>
+          <Button variant="ghost" size="icon">
+            <History />
+          </Button>
+        </SheetTrigger>
+      </Tooltip>
+      <SheetContent side="left" className="gap-0">
+        <SheetHeader>
+          <SheetTitle>Conversations</SheetTitle>
+          <SheetDescription>
+            Your conversations are saved in this browser.
+          </SheetDescription>
+        </SheetHeader>
+        <div className="px-4 pb-4">
+          <Button
+            className="w-full"
+            variant="outline"
+            disabled={responding}
+            onClick={handleCreate}
+          >
+            <Plus />
+            New conversation
+          </Button>
+        </div>
+        <ul className="flex min-h-0 flex-grow flex-col gap-1 overflow-y-auto px-2 pb-4">
+          {threads.map((thread) => (
+            <ThreadListItem
+              key={thread.id}
+              thread={thread}
+              active={thread.id === activeThreadId}
+              disabled={responding}
+              onSelect={handleSwitch}
+            />
+          ))}
+          {threads.length === 0 && (
+            <li className="text-muted-foreground px-2 text-sm">
+              No conversations yet.
+            </li>
+          )}
+        </ul>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function ThreadListItem({
+  thread,
+  active,
+  disabled,
+  onSelect,
+}: {
+  thread: Thread;
+  active: boolean;
+  disabled: boolean;
+  onSelect: (threadId: string) => void;
+}) {
+  const [renaming, setRenaming] = useState(false);
+  const [title, setTitle] = useState("");
+  const handleStartRename = useCallback(() => {
+    setTitle(getThreadTitle(thread));
+    setRenaming(true);
+  }, [thread]);
+  const handleRename = useCallback(async () => {
+    await renameThread(thread.id, title);
+    setRenaming(false);
+  }, [thread.id, title]);
+  return (
+    <li
+      className={cn(
+        "group hover:bg-accent relative flex cursor-pointer flex-col rounded-md px-2 py-2",
+        active && "bg-accent",
+        disabled && !active && "pointer-events-none opacity-50",
+      )}
+      onClick={() => {
+        if (!renaming) {
+          onSelect(thread.id);
+        }
+      }}
+    >
+      {renaming ? (
+        <div
+          className="flex items-center gap-1"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <Input
+            className="h-8"
+            value={title}
+            autoFocus
+            onChange={(e) => setTitle(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                void handleRename();
+              } else if (e.key === "Escape") {
+                setRenaming(false);
+              }
+            }}
+          />
+          <Button variant="ghost" size="icon" onClick={handleRename}>
+            <Check />
+          </Button>
+        </div>
+      ) : (
+        <>
+          <div className="truncate pr-16 text-sm font-medium">
+            {getThreadTitle(thread)}
+          </div>
+          {thread.planTitles.length > 0 && (
+            <ul className="text-muted-foreground mt-1 flex flex-col text-xs">
+              {thread.planTitles.map((planTitle) => (
+                <li key={planTitle} className="truncate">
+                  {planTitle}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="text-muted-foreground mt-1 text-xs">
+            {new Date(thread.updatedAt).toLocaleString()}
+          </div>
+          <div
+            className="absolute top-1 right-1 flex opacity-0 transition-opacity duration-300 group-hover:opacity-100"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <Tooltip title="Rename">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={handleStartRename}
+              >
+                <Pencil />
+              </Button>
+            </Tooltip>
+            <Tooltip title="Delete">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                disabled={disabled && active}
+                onClick={() => deleteThread(thread.id)}
+              >
+                <Trash />
+              </Button>
+            </Tooltip>
+          </div>
+        </>
+      )}
+    </li>
+  );
+}
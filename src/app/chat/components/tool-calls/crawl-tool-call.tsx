@@ -0,0 +1,53 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { motion } from "framer-motion";
+import { BookOpenText } from "lucide-react";
+import { useMemo } from "react";
+
+import { FavIcon } from "~/components/deer-flow/fav-icon";
+import { RainbowText } from "~/components/deer-flow/rainbow-text";
+
+import { pageTitles } from "./page-titles";
+import type { ToolCallRendererProps } from "./registry";
+
+export function CrawlToolCall({ toolCall }: ToolCallRendererProps) {
+  const url = useMemo(
+    () => (toolCall.args as { url: string }).url,
+    [toolCall.args],
+  );
+  const title = useMemo(() => pageTitles.get(url), [url]);
+  return (
+    <section className="mt-4 pl-4">
+      <div>
+        <RainbowText
+          className="flex items-center text-base font-medium italic"
+          animated={toolCall.result === undefined}
+        >
+          <BookOpenText size={16} className={"mr-2"} />
+          <span>Reading</span>
+        </RainbowText>
+      </div>
+      <ul className="mt-2 flex flex-wrap gap-4">
+        <motion.li
+          className="text-muted-foreground bg-accent flex h-40 w-40 gap-2 rounded-md px-2 py-1 text-sm"
+          initial={{ opacity: 0, y: 10, scale: 0.66 }}
+          animate={{ opacity: 1, y: 0, scale: 1 }}
+          transition={{
+            duration: 0.2,
+            ease: "easeOut",
+          }}
+        >
+          <FavIcon className="mt-1" url={url} title={title} />
+          <a
+            className="h-full flex-grow overflow-hidden text-ellipsis whitespace-nowrap"
+            href={url}
+            target="_blank"
+          >
+            {title ?? url}
+          </a>
+        </motion.li>
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,61 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { useMemo } from "react";
+
+import { findMCPTool } from "~/core/mcp";
+import type { ToolCallRuntime } from "~/core/messages";
+
+import { CrawlToolCall } from "./crawl-tool-call";
+import { MCPToolCall } from "./mcp-tool-call";
+import { PythonToolCall } from "./python-tool-call";
+import {
+  matchResult,
+  matchToolName,
+  registerToolCallRenderer,
+  resolveToolCallRenderer,
+} from "./registry";
+import { isTableResult, TableToolCall } from "./table-tool-call";
+import { WebSearchToolCall } from "./web-search-tool-call";
+
+export * from "./registry";
+
+// From the least to the most specific, as later renderers take precedence.
+registerToolCallRenderer({
+  id: "mcp",
+  match: () => true,
+  component: MCPToolCall,
+});
+registerToolCallRenderer({
+  id: "table",
+  match: matchResult(isTableResult),
+  component: TableToolCall,
+});
+registerToolCallRenderer({
+  id: "python",
+  match: matchToolName("python_repl_tool"),
+  component: PythonToolCall,
+});
+registerToolCallRenderer({
+  id: "crawl",
+  match: matchToolName("crawl_tool"),
+  component: CrawlToolCall,
+});
+registerToolCallRenderer({
+  id: "web_search",
+  match: matchToolName("web_search"),
+  component: WebSearchToolCall,
+});
+
+export function ToolCallView({ toolCall }: { toolCall: ToolCallRuntime }) {
+  const tool = useMemo(
+    () => findMCPTool(toolCall.name) ?? null,
+    [toolCall.name],
+  );
+  const renderer = resolveToolCallRenderer(toolCall, tool);
+  if (!renderer) {
+    return null;
+  }
+  const Component = renderer.component;
+  return <Component toolCall={toolCall} tool={tool} />;
+}
@@ -0,0 +1,8 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { LRUCache } from "lru-cache";
+
+// Titles of the pages found by web searches, so that crawling a page can show
+// its title instead of the bare URL.
+export const pageTitles = new LRUCache<string, string>({ max: 100 });
@@ -0,0 +1,133 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { PythonOutlined } from "@ant-design/icons";
+import { useTheme } from "next-themes";
+import { useMemo } from "react";
+import SyntaxHighlighter from "react-syntax-highlighter";
+import { docco } from "react-syntax-highlighter/dist/esm/styles/hljs";
+import { dark } from "react-syntax-highlighter/dist/esm/styles/prism";
+
+import { RainbowText } from "~/components/deer-flow/rainbow-text";
+import { VisualizationView } from "~/components/deer-flow/visualization";
+import { detectVisualizations } from "~/core/visualization";
+
+import type { ToolCallRendererProps } from "./registry";
+
+export function PythonToolCall({ toolCall }: ToolCallRendererProps) {
+  const code = useMemo<string>(() => {
+    return (toolCall.args as { code: string }).code;
+  }, [toolCall.args]);
+  const { resolvedTheme } = useTheme();
+  return (
+    <section className="mt-4 pl-4">
+      <div className="flex items-center">
+        <PythonOutlined className={"mr-2"} />
+        <RainbowText
+          className="text-base font-medium italic"
+          animated={toolCall.result === undefined}
+        >
+          Running Python code
+        </RainbowText>
+      </div>
+      <div>
+        <div className="bg-accent mt-2 max-h-[400px] max-w-[calc(100%-120px)] overflow-y-auto rounded-md p-2 text-sm">
+          <SyntaxHighlighter
+            language="python"
+            style={resolvedTheme === "dark" ? dark : docco}
+            customStyle={{
+              background: "transparent",
+              border: "none",
+              boxShadow: "none",
+            }}
+          >
+            {code.trim()}
+          </SyntaxHighlighter>
+        </div>
+      </div>
+      {toolCall.result && <PythonToolCallResult result={toolCall.result} />}
+    </section>
+  );
+}
+
+function PythonToolCallResult({ result }: { result: string }) {
+  const hasError = useMemo(
+    () => result.includes("Error executing code:\n"),
+    [result],
+  );
+  const error = useMemo(() => {
+    if (hasError) {
+      const parts = result.split("```\nError: ");
+      if (parts.length > 1) {
+        return parts[1]!.trim();
+      }
+    }
+    return null;
+  }, [result, hasError]);
+  const stdout = useMemo(() => {
+    if (!hasError) {
+      const parts = result.split("```\nStdout: ");
+      if (parts.length > 1) {
+        return parts[1]!.trim();
+      }
+    }
+    return null;
+  }, [result, hasError]);
+  // Charts, tables and images printed by the code are drawn, and the rest of
+  // the output is shown as text.
+  const visualizations = useMemo(
+    () => (stdout ? detectVisualizations(stdout) : []),
+    [stdout],
+  );
+  return (
+    <>
+      <div className="mt-4 font-medium italic">
+        {hasError ? "Error when executing the above code" : "Execution output"}
+      </div>
+      {visualizations.some((visualization) => visualization.type !== "text") ? (
+        visualizations.map((visualization, i) =>
+          visualization.type === "text" ? (
+            <PythonToolCallOutput key={i} output={visualization.text} />
+          ) : (
+            <VisualizationView
+              key={i}
+              className="mt-2 max-w-[calc(100%-120px)]"
+              visualization={visualization}
+            />
+          ),
+        )
+      ) : (
+        <PythonToolCallOutput
+          output={error ?? stdout ?? "(empty)"}
+          hasError={hasError}
+        />
+      )}
+    </>
+  );
+}
+
+function PythonToolCallOutput({
+  output,
+  hasError = false,
+}: {
+  output: string;
+  hasError?: boolean;
+}) {
+  const { resolvedTheme } = useTheme();
+  return (
+    <div className="bg-accent mt-2 max-h-[400px] max-w-[calc(100%-120px)] overflow-y-auto rounded-md p-2 text-sm">
+      <SyntaxHighlighter
+        language="plaintext"
+        style={resolvedTheme === "dark" ? dark : docco}
+        customStyle={{
+          color: hasError ? "red" : "inherit",
+          background: "transparent",
+          border: "none",
+          boxShadow: "none",
+        }}
+      >
+        {output.trim()}
+      </SyntaxHighlighter>
+    </div>
+  );
+}
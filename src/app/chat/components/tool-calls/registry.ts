@@ -0,0 +1,66 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import type { ComponentType } from "react";
+
+import type { MCPToolMetadata } from "~/core/mcp";
+import type { ToolCallRuntime } from "~/core/messages";
+
+export interface ToolCallRendererProps {
+  toolCall: ToolCallRuntime;
+  // The metadata of the MCP tool that was called, if it is one.
+  tool: MCPToolMetadata | null;
+}
+
+export interface ToolCallRenderer {
+  // Registering a renderer with the id of another one replaces it.
+  id: string;
+  match: (toolCall: ToolCallRuntime, tool: MCPToolMetadata | null) => boolean;
+  component: ComponentType<ToolCallRendererProps>;
+}
+
+const renderers: ToolCallRenderer[] = [];
+
+// Renderers registered later take precedence, so that a more specific view,
+// e.g. for a project's own tool, wins over the built-in ones.
+export function registerToolCallRenderer(renderer: ToolCallRenderer) {
+  const index = renderers.findIndex((r) => r.id === renderer.id);
+  if (index !== -1) {
+    renderers.splice(index, 1);
+  }
+  renderers.unshift(renderer);
+}
+
+export function resolveToolCallRenderer(
+  toolCall: ToolCallRuntime,
+  tool: MCPToolMetadata | null,
+) {
+  return renderers.find((renderer) => renderer.match(toolCall, tool)) ?? null;
+}
+
+export function matchToolName(...names: string[]) {
+  return (toolCall: ToolCallRuntime) => names.includes(toolCall.name);
+}
+
+// Matches MCP tools by the JSON schema of their input, e.g. every tool that
+// takes a `sql` argument.
+export function matchInputSchema(
+  predicate: (inputSchema: Record<string, unknown>) => boolean,
+) {
+  return (_toolCall: ToolCallRuntime, tool: MCPToolMetadata | null) =>
+    tool?.inputSchema !== undefined && predicate(tool.inputSchema);
+}
+
+// Matches finished tool calls by the shape of their JSON result.
+export function matchResult(predicate: (result: unknown) => boolean) {
+  return (toolCall: ToolCallRuntime) => {
+    if (toolCall.result === undefined) {
+      return false;
+    }
+    try {
+      return predicate(JSON.parse(toolCall.result));
+    } catch {
+      return false;
+    }
+  };
+}
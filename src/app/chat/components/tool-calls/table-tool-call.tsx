@@ -0,0 +1,40 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { Table } from "lucide-react";
+import { useMemo } from "react";
+
+import { DataTable } from "~/components/deer-flow/data-table";
+import { RainbowText } from "~/components/deer-flow/rainbow-text";
+import { parseJSON } from "~/core/utils";
+import { parseTableRows } from "~/core/visualization";
+
+import type { ToolCallRendererProps } from "./registry";
+
+// Rows of flat values, e.g. the result of a SQL query.
+export function isTableResult(result: unknown) {
+  return parseTableRows(result) !== null;
+}
+
+export function TableToolCall({ toolCall }: ToolCallRendererProps) {
+  const table = useMemo(
+    () => parseTableRows(parseJSON<unknown>(toolCall.result, null)),
+    [toolCall.result],
+  );
+  return (
+    <section className="mt-4 pl-4">
+      <div className="font-medium italic">
+        <RainbowText
+          className="flex items-center"
+          animated={toolCall.result === undefined}
+        >
+          <Table size={16} className={"mr-2"} />
+          <span>Running {toolCall.name}()</span>
+        </RainbowText>
+      </div>
+      {table && (
+        <DataTable className="mt-2 max-w-[calc(100%-120px)]" table={table} />
+      )}
+    </section>
+  );
+}
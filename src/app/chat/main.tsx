@@ -3,15 +3,37 @@
 
 "use client";
 
-import { useMemo } from "react";
+import { useEffect, useMemo } from "react";
 
-import { useStore } from "~/core/store";
+import { useReplay } from "~/core/replay";
+import {
+  loadThreads,
+  useMCPHealthMonitor,
+  useSettingsStore,
+  useStore,
+} from "~/core/store";
 import { cn } from "~/lib/utils";
 
 import { MessagesBlock } from "./components/messages-block";
 import { ResearchBlock } from "./components/research-block";
 
+const MCP_HEALTH_CHECK_INTERVAL = 5 * 60 * 1000;
+
 export default function Main() {
+  const { isReplay } = useReplay();
+  useEffect(() => {
+    if (!isReplay) {
+      void loadThreads();
+    }
+  }, [isReplay]);
+  // Watches the servers a research would use, so that one that is down is
+  // noticed before a research starts.
+  const mcpServers = useSettingsStore((state) => state.mcp.servers);
+  const enabledMCPServers = useMemo(
+    () => (isReplay ? [] : mcpServers.filter((server) => server.enabled)),
+    [isReplay, mcpServers],
+  );
+  useMCPHealthMonitor(enabledMCPServers, MCP_HEALTH_CHECK_INTERVAL);
   const openResearchId = useStore((state) => state.openResearchId);
   const doubleColumnMode = useMemo(
     () => openResearchId !== null,
@@ -15,6 +15,11 @@ import { ThemeToggle } from "../../components/deer-flow/theme-toggle";
 import { Tooltip } from "../../components/deer-flow/tooltip";
 import { SettingsDialog } from "../settings/dialogs/settings-dialog";
 
+import { AgentGraphButton } from "./components/agent-graph";
+import { DiagnosticsButton } from "./components/diagnostics-button";
+import { ReplayMenu } from "./components/replay-menu";
+import { ThreadSidebar } from "./components/thread-sidebar";
+
 const Main = dynamic(() => import("./main"), {
   ssr: false,
   loading: () => (
@@ -28,8 +33,18 @@ export default function HomePage() {
   return (
     <div className="flex h-screen w-screen justify-center overscroll-none">
       <header className="fixed top-0 left-0 flex h-12 w-full items-center justify-between px-4">
-        <Logo />
+        <div className="flex items-center gap-2">
+          <Suspense>
+            <ThreadSidebar />
+          </Suspense>
+          <AgentGraphButton />
+          <Suspense>
+            <ReplayMenu />
+          </Suspense>
+          <Logo />
+        </div>
         <div className="flex items-center">
+          <DiagnosticsButton />
           <Tooltip title="Star DeerFlow on GitHub">
             <Button variant="ghost" size="icon" asChild>
               <Link
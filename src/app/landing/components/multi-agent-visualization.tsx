@@ -40,7 +40,7 @@ import {
   useMAVStore,
 } from "../store/mav-store";
 
-const nodeTypes = {
+export const nodeTypes = {
   circle: CircleNode,
   agent: AgentNode,
   default: AgentNode,
@@ -220,6 +220,8 @@ function AgentNode({
     icon?: LucideIcon;
     label: string;
     active: boolean;
+    count?: number;
+    onClick?: () => void;
     stepDescription?: string;
     stepTooltipPosition?: "left" | "right" | "top" | "bottom";
   };
@@ -246,12 +248,21 @@ function AgentNode({
       >
         <div
           id={id}
-          className="relative flex w-full items-center justify-center text-xs"
+          className={cn(
+            "relative flex w-full items-center justify-center text-xs",
+            data.onClick && "cursor-pointer",
+          )}
+          onClick={data.onClick}
         >
           <div className="flex items-center gap-2">
             {data.icon && <data.icon className="h-[1rem] w-[1rem]" />}
             <span>{data.label}</span>
           </div>
+          {!!data.count && (
+            <span className="bg-primary text-primary-foreground absolute -top-5 -right-5 flex h-5 min-w-5 items-center justify-center rounded-full px-1 text-[10px]">
+              {data.count}
+            </span>
+          )}
         </div>
       </Tooltip>
       <Handle
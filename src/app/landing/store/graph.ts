@@ -17,6 +17,9 @@ export type GraphNode = Node<{
   label: string;
   icon?: LucideIcon;
   active?: boolean;
+  // Shown as a badge, e.g. the number of tool calls made by an agent.
+  count?: number;
+  onClick?: () => void;
 }>;
 
 export type Graph = {
@@ -21,30 +21,50 @@ export const useMAVStore = create<{
 
 export function activateStep(stepIndex: number) {
   const nextStep = playbook.steps[stepIndex]!;
-  const currentGraph = useMAVStore.getState().graph;
-  const nextGraph: Graph = {
-    nodes: currentGraph.nodes.map((node) => ({
+  const nextGraph = highlightGraph(
+    useMAVStore.getState().graph,
+    nextStep.activeNodes,
+    nextStep.activeEdges,
+  );
+  useMAVStore.setState({
+    activeStepIndex: stepIndex,
+    graph: {
+      ...nextGraph,
+      nodes: nextGraph.nodes.map((node) => ({
+        ...node,
+        data: {
+          ...node.data,
+          stepDescription:
+            nextStep.activeNodes.indexOf(node.id) ===
+              nextStep.activeNodes.length - 1 && nextStep.description,
+          stepTooltipPosition:
+            nextStep.activeNodes.indexOf(node.id) ===
+              nextStep.activeNodes.length - 1 && nextStep.tooltipPosition,
+        },
+      })),
+    },
+  });
+}
+
+// Marks the given nodes as active and animates only the given edges.
+export function highlightGraph(
+  source: Graph,
+  activeNodes: string[],
+  activeEdges: string[],
+): Graph {
+  return {
+    nodes: source.nodes.map((node) => ({
       ...node,
       data: {
         ...node.data,
-        active: nextStep.activeNodes.includes(node.id),
-        stepDescription:
-          nextStep.activeNodes.indexOf(node.id) ===
-            nextStep.activeNodes.length - 1 && nextStep.description,
-        stepTooltipPosition:
-          nextStep.activeNodes.indexOf(node.id) ===
-            nextStep.activeNodes.length - 1 && nextStep.tooltipPosition,
+        active: activeNodes.includes(node.id),
       },
     })),
-    edges: currentGraph.edges.map((edge) => ({
+    edges: source.edges.map((edge) => ({
       ...edge,
-      animated: nextStep.activeEdges.includes(edge.id),
+      animated: activeEdges.includes(edge.id),
     })),
   };
-  useMAVStore.setState({
-    activeStepIndex: stepIndex,
-    graph: nextGraph,
-  });
 }
 
 export function nextStep() {
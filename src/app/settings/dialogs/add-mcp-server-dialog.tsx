@@ -1,8 +1,10 @@
 // Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
 // SPDX-License-Identifier: MIT
 
-import { Loader2 } from "lucide-react";
+import { Loader2, TriangleAlert } from "lucide-react";
 import { useCallback, useState } from "react";
+import { toast } from "sonner";
+import type { z } from "zod";
 
 import { Button } from "~/components/ui/button";
 import {
@@ -17,12 +19,18 @@ import {
 import { Textarea } from "~/components/ui/textarea";
 import { queryMCPServerMetadata } from "~/core/api";
 import {
+  hasPlainMCPServerSecrets,
   MCPConfigSchema,
   type MCPServerMetadata,
   type SimpleMCPServerMetadata,
-  type SimpleSSEMCPServerMetadata,
   type SimpleStdioMCPServerMetadata,
 } from "~/core/mcp";
+import { SecretVaultError } from "~/core/secrets";
+import {
+  moveMCPServerSecretsToVault,
+  resolveMCPServerSecrets,
+  useSecretStore,
+} from "~/core/store";
 
 export function AddMCPServerDialog({
   onAdd,
@@ -34,8 +42,11 @@ export function AddMCPServerDialog({
   const [validationError, setValidationError] = useState<string | null>("");
   const [error, setError] = useState<string | null>(null);
   const [processing, setProcessing] = useState(false);
+  const [hasPlainSecrets, setHasPlainSecrets] = useState(false);
+  const secretVaultStatus = useSecretStore((state) => state.status);
   const handleChange = useCallback((value: string) => {
     setInput(value);
+    setHasPlainSecrets(false);
     if (!value.trim()) {
       setValidationError(null);
       return;
@@ -56,8 +67,15 @@ export function AddMCPServerDialog({
       if (result.error.errors[0]) {
         const error = result.error.errors[0];
         if (error.code === "invalid_union") {
-          if (error.unionErrors[0]?.errors[0]) {
-            setValidationError(error.unionErrors[0].errors[0].message);
+          // The errors of the server type the config is closest to.
+          const server = (
+            JSON.parse(value) as { mcpServers: Record<string, unknown> }
+          ).mcpServers[String(error.path[1])];
+          const isRemote =
+            typeof server === "object" && server !== null && "url" in server;
+          const unionError = error.unionErrors[isRemote ? 1 : 0];
+          if (unionError?.errors[0]) {
+            setValidationError(unionError.errors[0].message);
             return;
           }
         }
@@ -73,30 +91,14 @@ export function AddMCPServerDialog({
       setValidationError("Missing server name in `mcpServers`");
       return;
     }
+    setHasPlainSecrets(
+      toSimpleMCPServers(result.data).some(hasPlainMCPServerSecrets),
+    );
   }, []);
   const handleAdd = useCallback(async () => {
     const config = MCPConfigSchema.parse(JSON.parse(input));
     setInput(JSON.stringify(config, null, 2));
-    const addingServers: SimpleMCPServerMetadata[] = [];
-    for (const [key, server] of Object.entries(config.mcpServers)) {
-      if ("command" in server) {
-        const metadata: SimpleStdioMCPServerMetadata = {
-          transport: "stdio",
-          name: key,
-          command: server.command,
-          args: server.args,
-          env: server.env,
-        };
-        addingServers.push(metadata);
-      } else if ("url" in server) {
-        const metadata: SimpleSSEMCPServerMetadata = {
-          transport: "sse",
-          name: key,
-          url: server.url,
-        };
-        addingServers.push(metadata);
-      }
-    }
+    const addingServers = toSimpleMCPServers(config);
     setProcessing(true);
 
     const results: MCPServerMetadata[] = [];
@@ -105,21 +107,39 @@ export function AddMCPServerDialog({
       setError(null);
       for (const server of addingServers) {
         processingServer = server.name;
-        const metadata = await queryMCPServerMetadata(server);
-        results.push({ ...metadata, name: server.name, enabled: true });
+        const metadata = await queryMCPServerMetadata(
+          resolveMCPServerSecrets(server),
+        );
+        // The config is kept with its secret references, not the secrets.
+        results.push({ ...metadata, ...server, enabled: true });
+      }
+      // Only once every server answered, so that no secrets are left behind
+      // for servers that are not added.
+      const moveSecrets = secretVaultStatus === "unlocked" && hasPlainSecrets;
+      if (moveSecrets) {
+        for (let i = 0; i < results.length; i++) {
+          results[i] = await moveMCPServerSecretsToVault(results[i]!);
+        }
       }
       if (results.length > 0) {
         onAdd?.(results);
+        if (moveSecrets) {
+          toast("The env and header values are now kept in the vault.");
+        }
       }
       setInput("");
       setOpen(false);
     } catch (e) {
       console.error(e);
-      setError(`Failed to add server: ${processingServer}`);
+      setError(
+        e instanceof SecretVaultError
+          ? e.message
+          : `Failed to add server: ${processingServer}`,
+      );
     } finally {
       setProcessing(false);
     }
-  }, [input, onAdd]);
+  }, [input, onAdd, secretVaultStatus, hasPlainSecrets]);
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
@@ -134,17 +154,40 @@ export function AddMCPServerDialog({
           DeerFlow uses the standard JSON MCP config to create a new server.
           <br />
           Paste your config below and click &quot;Add&quot; to add new servers.
+          <br />
+          Remote servers speak SSE unless <code>transport</code> is set to{" "}
+          <code>streamable_http</code>, and can send <code>headers</code> to
+          authorize. Values in <code>env</code> and <code>headers</code> can
+          refer to secrets in the vault as <code>{"{{secret:NAME}}"}</code>.
         </DialogDescription>
 
         <main>
           <Textarea
             className="h-[360px]"
             placeholder={
-              'Example:\n\n{\n  "mcpServers": {\n    "My Server": {\n      "command": "python",\n      "args": [\n        "-m", "mcp_server"\n      ],\n      "env": {\n        "API_KEY": "YOUR_API_KEY"\n      }\n    }\n  }\n}'
+              'Example:\n\n{\n  "mcpServers": {\n    "My Server": {\n      "command": "python",\n      "args": [\n        "-m", "mcp_server"\n      ],\n      "env": {\n        "API_KEY": "YOUR_API_KEY"\n      }\n    },\n    "My Remote Server": {\n      "url": "https://example.com/mcp",\n      "transport": "streamable_http",\n      "headers": {\n        "Authorization": "Bearer YOUR_TOKEN"\n      }\n    }\n  }\n}'
             }
             value={input}
             onChange={(e) => handleChange(e.target.value)}
           />
+          {hasPlainSecrets &&
+            (secretVaultStatus === "unlocked" ? (
+              <div className="text-muted-foreground mt-2 text-sm">
+                The values in <code>env</code> and <code>headers</code> are
+                moved into the secret vault when the servers are added.
+              </div>
+            ) : (
+              <div className="mt-2 flex gap-2 text-sm text-amber-600">
+                <TriangleAlert className="mt-0.5 size-4 shrink-0" />
+                <div>
+                  The values in <code>env</code> and <code>headers</code> will
+                  be saved in plain text in this browser.{" "}
+                  {secretVaultStatus === "empty"
+                    ? "Create a secret vault in the Secrets settings first to keep them encrypted."
+                    : "Unlock the secret vault in the Secrets settings first to keep them encrypted."}
+                </div>
+              </div>
+            ))}
         </main>
 
         <DialogFooter>
@@ -172,3 +215,30 @@ export function AddMCPServerDialog({
     </Dialog>
   );
 }
+
+function toSimpleMCPServers(
+  config: z.infer<typeof MCPConfigSchema>,
+): SimpleMCPServerMetadata[] {
+  const servers: SimpleMCPServerMetadata[] = [];
+  for (const [key, server] of Object.entries(config.mcpServers)) {
+    if ("command" in server) {
+      const metadata: SimpleStdioMCPServerMetadata = {
+        transport: "stdio",
+        name: key,
+        command: server.command,
+        args: server.args,
+        env: server.env,
+      };
+      servers.push(metadata);
+    } else if ("url" in server) {
+      servers.push({
+        transport: server.transport ?? "sse",
+        name: key,
+        url: server.url,
+        headers: server.headers,
+        env: server.env,
+      });
+    }
+  }
+  return servers;
+}
@@ -0,0 +1,534 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import {
+  CircleCheck,
+  CircleX,
+  FlaskConical,
+  Loader2,
+  Play,
+  Save,
+  Trash,
+  Upload,
+} from "lucide-react";
+import { nanoid } from "nanoid";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import { Markdown } from "~/components/deer-flow/markdown";
+import { Tooltip } from "~/components/deer-flow/tooltip";
+import { Button } from "~/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "~/components/ui/dialog";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { Switch } from "~/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "~/components/ui/tabs";
+import { Textarea } from "~/components/ui/textarea";
+import {
+  getMCPToolArguments,
+  getMCPToolFields,
+  getMCPToolFormValues,
+  invokeMCPTool,
+  MCPToolArgumentError,
+  type MCPServerMetadata,
+  type MCPToolCallResult,
+  type MCPToolExample,
+  type MCPToolField,
+  type MCPToolFormValues,
+  type MCPToolInvocation,
+} from "~/core/mcp";
+import { cn } from "~/lib/utils";
+
+export function MCPToolPlaygroundDialog({
+  server,
+  onChangeExamples,
+}: {
+  server: MCPServerMetadata;
+  onChangeExamples: (examples: MCPToolExample[]) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <Tooltip title="Try the tools">
+        <DialogTrigger asChild>
+          <Button variant="ghost" size="icon">
+            <FlaskConical />
+          </Button>
+        </DialogTrigger>
+      </Tooltip>
+      <DialogContent className="sm:max-w-[760px]">
+        <DialogHeader>
+          <DialogTitle>Playground of {server.name}</DialogTitle>
+        </DialogHeader>
+        <DialogDescription>
+          Call a tool of the server to check that it works, and save the calls
+          as examples to test the tools with again later.
+        </DialogDescription>
+        {open && (
+          <MCPToolPlayground
+            server={server}
+            onChangeExamples={onChangeExamples}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function MCPToolPlayground({
+  server,
+  onChangeExamples,
+}: {
+  server: MCPServerMetadata;
+  onChangeExamples: (examples: MCPToolExample[]) => void;
+}) {
+  const [toolName, setToolName] = useState(server.tools[0]?.name ?? "");
+  const tool = useMemo(
+    () => server.tools.find((tool) => tool.name === toolName),
+    [server.tools, toolName],
+  );
+  const fields = useMemo(
+    () => getMCPToolFields(tool?.inputSchema),
+    [tool?.inputSchema],
+  );
+  const [values, setValues] = useState<MCPToolFormValues>(() =>
+    getMCPToolFormValues(fields),
+  );
+  const [argumentError, setArgumentError] =
+    useState<MCPToolArgumentError | null>(null);
+  const [invocation, setInvocation] = useState<MCPToolInvocation | null>(null);
+  const [running, setRunning] = useState(false);
+  const [exampleName, setExampleName] = useState("");
+  const [examples, setExamples] = useState(server.examples ?? []);
+  // The outcome of the last run of each example, by its id.
+  const [exampleRuns, setExampleRuns] = useState<
+    Record<string, MCPToolInvocation | "running">
+  >({});
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const selectTool = useCallback(
+    (name: string, args?: Record<string, unknown>) => {
+      const tool = server.tools.find((tool) => tool.name === name);
+      setToolName(name);
+      setValues(
+        getMCPToolFormValues(getMCPToolFields(tool?.inputSchema), args),
+      );
+      setArgumentError(null);
+      setInvocation(null);
+    },
+    [server.tools],
+  );
+  const readArguments = useCallback(() => {
+    try {
+      const args = getMCPToolArguments(fields, values);
+      setArgumentError(null);
+      return args;
+    } catch (error) {
+      if (error instanceof MCPToolArgumentError) {
+        setArgumentError(error);
+        return null;
+      }
+      throw error;
+    }
+  }, [fields, values]);
+  const invoke = useCallback(
+    (name: string, args: Record<string, unknown>) => {
+      abortControllerRef.current ??= new AbortController();
+      return invokeMCPTool(server, name, args, {
+        abortSignal: abortControllerRef.current.signal,
+      });
+    },
+    [server],
+  );
+
+  const handleRun = useCallback(async () => {
+    const args = readArguments();
+    if (!args) {
+      return;
+    }
+    setRunning(true);
+    setInvocation(await invoke(toolName, args));
+    setRunning(false);
+  }, [invoke, readArguments, toolName]);
+  const updateExamples = useCallback(
+    (examples: MCPToolExample[]) => {
+      setExamples(examples);
+      onChangeExamples(examples);
+    },
+    [onChangeExamples],
+  );
+  const handleSaveExample = useCallback(() => {
+    const args = readArguments();
+    if (!args) {
+      return;
+    }
+    updateExamples([
+      ...examples,
+      {
+        id: nanoid(),
+        name: exampleName.trim() || `${toolName} #${examples.length + 1}`,
+        tool: toolName,
+        arguments: args,
+        createdAt: Date.now(),
+      },
+    ]);
+    setExampleName("");
+  }, [exampleName, examples, readArguments, toolName, updateExamples]);
+  const runExamples = useCallback(
+    async (examples: MCPToolExample[]) => {
+      // One after another, as servers often handle one call at a time.
+      for (const example of examples) {
+        setExampleRuns((runs) => ({ ...runs, [example.id]: "running" }));
+        const run = await invoke(example.tool, example.arguments);
+        setExampleRuns((runs) => ({ ...runs, [example.id]: run }));
+      }
+    },
+    [invoke],
+  );
+
+  if (server.tools.length === 0) {
+    return (
+      <div className="text-muted-foreground text-sm">
+        This server has no tools.
+      </div>
+    );
+  }
+  return (
+    <div className="flex max-h-[60vh] flex-col gap-4 overflow-y-auto pr-1">
+      <div className="flex flex-col gap-2">
+        <Select value={toolName} onValueChange={(name) => selectTool(name)}>
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {server.tools.map((tool) => (
+              <SelectItem key={tool.name} value={tool.name}>
+                {tool.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {tool?.description && (
+          <div className="text-muted-foreground text-sm">
+            {tool.description}
+          </div>
+        )}
+      </div>
+      {fields.length > 0 ? (
+        <div className="flex flex-col gap-3">
+          {fields.map((field) => (
+            <ToolField
+              key={`${toolName}-${field.name}`}
+              field={field}
+              value={values[field.name]}
+              error={
+                argumentError?.field === field.name
+                  ? argumentError.message
+                  : undefined
+              }
+              onChange={(value) =>
+                setValues((values) => ({ ...values, [field.name]: value }))
+              }
+            />
+          ))}
+        </div>
+      ) : (
+        <div className="text-muted-foreground text-sm">
+          This tool takes no arguments.
+        </div>
+      )}
+      <div className="flex items-center gap-2">
+        <Button disabled={running} onClick={handleRun}>
+          {running ? <Loader2 className="animate-spin" /> : <Play />}
+          Run
+        </Button>
+        <div className="flex-grow" />
+        <Input
+          className="w-52"
+          placeholder="Example name"
+          value={exampleName}
+          onChange={(e) => setExampleName(e.target.value)}
+        />
+        <Button variant="outline" onClick={handleSaveExample}>
+          <Save />
+          Save as example
+        </Button>
+      </div>
+      {invocation && <InvocationView invocation={invocation} />}
+      {examples.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center justify-between">
+            <Label>Examples</Label>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => void runExamples(examples)}
+            >
+              <Play />
+              Run all
+            </Button>
+          </div>
+          <ul className="flex flex-col rounded-lg border">
+            {examples.map((example) => {
+              const run = exampleRuns[example.id];
+              return (
+                <li
+                  key={example.id}
+                  className="flex items-center gap-2 border-b px-3 py-1 text-sm last:border-b-0"
+                >
+                  {run === "running" ? (
+                    <Loader2 className="size-4 animate-spin" />
+                  ) : run ? (
+                    <Tooltip title={run.error ?? getResultText(run.result)}>
+                      {run.passed ? (
+                        <CircleCheck className="size-4 text-green-600" />
+                      ) : (
+                        <CircleX className="text-destructive size-4" />
+                      )}
+                    </Tooltip>
+                  ) : (
+                    <span className="size-4" />
+                  )}
+                  <span className="truncate">{example.name}</span>
+                  <span className="text-muted-foreground truncate text-xs">
+                    {example.tool}
+                  </span>
+                  <div className="flex-grow" />
+                  {run && run !== "running" && (
+                    <span className="text-muted-foreground text-xs tabular-nums">
+                      {formatDuration(run.duration)}
+                    </span>
+                  )}
+                  <Tooltip title="Load into the form">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() =>
+                        selectTool(example.tool, example.arguments)
+                      }
+                    >
+                      <Upload />
+                    </Button>
+                  </Tooltip>
+                  <Tooltip title="Run">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={run === "running"}
+                      onClick={() => void runExamples([example])}
+                    >
+                      <Play />
+                    </Button>
+                  </Tooltip>
+                  <Tooltip title="Delete example">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() =>
+                        updateExamples(
+                          examples.filter(({ id }) => id !== example.id),
+                        )
+                      }
+                    >
+                      <Trash />
+                    </Button>
+                  </Tooltip>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ToolField({
+  field,
+  value,
+  error,
+  onChange,
+}: {
+  field: MCPToolField;
+  value: string | boolean | undefined;
+  error?: string;
+  onChange: (value: string | boolean | undefined) => void;
+}) {
+  const id = `mcp-tool-field-${field.name}`;
+  let input: React.ReactNode;
+  if (field.type === "boolean") {
+    input = (
+      <Switch
+        id={id}
+        checked={value === true}
+        onCheckedChange={(checked) => onChange(checked)}
+      />
+    );
+  } else if (field.type === "enum") {
+    input = (
+      <Select
+        value={typeof value === "string" ? value : ""}
+        onValueChange={(value) => onChange(value)}
+      >
+        <SelectTrigger id={id} className="w-60">
+          <SelectValue placeholder="Select a value" />
+        </SelectTrigger>
+        <SelectContent>
+          {field.options?.map((option) => (
+            <SelectItem key={option} value={option}>
+              {String(JSON.parse(option))}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  } else if (field.type === "json") {
+    input = (
+      <Textarea
+        id={id}
+        className="min-h-20 font-mono text-sm"
+        placeholder="JSON"
+        value={typeof value === "string" ? value : ""}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    );
+  } else {
+    input = (
+      <Input
+        id={id}
+        type={field.type === "string" ? "text" : "number"}
+        step={field.type === "integer" ? 1 : "any"}
+        value={typeof value === "string" ? value : ""}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    );
+  }
+  return (
+    <div className="flex flex-col gap-1">
+      <Label htmlFor={id}>
+        <code>{field.name}</code>
+        {field.required && <span className="text-destructive">*</span>}
+        <span className="text-muted-foreground text-xs font-normal">
+          {field.type}
+        </span>
+      </Label>
+      {input}
+      {field.description && (
+        <div className="text-muted-foreground text-xs">{field.description}</div>
+      )}
+      {error && <div className="text-destructive text-xs">{error}</div>}
+    </div>
+  );
+}
+
+function InvocationView({ invocation }: { invocation: MCPToolInvocation }) {
+  return (
+    <div className="flex flex-col gap-2">
+      <div
+        className={cn(
+          "flex items-center gap-2 text-sm",
+          invocation.passed ? "text-green-600" : "text-destructive",
+        )}
+      >
+        {invocation.passed ? (
+          <CircleCheck className="size-4" />
+        ) : (
+          <CircleX className="size-4" />
+        )}
+        {invocation.passed ? "Succeeded" : "Failed"}
+        <span className="text-muted-foreground tabular-nums">
+          in {formatDuration(invocation.duration)}
+        </span>
+      </div>
+      {invocation.error ? (
+        <div className="text-destructive text-sm">{invocation.error}</div>
+      ) : (
+        <Tabs defaultValue="rendered">
+          <TabsList>
+            <TabsTrigger value="rendered">Rendered</TabsTrigger>
+            <TabsTrigger value="raw">Raw</TabsTrigger>
+          </TabsList>
+          <TabsContent value="rendered">
+            <div className="bg-muted/50 flex flex-col gap-2 rounded-md border p-3">
+              {invocation.result?.content.map((content, i) => (
+                <ResultContentView key={i} content={content} />
+              ))}
+            </div>
+          </TabsContent>
+          <TabsContent value="raw">
+            <pre className="bg-muted/50 overflow-x-auto rounded-md border p-3 text-xs">
+              {JSON.stringify(invocation.result, null, 2)}
+            </pre>
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+}
+
+function ResultContentView({
+  content,
+}: {
+  content: MCPToolCallResult["content"][number];
+}) {
+  switch (content.type) {
+    case "text":
+      return <Markdown className="text-sm">{content.text}</Markdown>;
+    case "image":
+      return (
+        <img
+          className="max-w-full rounded"
+          src={`data:${content.mimeType};base64,${content.data}`}
+          alt=""
+        />
+      );
+    case "audio":
+      return (
+        <audio
+          controls
+          src={`data:${content.mimeType};base64,${content.data}`}
+        />
+      );
+    case "resource":
+      return (
+        <div className="text-sm">
+          <code className="text-muted-foreground">{content.resource.uri}</code>
+          {content.resource.text && (
+            <pre className="mt-1 overflow-x-auto text-xs">
+              {content.resource.text}
+            </pre>
+          )}
+        </div>
+      );
+  }
+}
+
+function getResultText(result: MCPToolCallResult | undefined) {
+  return (
+    result?.content
+      .map((content) => (content.type === "text" ? content.text : content.type))
+      .join("\n")
+      .slice(0, 200) ?? ""
+  );
+}
+
+function formatDuration(ms: number) {
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(2)} s`;
+}
@@ -18,7 +18,15 @@ import {
 } from "~/components/ui/form";
 import { Input } from "~/components/ui/input";
 import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
 import { Switch } from "~/components/ui/switch";
+import { CITATION_STYLES, type CitationStyle } from "~/core/citations";
 import type { SettingsState } from "~/core/store";
 
 import type { Tab } from "./types";
@@ -35,6 +43,7 @@ const generalFormSchema = z.object({
   maxSearchResults: z.number().min(1, {
     message: "Max search results must be at least 1.",
   }),
+  citationStyle: z.enum(["apa", "mla", "ieee", "gbt7714"]),
 });
 
 export const GeneralTab: Tab = ({
@@ -170,6 +179,38 @@ export const GeneralTab: Tab = ({
                 </FormItem>
               )}
             />
+            <FormField
+              control={form.control}
+              name="citationStyle"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Citation style</FormLabel>
+                  <Select
+                    value={field.value}
+                    onValueChange={(value) =>
+                      field.onChange(value as CitationStyle)
+                    }
+                  >
+                    <FormControl>
+                      <SelectTrigger className="w-60">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {CITATION_STYLES.map((style) => (
+                        <SelectItem key={style.value} value={style.value}>
+                          {style.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    The style of the bibliography shown under reports.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
           </form>
         </Form>
       </main>
@@ -6,14 +6,17 @@ import { Settings, type LucideIcon } from "lucide-react";
 import { AboutTab } from "./about-tab";
 import { GeneralTab } from "./general-tab";
 import { MCPTab } from "./mcp-tab";
+import { SecretsTab } from "./secrets-tab";
 
-export const SETTINGS_TABS = [GeneralTab, MCPTab, AboutTab].map((tab) => {
-  const name = tab.name ?? tab.displayName;
-  return {
-    ...tab,
-    id: name.replace(/Tab$/, "").toLocaleLowerCase(),
-    label: name.replace(/Tab$/, ""),
-    icon: (tab.icon ?? <Settings />) as LucideIcon,
-    component: tab,
-  };
-});
+export const SETTINGS_TABS = [GeneralTab, MCPTab, SecretsTab, AboutTab].map(
+  (tab) => {
+    const name = tab.name ?? tab.displayName;
+    return {
+      ...tab,
+      id: name.replace(/Tab$/, "").toLocaleLowerCase(),
+      label: name.replace(/Tab$/, ""),
+      icon: (tab.icon ?? <Settings />) as LucideIcon,
+      component: tab,
+    };
+  },
+);
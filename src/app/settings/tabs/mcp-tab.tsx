@@ -2,19 +2,64 @@
 // SPDX-License-Identifier: MIT
 
 import { motion } from "framer-motion";
-import { Blocks, PencilRuler, Trash } from "lucide-react";
-import { useCallback, useState } from "react";
+import {
+  Blocks,
+  Bot,
+  ChevronDown,
+  Copy,
+  KeyRound,
+  PencilRuler,
+  RefreshCw,
+  Trash,
+} from "lucide-react";
+import { useCallback, useMemo, useState } from "react";
+import { toast } from "sonner";
 
 import { Tooltip } from "~/components/deer-flow/tooltip";
 import { Button } from "~/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "~/components/ui/dropdown-menu";
 import { Switch } from "~/components/ui/switch";
-import type { MCPServerMetadata } from "~/core/mcp";
+import {
+  diffMCPTools,
+  exportMCPConfig,
+  getMCPServerAgents,
+  hasPlainMCPServerSecrets,
+  isMCPToolEnabled,
+  MCP_AGENT_NAMES,
+  MCP_AGENTS,
+  type MCPAgent,
+  type MCPServerMetadata,
+  type MCPToolMetadata,
+} from "~/core/mcp";
+import {
+  checkMCPServerHealth,
+  moveMCPServerSecretsToVault,
+  useMCPHealthMonitor,
+  useMCPServerHealth,
+  useSecretStore,
+} from "~/core/store";
 import { cn } from "~/lib/utils";
 
 import { AddMCPServerDialog } from "../dialogs/add-mcp-server-dialog";
+import { MCPToolPlaygroundDialog } from "../dialogs/mcp-tool-playground-dialog";
 
 import type { Tab } from "./types";
 
+const HEALTH_CHECK_INTERVAL = 60 * 1000;
+
+const TRANSPORT_NAMES: Record<MCPServerMetadata["transport"], string> = {
+  stdio: "stdio",
+  sse: "SSE",
+  streamable_http: "Streamable HTTP",
+};
+
 export const MCPTab: Tab = ({ settings, onChange }) => {
   const [servers, setServers] = useState<MCPServerMetadata[]>(
     settings.mcp.servers,
@@ -48,16 +93,69 @@ export const MCPTab: Tab = ({ settings, onChange }) => {
     },
     [onChange, settings],
   );
-  const handleToggleServer = useCallback(
-    (name: string, enabled: boolean) => {
+  const handleUpdateServer = useCallback(
+    (name: string, changes: Partial<MCPServerMetadata>) => {
       const merged = settings.mcp.servers.map((server) =>
-        server.name === name ? { ...server, enabled } : server,
+        server.name === name
+          ? ({ ...server, ...changes } as MCPServerMetadata)
+          : server,
       );
       setServers(merged);
       onChange({ ...settings, mcp: { ...settings.mcp, servers: merged } });
     },
     [onChange, settings],
   );
+  const handleToggleServer = useCallback(
+    (name: string, enabled: boolean) => {
+      handleUpdateServer(name, { enabled });
+    },
+    [handleUpdateServer],
+  );
+  const handleToggleTool = useCallback(
+    (server: MCPServerMetadata, tool: string) => {
+      const disabledTools = server.disabledTools ?? [];
+      handleUpdateServer(server.name, {
+        disabledTools: disabledTools.includes(tool)
+          ? disabledTools.filter((name) => name !== tool)
+          : [...disabledTools, tool],
+      });
+    },
+    [handleUpdateServer],
+  );
+  const handleToggleAgent = useCallback(
+    (server: MCPServerMetadata, agent: MCPAgent, checked: boolean) => {
+      const agents = getMCPServerAgents(server);
+      handleUpdateServer(server.name, {
+        // Kept in the order of `MCP_AGENTS`.
+        agents: MCP_AGENTS.filter((name) =>
+          name === agent ? checked : agents.includes(name),
+        ),
+      });
+    },
+    [handleUpdateServer],
+  );
+  useMCPHealthMonitor(servers, HEALTH_CHECK_INTERVAL);
+  const secretVaultStatus = useSecretStore((state) => state.status);
+  const handleMoveSecrets = useCallback(
+    async (server: MCPServerMetadata) => {
+      try {
+        handleUpdateServer(
+          server.name,
+          await moveMCPServerSecretsToVault(server),
+        );
+        toast(`The secrets of ${server.name} are now kept in the vault.`);
+      } catch (error) {
+        console.error(error);
+        toast(error instanceof Error ? error.message : String(error));
+      }
+    },
+    [handleUpdateServer],
+  );
+  const handleCopyConfig = useCallback(() => {
+    void navigator.clipboard
+      .writeText(JSON.stringify(exportMCPConfig(servers), null, 2))
+      .then(() => toast("Copied the config of the MCP servers."));
+  }, [servers]);
   const animationProps = {
     initial: { backgroundColor: "gray" },
     animate: { backgroundColor: "transparent" },
@@ -71,7 +169,20 @@ export const MCPTab: Tab = ({ settings, onChange }) => {
       <header>
         <div className="flex items-center justify-between gap-2">
           <h1 className="text-lg font-medium">MCP Servers</h1>
-          <AddMCPServerDialog onAdd={handleAddServers} />
+          <div className="flex items-center gap-2">
+            <Tooltip title="Copy the config of all servers, without secrets">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={servers.length === 0}
+                onClick={handleCopyConfig}
+              >
+                <Copy />
+                Copy Config
+              </Button>
+            </Tooltip>
+            <AddMCPServerDialog onAdd={handleAddServers} />
+          </div>
         </div>
         <div className="text-muted-foreground markdown text-sm">
           The Model Context Protocol boosts DeerFlow by integrating external
@@ -113,7 +224,33 @@ export const MCPTab: Tab = ({ settings, onChange }) => {
                     </div>
                   </Tooltip>
                 </div>
-                <div className="absolute top-1 right-12 opacity-0 transition-opacity duration-300 group-hover:opacity-100">
+                <div className="absolute top-1 right-12 flex opacity-0 transition-opacity duration-300 group-hover:opacity-100">
+                  {hasPlainMCPServerSecrets(server) && (
+                    <Tooltip
+                      title={
+                        secretVaultStatus === "unlocked"
+                          ? "Move env and header values to the secret vault"
+                          : "Unlock the secret vault to move env and header values into it"
+                      }
+                    >
+                      <span>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={secretVaultStatus !== "unlocked"}
+                          onClick={() => handleMoveSecrets(server)}
+                        >
+                          <KeyRound />
+                        </Button>
+                      </span>
+                    </Tooltip>
+                  )}
+                  <MCPToolPlaygroundDialog
+                    server={server}
+                    onChangeExamples={(examples) =>
+                      handleUpdateServer(server.name, { examples })
+                    }
+                  />
                   <Tooltip title="Delete server">
                     <Button
                       variant="ghost"
@@ -143,7 +280,7 @@ export const MCPTab: Tab = ({ settings, onChange }) => {
                       </div>
                     )}
                     <div className="bg-primary text-primary-foreground h-fit rounded px-1.5 py-0.5 text-xs">
-                      {server.transport}
+                      {TRANSPORT_NAMES[server.transport]}
                     </div>
                     {isNew && (
                       <div className="bg-primary text-primary-foreground h-fit rounded px-1.5 py-0.5 text-xs">
@@ -151,6 +288,23 @@ export const MCPTab: Tab = ({ settings, onChange }) => {
                       </div>
                     )}
                   </div>
+                  {server.transport !== "stdio" && (
+                    <div
+                      className={cn(
+                        "text-muted-foreground mb-2 flex max-w-full flex-wrap items-center gap-x-2 text-xs",
+                        !server.enabled && "opacity-70",
+                      )}
+                    >
+                      <span className="truncate">{server.url}</span>
+                      {server.headers &&
+                        Object.keys(server.headers).length > 0 && (
+                          // Only the names, as the values are usually secrets.
+                          <span>
+                            Headers: {Object.keys(server.headers).join(", ")}
+                          </span>
+                        )}
+                    </div>
+                  )}
                   <ul
                     className={cn(
                       "flex flex-wrap items-center gap-2",
@@ -158,17 +312,60 @@ export const MCPTab: Tab = ({ settings, onChange }) => {
                     )}
                   >
                     <PencilRuler size={16} />
-                    {server.tools.map((tool) => (
-                      <li
-                        key={tool.name}
-                        className="text-muted-foreground border-muted-foreground w-fit rounded-md border px-2"
-                      >
-                        <Tooltip key={tool.name} title={tool.description}>
-                          <div className="w-fit text-sm">{tool.name}</div>
-                        </Tooltip>
-                      </li>
-                    ))}
+                    {server.tools.map((tool) => {
+                      const enabled = isMCPToolEnabled(server, tool.name);
+                      return (
+                        <li
+                          key={tool.name}
+                          className={cn(
+                            "text-muted-foreground border-muted-foreground w-fit rounded-md border px-2",
+                            !enabled && "border-dashed opacity-50",
+                          )}
+                        >
+                          <Tooltip
+                            key={tool.name}
+                            title={
+                              <>
+                                {tool.description}
+                                <div className="mt-1 opacity-70">
+                                  Click to {enabled ? "disable" : "enable"}
+                                </div>
+                              </>
+                            }
+                          >
+                            <button
+                              className={cn(
+                                "w-fit cursor-pointer text-sm",
+                                !enabled && "line-through",
+                              )}
+                              onClick={() =>
+                                handleToggleTool(server, tool.name)
+                              }
+                            >
+                              {tool.name}
+                            </button>
+                          </Tooltip>
+                        </li>
+                      );
+                    })}
                   </ul>
+                  <MCPServerAgentsMenu
+                    className={cn("mt-2", !server.enabled && "opacity-70")}
+                    agents={getMCPServerAgents(server)}
+                    onToggle={(agent, checked) =>
+                      handleToggleAgent(server, agent, checked)
+                    }
+                  />
+                  <MCPServerHealthView
+                    className={cn(!server.enabled && "opacity-70")}
+                    server={server}
+                    onUpdateTools={(tools) =>
+                      handleUpdateServer(server.name, {
+                        tools,
+                        updatedAt: Date.now(),
+                      })
+                    }
+                  />
                 </div>
               </motion.li>
             );
@@ -181,6 +378,141 @@ export const MCPTab: Tab = ({ settings, onChange }) => {
 MCPTab.icon = Blocks;
 MCPTab.badge = "Beta";
 
+function MCPServerHealthView({
+  className,
+  server,
+  onUpdateTools,
+}: {
+  className?: string;
+  server: MCPServerMetadata;
+  onUpdateTools: (tools: MCPToolMetadata[]) => void;
+}) {
+  const health = useMCPServerHealth(server.name);
+  const diff = useMemo(
+    () => (health?.tools ? diffMCPTools(server.tools, health.tools) : null),
+    [server.tools, health?.tools],
+  );
+  return (
+    <div className={cn("flex w-full flex-col gap-1 text-xs", className)}>
+      <div className="text-muted-foreground flex items-center gap-2">
+        <span
+          className={cn(
+            "size-2 rounded-full",
+            !health && "bg-muted-foreground/50",
+            health?.status === "checking" && "animate-pulse bg-yellow-500",
+            health?.status === "healthy" && "bg-green-500",
+            health?.status === "unreachable" && "bg-red-500",
+          )}
+        />
+        {!health ? (
+          <span>Not checked yet</span>
+        ) : health.status === "checking" ? (
+          <span>Checking...</span>
+        ) : health.status === "healthy" ? (
+          <span>Healthy, answered in {Math.round(health.latency ?? 0)} ms</span>
+        ) : (
+          <Tooltip title={health.error}>
+            <span className="text-red-500">Unreachable</span>
+          </Tooltip>
+        )}
+        {health?.checkedAt && (
+          <span>· checked {formatCheckedAt(health.checkedAt)}</span>
+        )}
+        <Tooltip title="Check now">
+          <Button
+            className="size-6"
+            variant="ghost"
+            size="icon"
+            disabled={health?.status === "checking"}
+            onClick={() => void checkMCPServerHealth(server)}
+          >
+            <RefreshCw className="size-3" />
+          </Button>
+        </Tooltip>
+      </div>
+      {diff && (diff.added.length > 0 || diff.removed.length > 0) && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-muted-foreground">
+            The tools of the server changed:
+          </span>
+          {diff.added.map((name) => (
+            <span key={name} className="text-green-600">
+              +{name}
+            </span>
+          ))}
+          {diff.removed.map((name) => (
+            <span key={name} className="text-red-500 line-through">
+              {name}
+            </span>
+          ))}
+          <Button
+            className="h-6"
+            variant="outline"
+            size="sm"
+            onClick={() => onUpdateTools(health!.tools!)}
+          >
+            Update tools
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function MCPServerAgentsMenu({
+  className,
+  agents,
+  onToggle,
+}: {
+  className?: string;
+  agents: MCPAgent[];
+  onToggle: (agent: MCPAgent, checked: boolean) => void;
+}) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          className={cn("text-muted-foreground -ml-2", className)}
+          variant="ghost"
+          size="sm"
+        >
+          <Bot />
+          {agents.length > 0
+            ? agents.map((agent) => MCP_AGENT_NAMES[agent]).join(", ")
+            : "No agents"}
+          <ChevronDown />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuLabel>Give the tools to</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {MCP_AGENTS.map((agent) => (
+          <DropdownMenuCheckboxItem
+            key={agent}
+            checked={agents.includes(agent)}
+            // Stays open so that several agents can be picked.
+            onSelect={(e) => e.preventDefault()}
+            onCheckedChange={(checked) => onToggle(agent, checked)}
+          >
+            {MCP_AGENT_NAMES[agent]}
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+function formatCheckedAt(time: number) {
+  const minutes = Math.floor((Date.now() - time) / 60000);
+  if (minutes < 1) {
+    return "just now";
+  }
+  if (minutes < 60) {
+    return `${minutes} min ago`;
+  }
+  return `at ${new Date(time).toLocaleTimeString()}`;
+}
+
 function mergeServers(
   existing: MCPServerMetadata[],
   added: MCPServerMetadata[],
@@ -190,6 +522,12 @@ function mergeServers(
   for (const addedServer of added) {
     addedServer.createdAt = Date.now();
     addedServer.updatedAt = Date.now();
+    // A server added again keeps the tools and agents chosen for it, and the
+    // examples saved for its tools.
+    const existingServer = serverMap.get(addedServer.name);
+    addedServer.disabledTools ??= existingServer?.disabledTools;
+    addedServer.agents ??= existingServer?.agents;
+    addedServer.examples ??= existingServer?.examples;
     serverMap.set(addedServer.name, addedServer);
   }
 
@@ -0,0 +1,266 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { KeyRound, Lock, Trash } from "lucide-react";
+import { useCallback, useState } from "react";
+
+import { Tooltip } from "~/components/deer-flow/tooltip";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { createSecretReference, SECRET_NAME_PATTERN } from "~/core/secrets";
+import {
+  createSecretVault,
+  deleteSecretVault,
+  lockSecretVault,
+  removeSecret,
+  setSecret,
+  unlockSecretVault,
+  useSecretStore,
+} from "~/core/store";
+
+import type { Tab } from "./types";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export const SecretsTab: Tab = () => {
+  const status = useSecretStore((state) => state.status);
+  return (
+    <div className="flex flex-col gap-4">
+      <header>
+        <div className="flex items-center justify-between gap-2">
+          <h1 className="text-lg font-medium">Secrets</h1>
+          {status === "unlocked" && (
+            <Button variant="outline" size="sm" onClick={lockSecretVault}>
+              <Lock />
+              Lock
+            </Button>
+          )}
+        </div>
+        <div className="text-muted-foreground text-sm">
+          API keys and tokens of your MCP servers are kept in a vault that is
+          encrypted with your passphrase, and only sent to the server when
+          starting a research. Refer to a secret in the <code>env</code> or{" "}
+          <code>headers</code> of a server as{" "}
+          <code>{createSecretReference("NAME")}</code>. The vault is unlocked
+          until the page is closed. Changes here are saved right away.
+        </div>
+      </header>
+      <main>
+        {status === "empty" && <CreateVaultForm />}
+        {status === "locked" && <UnlockVaultForm />}
+        {status === "unlocked" && <SecretList />}
+      </main>
+    </div>
+  );
+};
+SecretsTab.icon = KeyRound;
+
+function CreateVaultForm() {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [processing, setProcessing] = useState(false);
+  const error =
+    passphrase.length > 0 && passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? `The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long.`
+      : confirmation && confirmation !== passphrase
+        ? "The passphrases do not match."
+        : null;
+  const handleCreate = useCallback(async () => {
+    setProcessing(true);
+    try {
+      await createSecretVault(passphrase);
+    } finally {
+      setProcessing(false);
+    }
+  }, [passphrase]);
+  return (
+    <form
+      className="flex flex-col gap-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        void handleCreate();
+      }}
+    >
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="secret-vault-passphrase">Passphrase</Label>
+        <Input
+          id="secret-vault-passphrase"
+          className="w-80"
+          type="password"
+          autoComplete="new-password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+        />
+      </div>
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="secret-vault-confirmation">Confirm passphrase</Label>
+        <Input
+          id="secret-vault-confirmation"
+          className="w-80"
+          type="password"
+          autoComplete="new-password"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+        />
+        <div className="text-muted-foreground text-sm">
+          The passphrase can not be recovered. Without it, the secrets are lost.
+        </div>
+      </div>
+      {error && <div className="text-destructive text-sm">{error}</div>}
+      <Button
+        className="w-fit"
+        type="submit"
+        disabled={
+          !!error ||
+          passphrase.length === 0 ||
+          confirmation !== passphrase ||
+          processing
+        }
+      >
+        Create vault
+      </Button>
+    </form>
+  );
+}
+
+function UnlockVaultForm() {
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [processing, setProcessing] = useState(false);
+  const handleUnlock = useCallback(async () => {
+    setProcessing(true);
+    setError(null);
+    try {
+      await unlockSecretVault(passphrase);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setProcessing(false);
+    }
+  }, [passphrase]);
+  const handleDelete = useCallback(() => {
+    if (
+      window.confirm(
+        "Delete the secret vault and all the secrets in it? Servers that refer to them stop working until the secrets are added again.",
+      )
+    ) {
+      deleteSecretVault();
+    }
+  }, []);
+  return (
+    <form
+      className="flex flex-col gap-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        void handleUnlock();
+      }}
+    >
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="secret-vault-passphrase">Passphrase</Label>
+        <Input
+          id="secret-vault-passphrase"
+          className="w-80"
+          type="password"
+          autoComplete="current-password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+        />
+      </div>
+      {error && <div className="text-destructive text-sm">{error}</div>}
+      <div className="flex items-center gap-2">
+        <Button type="submit" disabled={!passphrase || processing}>
+          Unlock
+        </Button>
+        <Button type="button" variant="ghost" onClick={handleDelete}>
+          Forgot passphrase?
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+function SecretList() {
+  const names = useSecretStore((state) => state.names);
+  const [name, setName] = useState("");
+  const [value, setValue] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const nameError =
+    name && !SECRET_NAME_PATTERN.test(name)
+      ? "Use letters, digits and underscores, not starting with a digit."
+      : null;
+  const handleAdd = useCallback(async () => {
+    setError(null);
+    try {
+      await setSecret(name, value);
+      setName("");
+      setValue("");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }, [name, value]);
+  return (
+    <div className="flex flex-col gap-4">
+      {names.length > 0 ? (
+        <ul className="flex flex-col rounded-lg border">
+          {names.map((name) => (
+            <li
+              key={name}
+              className="group flex items-center gap-2 border-b px-4 py-1 last:border-b-0"
+            >
+              <code className="flex-grow text-sm">
+                {createSecretReference(name)}
+              </code>
+              <span className="text-muted-foreground text-sm">••••••••</span>
+              <Tooltip title="Delete secret">
+                <Button
+                  className="opacity-0 transition-opacity group-hover:opacity-100"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => void removeSecret(name)}
+                >
+                  <Trash />
+                </Button>
+              </Tooltip>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="text-muted-foreground text-sm">
+          There are no secrets in the vault yet.
+        </div>
+      )}
+      <form
+        className="flex flex-col gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          void handleAdd();
+        }}
+      >
+        <Label>Add or replace a secret</Label>
+        <div className="flex items-center gap-2">
+          <Input
+            className="w-52"
+            placeholder="NAME"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Input
+            className="flex-grow"
+            type="password"
+            autoComplete="off"
+            placeholder="Value"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+          />
+          <Button type="submit" disabled={!name || !value || !!nameError}>
+            Save
+          </Button>
+        </div>
+        {(nameError ?? error) && (
+          <div className="text-destructive text-sm">{nameError ?? error}</div>
+        )}
+      </form>
+    </div>
+  );
+}
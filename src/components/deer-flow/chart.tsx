@@ -0,0 +1,409 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { useMemo, useState } from "react";
+
+import type { ChartSpec, DataValue } from "~/core/visualization";
+import { cn } from "~/lib/utils";
+
+const WIDTH = 640;
+const HEIGHT = 300;
+const MARGIN = { top: 12, right: 16, bottom: 40, left: 56 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+const COLORS = [
+  "#4c78a8",
+  "#f58518",
+  "#54a24b",
+  "#e45756",
+  "#72b7b2",
+  "#eeca3b",
+  "#b279a2",
+  "#ff9da6",
+  "#9d755d",
+  "#bab0ac",
+];
+
+interface Point {
+  x: number;
+  y: number;
+  value: number;
+}
+
+interface Series {
+  name: string;
+  color: string;
+  // Keyed by the slot of the x value.
+  points: Map<number, Point>;
+}
+
+// An x value that can be hovered, with the values of every series at it.
+interface Slot {
+  label: string;
+  x: number;
+}
+
+export function Chart({
+  className,
+  spec,
+}: {
+  className?: string;
+  spec: ChartSpec;
+}) {
+  const layout = useMemo(() => layoutChart(spec), [spec]);
+  const [hovered, setHovered] = useState<number | null>(null);
+  const slot = hovered === null ? undefined : layout.slots[hovered];
+
+  const handlePointerMove = (event: React.PointerEvent<SVGRectElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * PLOT_WIDTH;
+    let nearest = -1;
+    layout.slots.forEach((slot, i) => {
+      if (
+        nearest === -1 ||
+        Math.abs(slot.x - x) < Math.abs(layout.slots[nearest]!.x - x)
+      ) {
+        nearest = i;
+      }
+    });
+    setHovered(nearest === -1 ? null : nearest);
+  };
+
+  return (
+    <figure className={cn("not-prose text-sm", className)}>
+      {spec.title && (
+        <figcaption className="mb-2 text-center font-medium">
+          {spec.title}
+        </figcaption>
+      )}
+      <div className="relative">
+        <svg
+          className="w-full overflow-visible"
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          role="img"
+          aria-label={spec.title}
+        >
+          <g transform={`translate(${MARGIN.left},${MARGIN.top})`}>
+            {layout.yTicks.map((tick) => (
+              <g key={tick} transform={`translate(0,${layout.scaleY(tick)})`}>
+                <line
+                  x2={PLOT_WIDTH}
+                  stroke="currentColor"
+                  strokeOpacity={tick === 0 ? 0.4 : 0.1}
+                />
+                <text
+                  x={-8}
+                  dy="0.32em"
+                  textAnchor="end"
+                  fill="currentColor"
+                  fillOpacity={0.6}
+                  fontSize={11}
+                >
+                  {formatNumber(tick)}
+                </text>
+              </g>
+            ))}
+            {layout.xTicks.map((tick) => (
+              <text
+                key={`${tick.x}:${tick.label}`}
+                x={tick.x}
+                y={PLOT_HEIGHT + 18}
+                textAnchor="middle"
+                fill="currentColor"
+                fillOpacity={0.6}
+                fontSize={11}
+              >
+                {truncate(tick.label, 14)}
+              </text>
+            ))}
+            {spec.mark === "bar" && <Bars layout={layout} />}
+            {spec.mark !== "bar" &&
+              layout.series.map((series) => (
+                <Lines
+                  key={series.name}
+                  series={series}
+                  mark={spec.mark}
+                  baseline={layout.scaleY(Math.max(layout.yTicks[0]!, 0))}
+                />
+              ))}
+            {slot && (
+              <line
+                x1={slot.x}
+                x2={slot.x}
+                y2={PLOT_HEIGHT}
+                stroke="currentColor"
+                strokeOpacity={0.3}
+                pointerEvents="none"
+              />
+            )}
+            <text
+              x={PLOT_WIDTH / 2}
+              y={PLOT_HEIGHT + 36}
+              textAnchor="middle"
+              fill="currentColor"
+              fontSize={12}
+            >
+              {spec.x.title ?? spec.x.field}
+            </text>
+            <rect
+              width={PLOT_WIDTH}
+              height={PLOT_HEIGHT}
+              fill="transparent"
+              onPointerMove={handlePointerMove}
+              onPointerLeave={() => setHovered(null)}
+            />
+          </g>
+        </svg>
+        {slot && hovered !== null && (
+          <div
+            className="bg-popover text-popover-foreground pointer-events-none absolute top-0 z-10 min-w-32 -translate-x-1/2 rounded-md border px-2 py-1 text-xs shadow-md"
+            style={{ left: `${((MARGIN.left + slot.x) / WIDTH) * 100}%` }}
+          >
+            <div className="font-medium">{slot.label}</div>
+            {layout.series.map((series) => {
+              const point = series.points.get(hovered);
+              if (!point) {
+                return null;
+              }
+              return (
+                <div key={series.name} className="flex items-center gap-2">
+                  <span
+                    className="size-2 rounded-full"
+                    style={{ backgroundColor: series.color }}
+                  />
+                  <span className="text-muted-foreground">
+                    {series.name || (spec.y.title ?? spec.y.field)}
+                  </span>
+                  <span className="ml-auto">{formatNumber(point.value)}</span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+      {layout.series.length > 1 && (
+        <div className="mt-2 flex flex-wrap justify-center gap-x-4 gap-y-1 text-xs">
+          {layout.series.map((series) => (
+            <div key={series.name} className="flex items-center gap-1">
+              <span
+                className="size-2 rounded-full"
+                style={{ backgroundColor: series.color }}
+              />
+              {series.name}
+            </div>
+          ))}
+        </div>
+      )}
+    </figure>
+  );
+}
+
+function Bars({ layout }: { layout: ChartLayout }) {
+  const groupWidth = (PLOT_WIDTH / Math.max(layout.slots.length, 1)) * 0.8;
+  const barWidth = groupWidth / layout.series.length;
+  const baseline = layout.scaleY(Math.max(layout.yTicks[0]!, 0));
+  return (
+    <>
+      {layout.series.map((series, i) =>
+        Array.from(series.points.values()).map((point) => (
+          <rect
+            key={`${series.name}:${point.x}`}
+            x={point.x - groupWidth / 2 + i * barWidth}
+            y={Math.min(point.y, baseline)}
+            width={Math.max(barWidth - 1, 1)}
+            height={Math.abs(baseline - point.y)}
+            fill={series.color}
+          />
+        )),
+      )}
+    </>
+  );
+}
+
+function Lines({
+  series,
+  mark,
+  baseline,
+}: {
+  series: Series;
+  mark: ChartSpec["mark"];
+  baseline: number;
+}) {
+  const points = Array.from(series.points.values()).sort((a, b) => a.x - b.x);
+  const path = points
+    .map((point, i) => `${i === 0 ? "M" : "L"}${point.x},${point.y}`)
+    .join("");
+  return (
+    <>
+      {mark === "area" && points.length > 0 && (
+        <path
+          d={`${path}L${points[points.length - 1]!.x},${baseline}L${points[0]!.x},${baseline}Z`}
+          fill={series.color}
+          fillOpacity={0.3}
+        />
+      )}
+      {mark !== "point" && (
+        <path d={path} fill="none" stroke={series.color} strokeWidth={2} />
+      )}
+      {(mark === "point" || points.length <= 24) &&
+        points.map((point) => (
+          <circle
+            key={point.x}
+            cx={point.x}
+            cy={point.y}
+            r={mark === "point" ? 4 : 3}
+            fill={series.color}
+          />
+        ))}
+    </>
+  );
+}
+
+type ChartLayout = ReturnType<typeof layoutChart>;
+
+function layoutChart(spec: ChartSpec) {
+  // Bars and nominal values are spread evenly, numbers and dates to scale.
+  const continuous = spec.mark !== "bar" && spec.x.type !== "nominal";
+  const keys = new Map<string, number>();
+  const slots: Slot[] = [];
+  const entries: { slot: number; series: string; value: number }[] = [];
+  for (const row of spec.data) {
+    const value = toNumber(row[spec.y.field]);
+    const xValue = row[spec.x.field];
+    if (value === null || xValue === null || xValue === undefined) {
+      continue;
+    }
+    const key = String(xValue);
+    let slot = keys.get(key);
+    if (slot === undefined) {
+      slot = slots.length;
+      keys.set(key, slot);
+      slots.push({ label: formatXValue(xValue, spec.x.type), x: 0 });
+    }
+    const series = spec.color ? String(row[spec.color.field] ?? "") : "";
+    entries.push({ slot, series, value });
+  }
+
+  let xTicks: { label: string; x: number }[];
+  if (continuous) {
+    const xValues = Array.from(keys.keys()).map((key) =>
+      spec.x.type === "temporal" ? Date.parse(key) : Number(key),
+    );
+    const [min, max] = extent(xValues.filter(Number.isFinite));
+    const scaleX = (value: number) =>
+      max === min ? PLOT_WIDTH / 2 : ((value - min) / (max - min)) * PLOT_WIDTH;
+    xValues.forEach((value, i) => {
+      slots[i]!.x = scaleX(value);
+    });
+    xTicks =
+      spec.x.type === "temporal"
+        ? slots
+            .filter((_, i) => i % Math.ceil(slots.length / 6) === 0)
+            .map(({ label, x }) => ({ label, x }))
+        : niceTicks(min, max, 6)
+            .filter((tick) => tick >= min && tick <= max)
+            .map((tick) => ({ label: formatNumber(tick), x: scaleX(tick) }));
+  } else {
+    const band = PLOT_WIDTH / Math.max(slots.length, 1);
+    slots.forEach((slot, i) => {
+      slot.x = band * (i + 0.5);
+    });
+    // Leaves room for about 12 labels.
+    const every = Math.ceil(slots.length / 12);
+    xTicks = slots.filter((_, i) => i % every === 0);
+  }
+
+  const [yMin, yMax] = extent([0, ...entries.map((entry) => entry.value)]);
+  const yTicks = niceTicks(yMin, yMax, 5);
+  const low = yTicks[0]!;
+  const high = yTicks[yTicks.length - 1]!;
+  const scaleY = (value: number) =>
+    PLOT_HEIGHT - ((value - low) / (high - low)) * PLOT_HEIGHT;
+
+  const series = new Map<string, Series>();
+  for (const entry of entries) {
+    let s = series.get(entry.series);
+    if (!s) {
+      s = {
+        name: entry.series,
+        color: COLORS[series.size % COLORS.length]!,
+        points: new Map(),
+      };
+      series.set(entry.series, s);
+    }
+    s.points.set(entry.slot, {
+      x: slots[entry.slot]!.x,
+      y: scaleY(entry.value),
+      value: entry.value,
+    });
+  }
+
+  return {
+    slots,
+    series: Array.from(series.values()),
+    xTicks,
+    yTicks,
+    scaleY,
+  };
+}
+
+function niceTicks(min: number, max: number, count: number) {
+  if (min === max) {
+    return [min - 1, min, min + 1];
+  }
+  const rough = (max - min) / count;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const step =
+    [1, 2, 5, 10].map((n) => n * magnitude).find((n) => n >= rough) ??
+    10 * magnitude;
+  const ticks: number[] = [];
+  for (
+    let tick = Math.floor(min / step) * step;
+    tick <= max + step / 2;
+    tick += step
+  ) {
+    // Avoids values like 0.30000000000000004.
+    ticks.push(Number(tick.toPrecision(12)));
+  }
+  return ticks;
+}
+
+function extent(values: number[]): [number, number] {
+  if (values.length === 0) {
+    return [0, 1];
+  }
+  return [Math.min(...values), Math.max(...values)];
+}
+
+function toNumber(value: DataValue | undefined) {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : null;
+  }
+  return null;
+}
+
+function formatXValue(value: DataValue, type: ChartSpec["x"]["type"]) {
+  if (type === "temporal" && typeof value === "string") {
+    const date = new Date(value);
+    if (!isNaN(date.getTime())) {
+      return date.toLocaleDateString();
+    }
+  }
+  return typeof value === "number" ? formatNumber(value) : String(value);
+}
+
+function formatNumber(value: number) {
+  return new Intl.NumberFormat(undefined, {
+    maximumFractionDigits: 2,
+    notation: Math.abs(value) >= 100000 ? "compact" : "standard",
+  }).format(value);
+}
+
+function truncate(text: string, length: number) {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
@@ -0,0 +1,37 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import type { Citation } from "~/core/citations";
+
+import { FavIcon } from "./fav-icon";
+import { Tooltip } from "./tooltip";
+
+export function CitationMarker({ citation }: { citation: Citation }) {
+  return (
+    <Tooltip
+      className="max-w-80"
+      delayDuration={200}
+      title={
+        <div className="flex flex-col gap-1 py-1">
+          <div className="flex items-center gap-2">
+            <FavIcon url={citation.url} title={citation.title} />
+            <span className="truncate opacity-75">{citation.siteName}</span>
+          </div>
+          <div className="font-medium">{citation.title}</div>
+          {citation.snippet && (
+            <div className="line-clamp-3 opacity-75">{citation.snippet}</div>
+          )}
+        </div>
+      }
+    >
+      <a
+        className="text-primary mx-0.5 align-super text-xs no-underline hover:underline"
+        href={citation.url}
+        target="_blank"
+        rel="noopener noreferrer"
+      >
+        [{citation.number}]
+      </a>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,138 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { ArrowDown, ArrowUp, ChevronsUpDown } from "lucide-react";
+import { useMemo, useState } from "react";
+
+import type { DataValue, TableData } from "~/core/visualization";
+import { cn } from "~/lib/utils";
+
+type SortDirection = "asc" | "desc";
+
+export function DataTable({
+  className,
+  table,
+  maxRows = 50,
+}: {
+  className?: string;
+  table: TableData;
+  maxRows?: number;
+}) {
+  const [sort, setSort] = useState<{
+    column: string;
+    direction: SortDirection;
+  } | null>(null);
+  const rows = useMemo(() => {
+    if (!sort) {
+      return table.rows;
+    }
+    const sign = sort.direction === "asc" ? 1 : -1;
+    return [...table.rows].sort((a, b) =>
+      compareValues(a[sort.column], b[sort.column], sign),
+    );
+  }, [table.rows, sort]);
+
+  // Ascending, descending, then back to the original order.
+  const toggleSort = (column: string) => {
+    if (sort?.column !== column) {
+      setSort({ column, direction: "asc" });
+    } else if (sort.direction === "asc") {
+      setSort({ column, direction: "desc" });
+    } else {
+      setSort(null);
+    }
+  };
+
+  return (
+    <div className={cn("not-prose text-sm", className)}>
+      <div className="max-h-[400px] overflow-auto rounded-md border">
+        <table className="w-full border-collapse">
+          <thead className="bg-accent sticky top-0">
+            <tr>
+              {table.columns.map((column) => (
+                <th
+                  key={column}
+                  className="border-b px-3 py-2 text-left font-medium whitespace-nowrap"
+                >
+                  <button
+                    className="flex items-center gap-1"
+                    onClick={() => toggleSort(column)}
+                  >
+                    {column}
+                    <SortIcon
+                      direction={
+                        sort?.column === column ? sort.direction : undefined
+                      }
+                    />
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.slice(0, maxRows).map((row, i) => (
+              <tr key={i} className="border-b last:border-b-0">
+                {table.columns.map((column) => (
+                  <td
+                    key={column}
+                    className={cn(
+                      "px-3 py-1.5 whitespace-nowrap",
+                      typeof row[column] === "number" && "text-right",
+                    )}
+                  >
+                    {formatValue(row[column])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {rows.length > maxRows && (
+        <div className="text-muted-foreground mt-1 text-xs">
+          Showing {maxRows} of {rows.length} rows
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SortIcon({ direction }: { direction?: SortDirection }) {
+  if (direction === "asc") {
+    return <ArrowUp size={12} />;
+  }
+  if (direction === "desc") {
+    return <ArrowDown size={12} />;
+  }
+  return <ChevronsUpDown size={12} className="text-muted-foreground" />;
+}
+
+// Numbers sort before text, and empty cells stay last in either direction.
+function compareValues(
+  a: DataValue | undefined,
+  b: DataValue | undefined,
+  sign: number,
+) {
+  if (a === null || a === undefined) {
+    return b === null || b === undefined ? 0 : 1;
+  }
+  if (b === null || b === undefined) {
+    return -1;
+  }
+  if (typeof a === "number" && typeof b === "number") {
+    return (a - b) * sign;
+  }
+  if (typeof a === "number" || typeof b === "number") {
+    return (typeof a === "number" ? -1 : 1) * sign;
+  }
+  return (
+    String(a).localeCompare(String(b), undefined, { numeric: true }) * sign
+  );
+}
+
+function formatValue(value: DataValue | undefined) {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  return String(value);
+}
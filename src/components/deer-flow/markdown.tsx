@@ -1,6 +1,7 @@
 // Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
 // SPDX-License-Identifier: MIT
 
+import type { Element, ElementContent } from "hast";
 import { Check, Copy } from "lucide-react";
 import { useMemo, useState } from "react";
 import ReactMarkdown, {
@@ -12,13 +13,25 @@ import remarkMath from "remark-math";
 import "katex/dist/katex.min.css";
 
 import { Button } from "~/components/ui/button";
+import {
+  insertCitationMarkers,
+  parseCitationMarker,
+  type CitationRegistry,
+} from "~/core/citations";
 import { rehypeSplitWordsIntoSpans } from "~/core/rehype";
-import { autoFixMarkdown } from "~/core/utils/markdown";
+import {
+  autoFixMarkdown,
+  dropMarkdownQuote,
+  processKatexInMarkdown,
+} from "~/core/utils/markdown";
+import { parseCodeBlock } from "~/core/visualization";
 import { cn } from "~/lib/utils";
 
+import { CitationMarker } from "./citation-marker";
 import Image from "./image";
 import { Tooltip } from "./tooltip";
 import { Link } from "./link";
+import { VisualizationView } from "./visualization";
 
 export function Markdown({
   className,
@@ -27,6 +40,7 @@ export function Markdown({
   enableCopy,
   animated = false,
   checkLinkCredibility = false,
+  citations,
   ...props
 }: ReactMarkdownOptions & {
   className?: string;
@@ -34,21 +48,44 @@ export function Markdown({
   style?: React.CSSProperties;
   animated?: boolean;
   checkLinkCredibility?: boolean;
+  // When set, links to registered sources are rendered as `[n]` markers.
+  citations?: CitationRegistry;
 }) {
   const components: ReactMarkdownOptions["components"] = useMemo(() => {
     return {
-      a: ({ href, children }) => (
-        <Link href={href} checkLinkCredibility={checkLinkCredibility}>
-          {children}
-        </Link>
-      ),
+      a: ({ href, children }) => {
+        const citation = citations?.get(href);
+        if (
+          citation &&
+          typeof children === "string" &&
+          parseCitationMarker(children) === citation.number
+        ) {
+          return <CitationMarker citation={citation} />;
+        }
+        return (
+          <Link href={href} checkLinkCredibility={checkLinkCredibility}>
+            {children}
+          </Link>
+        );
+      },
       img: ({ src, alt }) => (
         <a href={src as string} target="_blank" rel="noopener noreferrer">
           <Image className="rounded" src={src as string} alt={alt ?? ""} />
         </a>
       ),
+      // Draws ```vega-lite, ```chart, ```mermaid, ```csv and ```tsv blocks. A
+      // block that does not parse, e.g. while it is still streaming, stays code.
+      pre: ({ node, children, ...rest }) => {
+        const visualization = node ? parseCodeBlockNode(node) : null;
+        if (visualization) {
+          return (
+            <VisualizationView className="my-6" visualization={visualization} />
+          );
+        }
+        return <pre {...rest}>{children}</pre>;
+      },
     };
-  }, [checkLinkCredibility]);
+  }, [checkLinkCredibility, citations]);
 
   const rehypePlugins = useMemo(() => {
     if (animated) {
@@ -65,7 +102,10 @@ export function Markdown({
         {...props}
       >
         {autoFixMarkdown(
-          dropMarkdownQuote(processKatexInMarkdown(children ?? "")) ?? "",
+          withCitationMarkers(
+            dropMarkdownQuote(processKatexInMarkdown(children ?? "")) ?? "",
+            citations,
+          ),
         )}
       </ReactMarkdown>
       {enableCopy && typeof children === "string" && (
@@ -77,6 +117,32 @@ export function Markdown({
   );
 }
 
+function parseCodeBlockNode(node: Element) {
+  const code = node.children[0];
+  if (code?.type !== "element" || code.tagName !== "code") {
+    return null;
+  }
+  const className = code.properties.className;
+  const language = Array.isArray(className)
+    ? className
+        .map(String)
+        .find((name) => name.startsWith("language-"))
+        ?.slice("language-".length)
+    : undefined;
+  return language ? parseCodeBlock(language, getText(code)) : null;
+}
+
+function getText(node: ElementContent): string {
+  if (node.type === "text") {
+    return node.value;
+  }
+  return node.type === "element" ? node.children.map(getText).join("") : "";
+}
+
+function withCitationMarkers(markdown: string, citations?: CitationRegistry) {
+  return citations ? insertCitationMarkers(markdown, citations) : markdown;
+}
+
 function CopyButton({ content }: { content: string }) {
   const [copied, setCopied] = useState(false);
   return (
@@ -106,27 +172,3 @@ function CopyButton({ content }: { content: string }) {
     </Tooltip>
   );
 }
-
-function processKatexInMarkdown(markdown?: string | null) {
-  if (!markdown) return markdown;
-
-  const markdownWithKatexSyntax = markdown
-    .replace(/\\\\\[/g, "$$$$") // Replace '\\[' with '$$'
-    .replace(/\\\\\]/g, "$$$$") // Replace '\\]' with '$$'
-    .replace(/\\\\\(/g, "$$$$") // Replace '\\(' with '$$'
-    .replace(/\\\\\)/g, "$$$$") // Replace '\\)' with '$$'
-    .replace(/\\\[/g, "$$$$") // Replace '\[' with '$$'
-    .replace(/\\\]/g, "$$$$") // Replace '\]' with '$$'
-    .replace(/\\\(/g, "$$$$") // Replace '\(' with '$$'
-    .replace(/\\\)/g, "$$$$"); // Replace '\)' with '$$';
-  return markdownWithKatexSyntax;
-}
-
-function dropMarkdownQuote(markdown?: string | null) {
-  if (!markdown) return markdown;
-  return markdown
-    .replace(/^```markdown\n/gm, "")
-    .replace(/^```text\n/gm, "")
-    .replace(/^```\n/gm, "")
-    .replace(/\n```$/gm, "");
-}
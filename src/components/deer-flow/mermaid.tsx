@@ -0,0 +1,66 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { useTheme } from "next-themes";
+import { useEffect, useId, useState } from "react";
+
+import { cn } from "~/lib/utils";
+
+// Renders a Mermaid diagram, e.g. a flowchart, a sequence diagram or a Gantt
+// chart. While the code does not parse, which is usually the case as it is
+// being streamed or typed, the last diagram that did is kept.
+export function Mermaid({
+  className,
+  chart,
+}: {
+  className?: string;
+  chart: string;
+}) {
+  const id = `mermaid-${useId().replace(/[^\w-]/g, "")}`;
+  const { resolvedTheme } = useTheme();
+  const [svg, setSvg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    void (async () => {
+      try {
+        // Mermaid is large, so it is only loaded when a diagram shows up.
+        const { default: mermaid } = await import("mermaid");
+        mermaid.initialize({
+          startOnLoad: false,
+          securityLevel: "strict",
+          suppressErrorRendering: true,
+          theme: resolvedTheme === "dark" ? "dark" : "default",
+        });
+        const { svg } = await mermaid.render(id, chart.trim());
+        if (!cancelled) {
+          setSvg(svg);
+          setError(null);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setError(error instanceof Error ? error.message : String(error));
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [id, chart, resolvedTheme]);
+
+  if (svg === null) {
+    return (
+      <pre className={cn("text-sm", className)}>
+        <code>{chart}</code>
+        {error && <div className="mt-2 text-xs text-red-500">{error}</div>}
+      </pre>
+    );
+  }
+  return (
+    <div
+      className={cn("not-prose flex justify-center overflow-x-auto", className)}
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  );
+}
@@ -0,0 +1,40 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import type { Visualization } from "~/core/visualization";
+
+import { Chart } from "./chart";
+import { DataTable } from "./data-table";
+import Image from "./image";
+import { Mermaid } from "./mermaid";
+
+export function VisualizationView({
+  className,
+  visualization,
+}: {
+  className?: string;
+  visualization: Visualization;
+}) {
+  switch (visualization.type) {
+    case "chart":
+      return <Chart className={className} spec={visualization.spec} />;
+    case "table":
+      return <DataTable className={className} table={visualization.table} />;
+    case "image":
+      return (
+        <Image
+          className={className}
+          src={visualization.src}
+          alt="Generated image"
+        />
+      );
+    case "diagram":
+      return <Mermaid className={className} chart={visualization.code} />;
+    case "text":
+      return (
+        <pre className={className}>
+          <code>{visualization.text}</code>
+        </pre>
+      );
+  }
+}
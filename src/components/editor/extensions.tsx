@@ -31,6 +31,8 @@ import { TableRow } from "@tiptap/extension-table-row";
 import { TableCell } from "@tiptap/extension-table-cell";
 import { cx } from "class-variance-authority";
 import { common, createLowlight } from "lowlight";
+import { MermaidBlock } from "./mermaid-block";
+import { TrackChanges } from "./track-changes";
 
 //TODO I am using cx here to get tailwind autocomplete working, idk if someone else can write a regex to just capture the class key in objects
 const aiHighlight = AIHighlight;
@@ -174,6 +176,7 @@ export const defaultExtensions = [
   tableHeader,
   horizontalRule,
   aiHighlight,
+  MermaidBlock,
   codeBlockLowlight,
   youtube,
   twitter,
@@ -186,4 +189,5 @@ export const defaultExtensions = [
   Color,
   CustomKeymap,
   globalDragHandle,
+  TrackChanges,
 ];
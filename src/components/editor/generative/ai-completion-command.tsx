@@ -4,51 +4,78 @@
 import { CommandGroup, CommandItem, CommandSeparator } from "../../ui/command";
 import { useEditor } from "novel";
 import { Check, TextQuote, TrashIcon } from "lucide-react";
+import { useReportEditorContext } from "../report-editor-context";
+import {
+  getMarkdownWithoutChanges,
+  isSuggesting,
+  suggestReplacement,
+  trackChangesPluginKey,
+} from "../track-changes";
+
+// Whom suggestions made by the AI commands are attributed to.
+const AI_AUTHOR = "AI";
 
 const AICompletionCommands = ({
   completion,
   onDiscard,
+  onAccept,
 }: {
   completion: string;
   onDiscard: () => void;
+  onAccept?: () => void;
 }) => {
   const { editor } = useEditor();
+  const { onRewrite } = useReportEditorContext();
   if (!editor) return null;
+  // Reports the change, so that it is kept as a version of the report. A
+  // suggestion only changes the report once it is accepted.
+  const apply = (insert: (markdown: string) => void) => {
+    const before = getMarkdownWithoutChanges(editor);
+    insert(completion);
+    const after = getMarkdownWithoutChanges(editor);
+    if (after !== before) {
+      onRewrite?.(before, after);
+    }
+    onAccept?.();
+  };
   return (
     <>
       <CommandGroup>
         <CommandItem
           className="gap-2 px-4"
           value="replace"
-          onSelect={() => {
-            const selection = editor.view.state.selection;
-            editor
-              .chain()
-              .focus()
-              .insertContentAt(
-                {
-                  from: selection.from,
-                  to: selection.to,
-                },
-                completion,
-              )
-              .run();
-          }}
+          onSelect={() =>
+            apply((completion) => {
+              const selection = editor.view.state.selection;
+              const range = { from: selection.from, to: selection.to };
+              if (isSuggesting(editor)) {
+                suggestReplacement(editor, range, completion, AI_AUTHOR);
+              } else {
+                editor.chain().focus().insertContentAt(range, completion).run();
+              }
+            })
+          }
         >
           <Check className="text-muted-foreground h-4 w-4" />
-          Replace selection
+          Accept suggestion
         </CommandItem>
         <CommandItem
           className="gap-2 px-4"
           value="insert"
-          onSelect={() => {
-            const selection = editor.view.state.selection;
-            editor
-              .chain()
-              .focus()
-              .insertContentAt(selection.to + 1, completion)
-              .run();
-          }}
+          onSelect={() =>
+            apply((completion) => {
+              const selection = editor.view.state.selection;
+              editor
+                .chain()
+                .focus()
+                .setMeta(
+                  trackChangesPluginKey,
+                  isSuggesting(editor) ? { author: AI_AUTHOR } : undefined,
+                )
+                .insertContentAt(selection.to + 1, completion)
+                .run();
+            })
+          }
         >
           <TextQuote className="text-muted-foreground h-4 w-4" />
           Insert below
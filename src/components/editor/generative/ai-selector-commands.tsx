@@ -3,13 +3,19 @@
 
 import {
   ArrowDownWideNarrow,
+  BookOpenCheck,
   CheckCheck,
+  Languages,
+  ListPlus,
+  Quote,
   RefreshCcwDot,
   StepForward,
   WrapText,
 } from "lucide-react";
 import { getPrevText, useEditor } from "novel";
+import type { ReportRewriteCommand } from "~/core/reports";
 import { CommandGroup, CommandItem, CommandSeparator } from "../../ui/command";
+import { useReportEditorContext } from "../report-editor-context";
 
 const options = [
   {
@@ -35,25 +41,74 @@ const options = [
   },
 ];
 
+// Commands that draw on the research the report was written from.
+const researchOptions: {
+  value: string;
+  label: string;
+  icon: typeof ListPlus;
+  command: ReportRewriteCommand;
+  language?: string;
+}[] = [
+  {
+    value: "expand",
+    label: "Expand with sources",
+    icon: ListPlus,
+    command: "expand",
+  },
+  {
+    value: "cite",
+    label: "Add citations",
+    icon: Quote,
+    command: "cite",
+  },
+  {
+    value: "fact_check",
+    label: "Fact-check against tool results",
+    icon: BookOpenCheck,
+    command: "fact_check",
+  },
+  {
+    value: "translate_en",
+    label: "Translate into English",
+    icon: Languages,
+    command: "translate",
+    language: "English",
+  },
+  {
+    value: "translate_zh",
+    label: "Translate into Chinese",
+    icon: Languages,
+    command: "translate",
+    language: "Simplified Chinese",
+  },
+];
+
 interface AISelectorCommandsProps {
   onSelect: (value: string, option: string) => void;
+  onResearchCommand: (
+    value: string,
+    command: ReportRewriteCommand,
+    language?: string,
+  ) => void;
 }
 
-const AISelectorCommands = ({ onSelect }: AISelectorCommandsProps) => {
+const AISelectorCommands = ({
+  onSelect,
+  onResearchCommand,
+}: AISelectorCommandsProps) => {
   const { editor } = useEditor();
+  const { researchId } = useReportEditorContext();
   if (!editor) return null;
+  const getSelectedText = () => {
+    const slice = editor.state.selection.content();
+    return editor.storage.markdown.serializer.serialize(slice.content);
+  };
   return (
     <>
       <CommandGroup heading="Edit or review selection">
         {options.map((option) => (
           <CommandItem
-            onSelect={(value) => {
-              const slice = editor.state.selection.content();
-              const text = editor.storage.markdown.serializer.serialize(
-                slice.content,
-              );
-              onSelect(text, value);
-            }}
+            onSelect={(value) => onSelect(getSelectedText(), value)}
             className="flex gap-2 px-4"
             key={option.value}
             value={option.value}
@@ -64,6 +119,30 @@ const AISelectorCommands = ({ onSelect }: AISelectorCommandsProps) => {
         ))}
       </CommandGroup>
       <CommandSeparator />
+      {researchId && (
+        <>
+          <CommandGroup heading="Use this research">
+            {researchOptions.map((option) => (
+              <CommandItem
+                onSelect={() =>
+                  onResearchCommand(
+                    getSelectedText(),
+                    option.command,
+                    option.language,
+                  )
+                }
+                className="flex gap-2 px-4"
+                key={option.value}
+                value={option.value}
+              >
+                <option.icon className="h-4 w-4 text-purple-500" />
+                {option.label}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+          <CommandSeparator />
+        </>
+      )}
       <CommandGroup heading="Use AI to do more">
         <CommandItem
           onSelect={() => {
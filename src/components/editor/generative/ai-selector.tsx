@@ -8,7 +8,7 @@ import { Command, CommandInput } from "../../ui/command";
 import { ArrowUp } from "lucide-react";
 import { useEditor } from "novel";
 import { addAIHighlight } from "novel";
-import { useCallback, useState } from "react";
+import { useCallback, useMemo, useState } from "react";
 import Markdown from "react-markdown";
 import { toast } from "sonner";
 import { Button } from "../../ui/button";
@@ -18,7 +18,12 @@ import AICompletionCommands from "./ai-completion-command";
 import AISelectorCommands from "./ai-selector-commands";
 import { LoadingOutlined } from "@ant-design/icons";
 import { resolveServiceURL } from "~/core/api/resolve-service-url";
+import { buildRewriteInstruction } from "~/core/reports";
 import { fetchStream } from "~/core/sse";
+import { getResearchContext } from "~/core/store";
+import { diffText } from "~/core/utils";
+import { cn } from "~/lib/utils";
+import { useReportEditorContext } from "../report-editor-context";
 //TODO: I think it makes more sense to create a custom Tiptap extension for this functionality https://tiptap.dev/docs/editor/ai/introduction
 
 interface AISelectorProps {
@@ -89,7 +94,11 @@ function useProseCompletion() {
 
 export function AISelector({ onOpenChange }: AISelectorProps) {
   const { editor } = useEditor();
+  const { researchId } = useReportEditorContext();
   const [inputValue, setInputValue] = useState("");
+  // The selected text the suggestion is meant to replace, to review the
+  // changes against.
+  const [original, setOriginal] = useState("");
 
   const { completion, complete, isLoading } = useProseCompletion();
 
@@ -103,7 +112,11 @@ export function AISelector({ onOpenChange }: AISelectorProps) {
         <div className="flex max-h-[400px]">
           <ScrollArea>
             <div className="prose prose-sm dark:prose-invert p-2 px-4">
-              <Markdown>{completion}</Markdown>
+              {original && !isLoading ? (
+                <SuggestionDiff original={original} suggestion={completion} />
+              ) : (
+                <Markdown>{completion}</Markdown>
+              )}
             </div>
           </ScrollArea>
         </div>
@@ -146,6 +159,7 @@ export function AISelector({ onOpenChange }: AISelectorProps) {
                   slice.content,
                 );
 
+                setOriginal(text);
                 complete(text, {
                   body: { option: "zap", command: inputValue },
                 }).then(() => setInputValue(""));
@@ -160,13 +174,31 @@ export function AISelector({ onOpenChange }: AISelectorProps) {
                 editor.chain().unsetHighlight().focus().run();
                 onOpenChange(false);
               }}
+              onAccept={() => onOpenChange(false)}
               completion={completion}
             />
           ) : (
             <AISelectorCommands
-              onSelect={(value, option) =>
-                complete(value, { body: { option } })
-              }
+              onSelect={(value, option) => {
+                setOriginal(option === "continue" ? "" : value);
+                complete(value, { body: { option } });
+              }}
+              onResearchCommand={(value, command, language) => {
+                if (!researchId) return;
+                setOriginal(value);
+                // The prose endpoint follows free-form instructions with
+                // the "zap" option, which carries the research along.
+                complete(value, {
+                  body: {
+                    option: "zap",
+                    command: buildRewriteInstruction(
+                      command,
+                      getResearchContext(researchId),
+                      { language },
+                    ),
+                  },
+                });
+              }}
             />
           )}
         </>
@@ -174,3 +206,35 @@ export function AISelector({ onOpenChange }: AISelectorProps) {
     </Command>
   );
 }
+
+// Shows the suggestion as changes to the selected text, so that nothing is
+// replaced without being reviewed.
+function SuggestionDiff({
+  original,
+  suggestion,
+}: {
+  original: string;
+  suggestion: string;
+}) {
+  const segments = useMemo(
+    () => diffText(original, suggestion),
+    [original, suggestion],
+  );
+  return (
+    <p className="whitespace-pre-wrap">
+      {segments.map((segment, i) => (
+        <span
+          key={i}
+          className={cn(
+            segment.type === "removed" &&
+              "bg-red-500/20 text-red-700 line-through dark:text-red-300",
+            segment.type === "added" &&
+              "bg-green-500/20 text-green-700 dark:text-green-300",
+          )}
+        >
+          {segment.text}
+        </span>
+      ))}
+    </p>
+  );
+}
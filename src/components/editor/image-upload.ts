@@ -9,7 +9,6 @@ const onUpload = (file: File) => {
     method: "POST",
     headers: {
       "content-type": file?.type || "application/octet-stream",
-      "x-vercel-filename": file?.name || "image.png",
     },
     body: file,
   });
@@ -18,7 +17,7 @@ const onUpload = (file: File) => {
     toast.promise(
       promise.then(async (res) => {
         // Successfully uploaded image
-        if (res.status === 200) {
+        if (res.ok) {
           const { url } = (await res.json()) as { url: string };
           // preload the image
           const image = new Image();
@@ -26,15 +25,14 @@ const onUpload = (file: File) => {
           image.onload = () => {
             resolve(url);
           };
-          // No blob store configured
-        } else if (res.status === 401) {
-          resolve(file);
-          throw new Error(
-            "`BLOB_READ_WRITE_TOKEN` environment variable not found, reading image locally instead.",
-          );
-          // Unknown error
+          image.onerror = () => {
+            reject(new Error("Error loading the uploaded image."));
+          };
         } else {
-          throw new Error("Error uploading image. Please try again.");
+          const { error } = (await res.json().catch(() => ({}))) as {
+            error?: string;
+          };
+          throw new Error(error ?? "Error uploading image. Please try again.");
         }
       }),
       {
@@ -56,10 +54,8 @@ export const uploadFn = createImageUpload({
       toast.error("File type not supported.");
       return false;
     }
-    if (file.size / 1024 / 1024 > 20) {
-      toast.error("File size too big (max 20MB).");
-      return false;
-    }
+    // The size limit is configured on the server, which answers with an error
+    // that `onUpload` shows.
     return true;
   },
 });
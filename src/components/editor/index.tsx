@@ -18,7 +18,7 @@ import {
   handleImagePaste,
 } from "novel";
 import type { Content } from "@tiptap/react";
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useDebouncedCallback } from "use-debounce";
 import { defaultExtensions } from "./extensions";
 import { ColorSelector } from "./selectors/color-selector";
@@ -29,8 +29,14 @@ import { Separator } from "../ui/separator";
 
 import GenerativeMenuSwitch from "./generative/generative-menu-switch";
 import { uploadFn } from "./image-upload";
+import { ReportEditorContext } from "./report-editor-context";
 import { TextButtons } from "./selectors/text-buttons";
 import { slashCommand, suggestionItems } from "./slash-command";
+import { getMarkdownWithoutChanges, hasTrackedChanges } from "./track-changes";
+import {
+  TrackChangesBubble,
+  TrackChangesToolbar,
+} from "./track-changes-menu";
 // import { defaultEditorContent } from "./content";
 
 import "~/styles/prosemirror.css";
@@ -41,10 +47,21 @@ const extensions = [...defaultExtensions, slashCommand];
 
 export interface ReportEditorProps {
   content: Content;
+  researchId?: string;
   onMarkdownChange?: (markdown: string) => void;
+  onRewrite?: (before: string, after: string) => void;
+  // Called with whether there are suggestions left to accept or reject, which
+  // the Markdown leaves out.
+  onPendingChangesChange?: (pending: boolean) => void;
 }
 
-const ReportEditor = ({ content, onMarkdownChange }: ReportEditorProps) => {
+const ReportEditor = ({
+  content,
+  researchId,
+  onMarkdownChange,
+  onRewrite,
+  onPendingChangesChange,
+}: ReportEditorProps) => {
   const [initialContent, setInitialContent] = useState<Content>(() => content);
   const [saveStatus, setSaveStatus] = useState("Saved");
 
@@ -52,6 +69,10 @@ const ReportEditor = ({ content, onMarkdownChange }: ReportEditorProps) => {
   const [openColor, setOpenColor] = useState(false);
   const [openLink, setOpenLink] = useState(false);
   const [openAI, setOpenAI] = useState(false);
+  const context = useMemo(
+    () => ({ researchId, onRewrite }),
+    [researchId, onRewrite],
+  );
 
   //Apply Codeblock Highlighting on the HTML from editor.getHTML()
   const highlightCodeblocks = (content: string) => {
@@ -78,7 +99,7 @@ const ReportEditor = ({ content, onMarkdownChange }: ReportEditorProps) => {
       //   editor.storage.markdown.getMarkdown(),
       // );
       if (onMarkdownChange) {
-        const markdown = editor.storage.markdown.getMarkdown();
+        const markdown = getMarkdownWithoutChanges(editor);
         onMarkdownChange(markdown);
       }
       setSaveStatus("Saved");
@@ -96,71 +117,76 @@ const ReportEditor = ({ content, onMarkdownChange }: ReportEditorProps) => {
 
   return (
     <div className="relative w-full">
-      <EditorRoot>
-        <EditorContent
-          immediatelyRender={false}
-          initialContent={initialContent as JSONContent}
-          extensions={extensions}
-          className="border-muted relative h-full w-full"
-          editorProps={{
-            handleDOMEvents: {
-              keydown: (_view, event) => handleCommandNavigation(event),
-            },
-            handlePaste: (view, event) =>
-              handleImagePaste(view, event, uploadFn),
-            handleDrop: (view, event, _slice, moved) =>
-              handleImageDrop(view, event, moved, uploadFn),
-            attributes: {
-              class:
-                "prose prose-base prose-p:my-4 dark:prose-invert prose-headings:font-title font-default focus:outline-none max-w-full",
-            },
-          }}
-          onUpdate={({ editor }) => {
-            debouncedUpdates(editor);
-            setSaveStatus("Unsaved");
-          }}
-          slotAfter={<ImageResizer />}
-        >
-          <EditorCommand className="border-muted bg-background z-50 h-auto max-h-[330px] overflow-y-auto rounded-md border px-1 py-2 shadow-md transition-all">
-            <EditorCommandEmpty className="text-muted-foreground px-2">
-              No results
-            </EditorCommandEmpty>
-            <EditorCommandList>
-              {suggestionItems.map((item) => (
-                <EditorCommandItem
-                  value={item.title}
-                  onCommand={(val) => item.command?.(val)}
-                  className="hover:bg-accent aria-selected:bg-accent flex w-full items-center space-x-2 rounded-md px-2 py-1 text-left text-sm"
-                  key={item.title}
-                >
-                  <div className="border-muted bg-background flex h-10 w-10 items-center justify-center rounded-md border">
-                    {item.icon}
-                  </div>
-                  <div>
-                    <p className="font-medium">{item.title}</p>
-                    <p className="text-muted-foreground text-xs">
-                      {item.description}
-                    </p>
-                  </div>
-                </EditorCommandItem>
-              ))}
-            </EditorCommandList>
-          </EditorCommand>
-
-          <GenerativeMenuSwitch open={openAI} onOpenChange={setOpenAI}>
-            <Separator orientation="vertical" />
-            <NodeSelector open={openNode} onOpenChange={setOpenNode} />
-            <Separator orientation="vertical" />
-            <TextButtons />
-            <Separator orientation="vertical" />
-            <ColorSelector open={openColor} onOpenChange={setOpenColor} />
-            <Separator orientation="vertical" />
-            <LinkSelector open={openLink} onOpenChange={setOpenLink} />
-            <Separator orientation="vertical" />
-            <MathSelector />
-          </GenerativeMenuSwitch>
-        </EditorContent>
-      </EditorRoot>
+      <ReportEditorContext.Provider value={context}>
+        <EditorRoot>
+          <EditorContent
+            immediatelyRender={false}
+            initialContent={initialContent as JSONContent}
+            extensions={extensions}
+            className="border-muted relative h-full w-full"
+            editorProps={{
+              handleDOMEvents: {
+                keydown: (_view, event) => handleCommandNavigation(event),
+              },
+              handlePaste: (view, event) =>
+                handleImagePaste(view, event, uploadFn),
+              handleDrop: (view, event, _slice, moved) =>
+                handleImageDrop(view, event, moved, uploadFn),
+              attributes: {
+                class:
+                  "prose prose-base prose-p:my-4 dark:prose-invert prose-headings:font-title font-default focus:outline-none max-w-full",
+              },
+            }}
+            onUpdate={({ editor }) => {
+              onPendingChangesChange?.(hasTrackedChanges(editor.state.doc));
+              debouncedUpdates(editor);
+              setSaveStatus("Unsaved");
+            }}
+            slotBefore={<TrackChangesToolbar />}
+            slotAfter={<ImageResizer />}
+          >
+            <EditorCommand className="border-muted bg-background z-50 h-auto max-h-[330px] overflow-y-auto rounded-md border px-1 py-2 shadow-md transition-all">
+              <EditorCommandEmpty className="text-muted-foreground px-2">
+                No results
+              </EditorCommandEmpty>
+              <EditorCommandList>
+                {suggestionItems.map((item) => (
+                  <EditorCommandItem
+                    value={item.title}
+                    onCommand={(val) => item.command?.(val)}
+                    className="hover:bg-accent aria-selected:bg-accent flex w-full items-center space-x-2 rounded-md px-2 py-1 text-left text-sm"
+                    key={item.title}
+                  >
+                    <div className="border-muted bg-background flex h-10 w-10 items-center justify-center rounded-md border">
+                      {item.icon}
+                    </div>
+                    <div>
+                      <p className="font-medium">{item.title}</p>
+                      <p className="text-muted-foreground text-xs">
+                        {item.description}
+                      </p>
+                    </div>
+                  </EditorCommandItem>
+                ))}
+              </EditorCommandList>
+            </EditorCommand>
+
+            <GenerativeMenuSwitch open={openAI} onOpenChange={setOpenAI}>
+              <Separator orientation="vertical" />
+              <NodeSelector open={openNode} onOpenChange={setOpenNode} />
+              <Separator orientation="vertical" />
+              <TextButtons />
+              <Separator orientation="vertical" />
+              <ColorSelector open={openColor} onOpenChange={setOpenColor} />
+              <Separator orientation="vertical" />
+              <LinkSelector open={openLink} onOpenChange={setOpenLink} />
+              <Separator orientation="vertical" />
+              <MathSelector />
+            </GenerativeMenuSwitch>
+            <TrackChangesBubble />
+          </EditorContent>
+        </EditorRoot>
+      </ReportEditorContext.Provider>
     </div>
   );
 };
@@ -0,0 +1,83 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import {
+  mergeAttributes,
+  Node,
+  NodeViewContent,
+  NodeViewWrapper,
+  ReactNodeViewRenderer,
+  type NodeViewProps,
+} from "@tiptap/react";
+import type { MarkdownNodeSpec } from "tiptap-markdown";
+import { useDebounce } from "use-debounce";
+
+import { Mermaid } from "../deer-flow/mermaid";
+
+export const MERMAID_EXAMPLE = `flowchart LR
+  A[Question] --> B[Research]
+  B --> C[Report]`;
+
+// A ```mermaid block, edited as code with a live preview of the diagram below.
+export const MermaidBlock = Node.create({
+  name: "mermaid",
+  group: "block",
+  content: "text*",
+  marks: "",
+  code: true,
+  defining: true,
+
+  parseHTML() {
+    return [
+      {
+        tag: "pre",
+        // Before the code block, which would take any <pre>.
+        priority: 60,
+        preserveWhitespace: "full",
+        contentElement: "code",
+        getAttrs: (element) =>
+          element.querySelector("code.language-mermaid") ? null : false,
+      },
+    ];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return [
+      "pre",
+      mergeAttributes(HTMLAttributes),
+      ["code", { class: "language-mermaid" }, 0],
+    ];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(MermaidNodeView);
+  },
+
+  addStorage() {
+    return {
+      markdown: {
+        serialize(state, node) {
+          state.write("```mermaid\n");
+          state.text(node.textContent, false);
+          state.ensureNewLine();
+          state.write("```");
+          state.closeBlock(node);
+        },
+      } satisfies MarkdownNodeSpec,
+    };
+  },
+});
+
+function MermaidNodeView({ node }: NodeViewProps) {
+  const [chart] = useDebounce(node.textContent, 300);
+  return (
+    <NodeViewWrapper className="my-4 rounded-md border">
+      <pre className="m-0 rounded-b-none">
+        <NodeViewContent as="code" />
+      </pre>
+      <div contentEditable={false} className="p-4">
+        <Mermaid chart={chart} />
+      </div>
+    </NodeViewWrapper>
+  );
+}
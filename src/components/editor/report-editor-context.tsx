@@ -0,0 +1,18 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { createContext, useContext } from "react";
+
+export interface ReportEditorContextValue {
+  // The research the report belongs to, which AI commands draw on.
+  researchId?: string;
+  // Called with the whole report before and after an AI suggestion is
+  // accepted.
+  onRewrite?: (before: string, after: string) => void;
+}
+
+export const ReportEditorContext = createContext<ReportEditorContextValue>({});
+
+export function useReportEditorContext() {
+  return useContext(ReportEditorContext);
+}
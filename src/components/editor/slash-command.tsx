@@ -4,6 +4,7 @@
 import {
   CheckSquare,
   Code,
+  GitFork,
   Heading1,
   Heading2,
   Heading3,
@@ -13,6 +14,7 @@ import {
   TextQuote,
 } from "lucide-react";
 import { Command, createSuggestionItems, renderItems } from "novel";
+import { MERMAID_EXAMPLE } from "./mermaid-block";
 // import { uploadFn } from "./image-upload";
 
 export const suggestionItems = createSuggestionItems([
@@ -121,6 +123,22 @@ export const suggestionItems = createSuggestionItems([
     command: ({ editor, range }) =>
       editor.chain().focus().deleteRange(range).toggleCodeBlock().run(),
   },
+  {
+    title: "Diagram",
+    description: "Draw a flowchart, sequence or Gantt diagram.",
+    searchTerms: ["mermaid", "flowchart", "sequence", "gantt", "chart"],
+    icon: <GitFork size={18} />,
+    command: ({ editor, range }) =>
+      editor
+        .chain()
+        .focus()
+        .deleteRange(range)
+        .insertContent({
+          type: "mermaid",
+          content: [{ type: "text", text: MERMAID_EXAMPLE }],
+        })
+        .run(),
+  },
   // {
   //   title: "Image",
   //   description: "Upload an image from your computer.",
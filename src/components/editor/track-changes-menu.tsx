@@ -0,0 +1,121 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { BubbleMenu, useEditorState } from "@tiptap/react";
+import { Check, CheckCheck, X } from "lucide-react";
+import { useEditor } from "novel";
+import { useState } from "react";
+
+import { Button } from "../ui/button";
+import { Label } from "../ui/label";
+import { Switch } from "../ui/switch";
+
+import {
+  acceptAllChanges,
+  acceptChange,
+  getTrackedChangeAt,
+  getTrackedChanges,
+  isSuggesting,
+  rejectAllChanges,
+  rejectChange,
+  setSuggesting,
+} from "./track-changes";
+
+// Switches suggestion mode, and reviews all the suggestions at once.
+export function TrackChangesToolbar() {
+  const { editor } = useEditor();
+  const [suggesting, setSuggestingState] = useState(
+    () => editor !== null && isSuggesting(editor),
+  );
+  const count = useEditorState({
+    editor,
+    selector: ({ editor }) =>
+      editor ? getTrackedChanges(editor.state.doc).length : 0,
+  });
+  if (!editor) return null;
+  return (
+    <div className="bg-background/80 sticky top-0 z-10 flex items-center gap-2 border-b py-2 backdrop-blur">
+      <Switch
+        id="report-editor-suggesting"
+        checked={suggesting}
+        onCheckedChange={(checked) => {
+          setSuggesting(editor, checked);
+          setSuggestingState(checked);
+        }}
+      />
+      <Label htmlFor="report-editor-suggesting">Suggesting</Label>
+      <span className="text-muted-foreground ml-auto text-sm">
+        {count === 1 ? "1 suggestion" : `${count ?? 0} suggestions`}
+      </span>
+      <Button
+        variant="ghost"
+        size="sm"
+        disabled={!count}
+        onClick={() => acceptAllChanges(editor)}
+      >
+        <CheckCheck />
+        Accept all
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        disabled={!count}
+        onClick={() => rejectAllChanges(editor)}
+      >
+        <X />
+        Reject all
+      </Button>
+    </div>
+  );
+}
+
+// Accepts or rejects the suggestion the cursor is in.
+export function TrackChangesBubble() {
+  const { editor } = useEditor();
+  const change = useEditorState({
+    editor,
+    selector: ({ editor }) =>
+      editor ? getTrackedChangeAt(editor.state) : null,
+  });
+  if (!editor) return null;
+  return (
+    <BubbleMenu
+      editor={editor}
+      pluginKey="trackChangesBubble"
+      shouldShow={({ state }) =>
+        state.selection.empty && getTrackedChangeAt(state) !== null
+      }
+      tippyOptions={{ placement: "bottom-start" }}
+      className="border-muted bg-background flex items-center gap-1 rounded-md border p-1 shadow-xl"
+    >
+      {change && (
+        <>
+          <span className="text-muted-foreground px-2 text-xs">
+            {change.author ?? "Someone"}{" "}
+            {change.inserted && change.deleted
+              ? "replaced"
+              : change.inserted
+                ? "inserted"
+                : "deleted"}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => acceptChange(editor, change.id)}
+          >
+            <Check />
+            Accept
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => rejectChange(editor, change.id)}
+          >
+            <X />
+            Reject
+          </Button>
+        </>
+      )}
+    </BubbleMenu>
+  );
+}
@@ -0,0 +1,544 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import {
+  DOMParser,
+  type Fragment,
+  type Mark as ProseMirrorMark,
+  type Node as ProseMirrorNode,
+} from "@tiptap/pm/model";
+import {
+  type EditorState,
+  Plugin,
+  PluginKey,
+  TextSelection,
+  type Transaction,
+} from "@tiptap/pm/state";
+import { Mapping, ReplaceStep } from "@tiptap/pm/transform";
+import { type Editor, elementFromString, Extension, Mark } from "@tiptap/react";
+import { nanoid } from "nanoid";
+
+import { longestCommonSubsequence, tokenize } from "~/core/utils";
+
+export interface TrackedChange {
+  id: string;
+  author: string | null;
+  inserted: string;
+  deleted: string;
+  from: number;
+  to: number;
+}
+
+export interface TrackChangesMeta {
+  // Tracks the transaction as a suggestion by this author, even when the
+  // editor is not in suggestion mode.
+  author?: string;
+  // Leaves the transaction untracked, as when changes are accepted or
+  // rejected.
+  skip?: boolean;
+}
+
+export interface TrackChangesOptions {
+  // Whom the edits typed in suggestion mode are attributed to.
+  author: string;
+}
+
+export interface TrackChangesStorage {
+  enabled: boolean;
+}
+
+export const trackChangesPluginKey = new PluginKey("trackChanges");
+
+// Stands in for inline nodes without text, like images, so that they count
+// as content between positions.
+const OBJECT_REPLACEMENT = "\ufffc";
+
+const changeAttributes = () => ({
+  id: {
+    default: null,
+    parseHTML: (element: HTMLElement) => element.getAttribute("data-change-id"),
+    renderHTML: (attributes: Record<string, unknown>) => ({
+      "data-change-id": attributes.id,
+    }),
+  },
+  author: {
+    default: null,
+    parseHTML: (element: HTMLElement) => element.getAttribute("data-author"),
+    renderHTML: (attributes: Record<string, unknown>) =>
+      attributes.author ? { "data-author": attributes.author } : {},
+  },
+});
+
+// Suggested text, kept as <ins> in the editor until it is accepted.
+export const Insertion = Mark.create({
+  name: "insertion",
+  inclusive: false,
+  excludes: "deletion",
+  // Before the strike mark, which would take any <del>.
+  priority: 1100,
+
+  addAttributes: changeAttributes,
+
+  parseHTML() {
+    return [{ tag: "ins[data-change-id]" }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ["ins", HTMLAttributes, 0];
+  },
+});
+
+// Text suggested for deletion, kept as <del> in the editor until the deletion
+// is accepted.
+export const Deletion = Mark.create({
+  name: "deletion",
+  inclusive: false,
+  excludes: "insertion",
+  priority: 1100,
+
+  addAttributes: changeAttributes,
+
+  parseHTML() {
+    return [{ tag: "del[data-change-id]", priority: 60 }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ["del", HTMLAttributes, 0];
+  },
+});
+
+// In suggestion mode, insertions are marked as such and deleted text is kept,
+// marked for deletion, so that every edit can be reviewed.
+export const TrackChanges = Extension.create<
+  TrackChangesOptions,
+  TrackChangesStorage
+>({
+  name: "trackChanges",
+
+  addOptions() {
+    return {
+      author: "You",
+    };
+  },
+
+  addStorage() {
+    return {
+      enabled: false,
+    };
+  },
+
+  addExtensions() {
+    return [Insertion, Deletion];
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin({
+        key: trackChangesPluginKey,
+        appendTransaction: (transactions, oldState, newState) =>
+          trackChanges(
+            transactions,
+            oldState,
+            newState,
+            this.storage.enabled ? this.options.author : undefined,
+          ),
+      }),
+    ];
+  },
+});
+
+export function isSuggesting(editor: Editor) {
+  return (editor.storage.trackChanges as TrackChangesStorage).enabled;
+}
+
+export function setSuggesting(editor: Editor, enabled: boolean) {
+  (editor.storage.trackChanges as TrackChangesStorage).enabled = enabled;
+}
+
+export function getTrackedChanges(doc: ProseMirrorNode) {
+  const changes = new Map<string, TrackedChange>();
+  doc.descendants((node, pos) => {
+    if (!node.isInline) {
+      return;
+    }
+    for (const mark of node.marks) {
+      if (!isChangeMark(mark)) {
+        continue;
+      }
+      const id = mark.attrs.id as string;
+      const change = changes.get(id) ?? {
+        id,
+        author: mark.attrs.author as string | null,
+        inserted: "",
+        deleted: "",
+        from: pos,
+        to: pos,
+      };
+      if (mark.type.name === "insertion") {
+        change.inserted += node.textContent;
+      } else {
+        change.deleted += node.textContent;
+      }
+      change.to = pos + node.nodeSize;
+      changes.set(id, change);
+    }
+  });
+  return Array.from(changes.values());
+}
+
+// The change the cursor is in, if any.
+export function getTrackedChangeAt(state: EditorState) {
+  const { $from } = state.selection;
+  const mark = [
+    ...($from.nodeAfter?.marks ?? []),
+    ...($from.nodeBefore?.marks ?? []),
+  ].find(isChangeMark);
+  if (!mark) {
+    return null;
+  }
+  return (
+    getTrackedChanges(state.doc).find(
+      (change) => change.id === mark.attrs.id,
+    ) ?? null
+  );
+}
+
+export function acceptChange(editor: Editor, id: string) {
+  resolveChanges(editor, true, id);
+}
+
+export function rejectChange(editor: Editor, id: string) {
+  resolveChanges(editor, false, id);
+}
+
+export function acceptAllChanges(editor: Editor) {
+  resolveChanges(editor, true);
+}
+
+export function rejectAllChanges(editor: Editor) {
+  resolveChanges(editor, false);
+}
+
+// Suggests replacing the range with the Markdown. Within a paragraph, the
+// suggestion is made word by word, so that each change can be accepted or
+// rejected on its own.
+export function suggestReplacement(
+  editor: Editor,
+  range: { from: number; to: number },
+  markdown: string,
+  author: string,
+) {
+  const { state } = editor;
+  const { insertion, deletion } = state.schema.marks;
+  const $from = state.doc.resolve(range.from);
+  const $to = state.doc.resolve(range.to);
+  const content = parseInlineMarkdown(editor, markdown);
+  if (
+    !insertion ||
+    !deletion ||
+    !content ||
+    !$from.sameParent($to) ||
+    !$from.parent.inlineContent
+  ) {
+    editor
+      .chain()
+      .focus()
+      .setMeta(trackChangesPluginKey, { author } satisfies TrackChangesMeta)
+      .insertContentAt(range, markdown)
+      .run();
+    return;
+  }
+
+  const before = tokenizeInline(state.doc.slice(range.from, range.to).content);
+  const after = tokenizeInline(content);
+  const anchors = longestCommonSubsequence(
+    before,
+    after,
+    (a, b) => a.textContent === b.textContent && a.sameMarkup(b),
+  );
+  const nodes: ProseMirrorNode[] = [];
+  let i = 0;
+  let j = 0;
+  for (const [anchorI, anchorJ] of [
+    ...anchors,
+    [before.length, after.length],
+  ] as const) {
+    if (i < anchorI || j < anchorJ) {
+      const attrs = { id: nanoid(8), author };
+      before
+        .slice(i, anchorI)
+        .forEach((node) =>
+          nodes.push(node.mark(deletion.create(attrs).addToSet(node.marks))),
+        );
+      after
+        .slice(j, anchorJ)
+        .forEach((node) =>
+          nodes.push(node.mark(insertion.create(attrs).addToSet(node.marks))),
+        );
+    }
+    if (anchorI < before.length) {
+      nodes.push(before[anchorI]!);
+    }
+    i = anchorI + 1;
+    j = anchorJ + 1;
+  }
+  const tr = state.tr.replaceWith(range.from, range.to, nodes);
+  tr.setMeta(trackChangesPluginKey, { skip: true } satisfies TrackChangesMeta);
+  editor.view.dispatch(tr);
+  editor.commands.focus();
+}
+
+// The Markdown of the document as if the pending changes were rejected, which
+// is what the report holds until they are accepted. The raw <ins> and <del>
+// of the changes are not rendered outside of the editor.
+export function getMarkdownWithoutChanges(editor: Editor) {
+  const doc = resolveChangesTransaction(editor.state, false)?.doc;
+  const { serializer } = editor.storage.markdown as {
+    serializer: { serialize: (content: ProseMirrorNode) => string };
+  };
+  return serializer.serialize(doc ?? editor.state.doc);
+}
+
+export function hasTrackedChanges(doc: ProseMirrorNode) {
+  let found = false;
+  doc.descendants((node) => {
+    found ||= node.marks.some(isChangeMark);
+    return !found;
+  });
+  return found;
+}
+
+function resolveChanges(editor: Editor, accept: boolean, id?: string) {
+  const tr = resolveChangesTransaction(editor.state, accept, id);
+  if (tr) {
+    editor.view.dispatch(tr);
+  }
+}
+
+// Accepting keeps the insertions and drops the deleted text, rejecting does
+// the opposite.
+function resolveChangesTransaction(
+  state: EditorState,
+  accept: boolean,
+  id?: string,
+) {
+  const { insertion, deletion } = state.schema.marks;
+  if (!insertion || !deletion) {
+    return null;
+  }
+  const kept = accept ? insertion : deletion;
+  const dropped = accept ? deletion : insertion;
+  const matches = (mark: ProseMirrorMark, type: typeof insertion) =>
+    mark.type === type && (id === undefined || mark.attrs.id === id);
+  const { doc } = state;
+  const tr = state.tr;
+  findInlineRanges(doc, 0, doc.content.size, (node) =>
+    node.marks.some((mark) => matches(mark, kept)),
+  ).forEach(({ from, to }) => tr.removeMark(from, to, kept));
+  findInlineRanges(doc, 0, doc.content.size, (node) =>
+    node.marks.some((mark) => matches(mark, dropped)),
+  )
+    .reverse()
+    .forEach(({ from, to }) => tr.delete(from, to));
+  if (!tr.docChanged) {
+    return null;
+  }
+  tr.setMeta(trackChangesPluginKey, { skip: true } satisfies TrackChangesMeta);
+  return tr;
+}
+
+function trackChanges(
+  transactions: readonly Transaction[],
+  oldState: EditorState,
+  newState: EditorState,
+  suggestingAuthor: string | undefined,
+) {
+  // Maps positions from after each step to the new state.
+  const mapping = new Mapping();
+  const steps: {
+    step: ReplaceStep;
+    doc: ProseMirrorNode;
+    index: number;
+    author: string;
+  }[] = [];
+  for (const transaction of transactions) {
+    const meta = transaction.getMeta(trackChangesPluginKey) as
+      | TrackChangesMeta
+      | undefined;
+    // Undoing a suggestion takes it back, it is not another suggestion.
+    const author =
+      meta?.skip === true || transaction.getMeta("history$")
+        ? undefined
+        : (meta?.author ?? suggestingAuthor);
+    transaction.steps.forEach((step, i) => {
+      mapping.appendMap(step.getMap());
+      if (author !== undefined && step instanceof ReplaceStep) {
+        steps.push({
+          step,
+          doc: transaction.docs[i]!,
+          index: mapping.maps.length,
+          author,
+        });
+      }
+    });
+  }
+  if (steps.length === 0) {
+    return null;
+  }
+
+  const { insertion, deletion } = newState.schema.marks;
+  if (!insertion || !deletion) {
+    return null;
+  }
+  const tr = newState.tr;
+  let cursor: number | undefined;
+  for (const { step, doc, index, author } of steps) {
+    const rest = mapping.slice(index);
+    const map = (pos: number, assoc: number) =>
+      tr.mapping.map(rest.map(pos, assoc), assoc);
+    const { from, to, slice } = step;
+    const id = findAdjacentChange(tr.doc, map(from, -1), author) ?? nanoid(8);
+
+    if (slice.size > 0) {
+      tr.addMark(
+        map(from, 1),
+        map(from + slice.size, -1),
+        insertion.create({ id, author }),
+      );
+    }
+
+    // Deletions of no text, like joining paragraphs, and deletions outside
+    // of text, like of whole blocks or within code, are not tracked.
+    const $from = doc.resolve(from);
+    const $to = doc.resolve(to);
+    if (
+      !doc.textBetween(from, to, undefined, OBJECT_REPLACEMENT) ||
+      !$from.parent.type.allowsMarkType(deletion) ||
+      !$to.parent.type.allowsMarkType(deletion)
+    ) {
+      continue;
+    }
+    const pos = map(from, -1);
+    const size = tr.doc.content.size;
+    tr.replace(pos, pos, doc.slice(from, to));
+    const end = pos + tr.doc.content.size - size;
+
+    // Deleting suggested text drops it, instead of suggesting its deletion.
+    const inserted = findInlineRanges(tr.doc, pos, end, (node) =>
+      node.marks.some((mark) => mark.type === insertion),
+    );
+    findInlineRanges(
+      tr.doc,
+      pos,
+      end,
+      (node) => !node.marks.some(isChangeMark),
+    ).forEach((range) =>
+      tr.addMark(range.from, range.to, deletion.create({ id, author })),
+    );
+    const restored = tr.steps.length;
+    inserted.reverse().forEach((range) => tr.delete(range.from, range.to));
+
+    // Moves the cursor over the text kept for deletion, so that deleting
+    // goes on from there.
+    const { selection } = oldState;
+    if (
+      transactions.length === 1 &&
+      steps.length === 1 &&
+      slice.size === 0 &&
+      selection.empty
+    ) {
+      cursor =
+        selection.from === to
+          ? tr.mapping.slice(restored).map(pos, -1)
+          : tr.mapping.slice(restored).map(end);
+    }
+  }
+  if (cursor !== undefined) {
+    tr.setSelection(TextSelection.create(tr.doc, cursor));
+  }
+  tr.setMeta(trackChangesPluginKey, { skip: true } satisfies TrackChangesMeta);
+  return tr;
+}
+
+// The inline content of Markdown that is a single paragraph, parsed the way
+// pasted Markdown is.
+function parseInlineMarkdown(editor: Editor, markdown: string) {
+  const parser = (
+    editor.storage.markdown as {
+      parser: {
+        parse: (content: string, options: { inline: boolean }) => string;
+      };
+    }
+  ).parser;
+  const slice = DOMParser.fromSchema(editor.schema).parseSlice(
+    elementFromString(parser.parse(markdown.trim(), { inline: true })),
+    { preserveWhitespace: true },
+  );
+  const { firstChild } = slice.content;
+  if (slice.content.childCount === 1 && firstChild?.isTextblock) {
+    return firstChild.content;
+  }
+  let inline = true;
+  slice.content.forEach((node) => {
+    inline &&= node.isInline;
+  });
+  return inline ? slice.content : null;
+}
+
+// Splits text into word tokens, keeping other inline nodes whole.
+function tokenizeInline(content: Fragment) {
+  const tokens: ProseMirrorNode[] = [];
+  content.forEach((node) => {
+    if (node.isText) {
+      tokenize(node.text!).forEach((text) =>
+        tokens.push(node.type.schema.text(text, node.marks)),
+      );
+    } else {
+      tokens.push(node);
+    }
+  });
+  return tokens;
+}
+
+function isChangeMark(mark: ProseMirrorMark) {
+  return mark.type.name === "insertion" || mark.type.name === "deletion";
+}
+
+// Continues the change right next to the position, so that typing a word
+// makes one change rather than one per letter.
+function findAdjacentChange(doc: ProseMirrorNode, pos: number, author: string) {
+  const $pos = doc.resolve(pos);
+  const mark = [
+    ...($pos.nodeBefore?.marks ?? []),
+    ...($pos.nodeAfter?.marks ?? []),
+  ].find((mark) => isChangeMark(mark) && mark.attrs.author === author);
+  return mark ? (mark.attrs.id as string) : null;
+}
+
+// The ranges of matching inline content. Ranges only separated by block
+// boundaries are merged, so that deleting them joins the blocks back together.
+function findInlineRanges(
+  doc: ProseMirrorNode,
+  from: number,
+  to: number,
+  predicate: (node: ProseMirrorNode) => boolean,
+) {
+  const ranges: { from: number; to: number }[] = [];
+  doc.nodesBetween(from, to, (node, pos) => {
+    if (!node.isInline || !predicate(node)) {
+      return;
+    }
+    const start = Math.max(pos, from);
+    const end = Math.min(pos + node.nodeSize, to);
+    const last = ranges[ranges.length - 1];
+    if (
+      last &&
+      !doc.textBetween(last.to, start, undefined, OBJECT_REPLACEMENT)
+    ) {
+      last.to = end;
+    } else {
+      ranges.push({ from: start, to: end });
+    }
+  });
+  return ranges;
+}
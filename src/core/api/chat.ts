@@ -4,10 +4,22 @@
 import { env } from "~/env";
 
 import type { MCPServerMetadata } from "../mcp";
-import { extractReplayIdFromSearchParams } from "../replay/get-replay-id";
-import { fetchStream } from "../sse";
+import { isEditedPlanFeedback } from "../plan";
+import { loadRecording } from "../replay/db";
+import {
+  extractLocalRecordingId,
+  extractReplayIdFromSearchParams,
+} from "../replay/get-replay-id";
+import { getReplayEventDelays } from "../replay/timeline";
+import { isSimulatorEnabled, simulatorChatStream } from "../simulator";
+import { createEventParser, fetchStream, type StreamEvent } from "../sse";
 import { sleep } from "../utils";
 
+import {
+  checkProtocolVersion,
+  decodeChatEvent,
+  PROTOCOL_VERSION_HEADER,
+} from "./decoder";
 import { resolveServiceURL } from "./resolve-service-url";
 import type { ChatEvent } from "./types";
 
@@ -33,76 +45,166 @@ export async function getFinalPaper(threadId: string): Promise<FinalPaperRespons
   return response.json();
 }
 
+const lastEventIds = new Map<string, string>();
+export function getLastEventId(threadId: string) {
+  return lastEventIds.get(threadId);
+}
+
+export interface ChatStreamParams {
+  thread_id: string;
+  auto_accepted_plan: boolean;
+  max_plan_iterations: number;
+  max_step_num: number;
+  max_search_results?: number;
+  interrupt_feedback?: string;
+  enable_background_investigation: boolean;
+  mcp_settings?: {
+    servers: Record<
+      string,
+      MCPServerMetadata & {
+        enabled_tools: string[];
+        add_to_agents: string[];
+      }
+    >;
+  };
+}
+
+export interface ChatStreamOptions {
+  abortSignal?: AbortSignal;
+  // Resumes the run after this event, e.g. when a stopped run is continued.
+  lastEventId?: string;
+  onReconnect?: (attempt: number, delay: number) => void;
+  // Receives every raw event of a live stream, e.g. to record the run.
+  onEvent?: (event: StreamEvent) => void;
+}
+
+// Produces the events of a chat turn, from the server or from a stand-in for
+// it such as the replays or the local simulator.
+export type ChatTransport = (
+  userMessage: string,
+  params: ChatStreamParams,
+  options: ChatStreamOptions,
+) => AsyncIterable<ChatEvent>;
+
+let customTransport: ChatTransport | null = null;
+export function setChatTransport(transport: ChatTransport | null) {
+  customTransport = transport;
+}
+
 export async function* chatStream(
   userMessage: string,
-  params: {
-    thread_id: string;
-    auto_accepted_plan: boolean;
-    max_plan_iterations: number;
-    max_step_num: number;
-    max_search_results?: number;
-    interrupt_feedback?: string;
-    enable_background_investigation: boolean;
-    mcp_settings?: {
-      servers: Record<
-        string,
-        MCPServerMetadata & {
-          enabled_tools: string[];
-          add_to_agents: string[];
-        }
-      >;
-    };
-  },
-  options: { abortSignal?: AbortSignal } = {},
+  params: ChatStreamParams,
+  options: ChatStreamOptions = {},
 ) {
+  const transport = resolveChatTransport();
+  return yield* transport(userMessage, params, options);
+}
+
+function resolveChatTransport(): ChatTransport {
+  if (customTransport) {
+    return customTransport;
+  }
   if (
     env.NEXT_PUBLIC_STATIC_WEBSITE_ONLY ||
     location.search.includes("mock") ||
     location.search.includes("replay=")
   ) {
-    return yield* chatReplayStream(userMessage, params, options);
+    return chatReplayStream;
   }
-  const stream = fetchStream(resolveServiceURL("chat/stream"), {
-    body: JSON.stringify({
-      messages: [{ role: "user", content: userMessage }],
-      ...params,
-    }),
-    signal: options.abortSignal,
-  });
+  if (env.NEXT_PUBLIC_SIMULATE_BACKEND || isSimulatorEnabled()) {
+    return simulatorChatStream;
+  }
+  return serverChatStream;
+}
+
+async function* serverChatStream(
+  userMessage: string,
+  params: ChatStreamParams,
+  options: ChatStreamOptions,
+) {
+  const stream = fetchStream(
+    resolveServiceURL("chat/stream"),
+    {
+      body: JSON.stringify({
+        messages: [{ role: "user", content: userMessage }],
+        ...params,
+      }),
+      signal: options.abortSignal,
+    },
+    {
+      lastEventId: options.lastEventId,
+      onEventId: (id) => {
+        lastEventIds.set(params.thread_id, id);
+      },
+      onReconnect: options.onReconnect,
+      onResponse: (response) => {
+        checkProtocolVersion(response.headers.get(PROTOCOL_VERSION_HEADER));
+      },
+    },
+  );
   for await (const event of stream) {
-    yield {
-      type: event.event,
-      data: JSON.parse(event.data),
-    } as ChatEvent;
+    options.onEvent?.(event);
+    const chatEvent = decodeChatEvent(event);
+    if (chatEvent) {
+      yield chatEvent;
+    }
   }
 }
 
 async function* chatReplayStream(
   userMessage: string,
-  params: {
-    thread_id: string;
-    auto_accepted_plan: boolean;
-    max_plan_iterations: number;
-    max_step_num: number;
-    max_search_results?: number;
-    interrupt_feedback?: string;
-  } = {
-    thread_id: "__mock__",
-    auto_accepted_plan: false,
-    max_plan_iterations: 3,
-    max_step_num: 1,
-    max_search_results: 3,
-    interrupt_feedback: undefined,
-  },
+  params: ReplayParams = DEFAULT_REPLAY_PARAMS,
   options: { abortSignal?: AbortSignal } = {},
 ): AsyncIterable<ChatEvent> {
+  const events = await fetchReplayEvents(params, options);
+  // Mock responses stand in for the server and are not meant to be watched.
+  const skipDelays = location.search.includes("mock");
+  for (const event of events) {
+    const { before, after } = getReplayEventDelays(event);
+    await sleep(skipDelays ? 0 : before);
+    yield event;
+    await sleep(skipDelays ? 0 : after);
+  }
+}
+
+type ReplayParams = {
+  thread_id: string;
+  auto_accepted_plan: boolean;
+  max_plan_iterations: number;
+  max_step_num: number;
+  max_search_results?: number;
+  interrupt_feedback?: string;
+};
+
+const DEFAULT_REPLAY_PARAMS: ReplayParams = {
+  thread_id: "__mock__",
+  auto_accepted_plan: false,
+  max_plan_iterations: 3,
+  max_step_num: 1,
+  max_search_results: 3,
+  interrupt_feedback: undefined,
+};
+
+// All events of the replay or mock response selected by the page URL.
+export async function fetchReplayEvents(
+  params: ReplayParams = DEFAULT_REPLAY_PARAMS,
+  options: { abortSignal?: AbortSignal } = {},
+) {
   const urlParams = new URLSearchParams(window.location.search);
+  const replayId = extractReplayIdFromSearchParams(window.location.search);
+  const recordingId =
+    replayId && !urlParams.has("mock")
+      ? extractLocalRecordingId(replayId)
+      : null;
   let replayFilePath = "";
   if (urlParams.has("mock")) {
     if (urlParams.get("mock")) {
       replayFilePath = `/mock/${urlParams.get("mock")!}.txt`;
     } else {
-      if (params.interrupt_feedback === "accepted") {
+      if (
+        params.interrupt_feedback === "accepted" ||
+        isEditedPlanFeedback(params.interrupt_feedback)
+      ) {
         replayFilePath = "/mock/final-answer.txt";
       } else if (params.interrupt_feedback === "edit_plan") {
         replayFilePath = "/mock/re-plan.txt";
@@ -110,9 +212,7 @@ async function* chatReplayStream(
         replayFilePath = "/mock/first-plan.txt";
       }
     }
-    fastForwardReplaying = true;
-  } else {
-    const replayId = extractReplayIdFromSearchParams(window.location.search);
+  } else if (!recordingId) {
     if (replayId) {
       replayFilePath = `/replay/${replayId}.txt`;
     } else {
@@ -120,39 +220,19 @@ async function* chatReplayStream(
       replayFilePath = `/replay/eiffel-tower-vs-tallest-building.txt`;
     }
   }
-  const text = await fetchReplay(replayFilePath, {
-    abortSignal: options.abortSignal,
-  });
-  const chunks = text.split("\n\n");
-  for (const chunk of chunks) {
-    const [eventRaw, dataRaw] = chunk.split("\n") as [string, string];
-    const [, event] = eventRaw.split("event: ", 2) as [string, string];
-    const [, data] = dataRaw.split("data: ", 2) as [string, string];
-
-    try {
-      const chatEvent = {
-        type: event,
-        data: JSON.parse(data),
-      } as ChatEvent;
-      if (chatEvent.type === "message_chunk") {
-        if (!chatEvent.data.finish_reason) {
-          await sleepInReplay(50);
-        }
-      } else if (chatEvent.type === "tool_call_result") {
-        await sleepInReplay(500);
-      }
-      yield chatEvent;
-      if (chatEvent.type === "tool_call_result") {
-        await sleepInReplay(800);
-      } else if (chatEvent.type === "message_chunk") {
-        if (chatEvent.data.role === "user") {
-          await sleepInReplay(500);
-        }
-      }
-    } catch (e) {
-      console.error(e);
+  const text = recordingId
+    ? await loadLocalReplay(recordingId)
+    : await fetchReplay(replayFilePath, {
+        abortSignal: options.abortSignal,
+      });
+  const events: ChatEvent[] = [];
+  for (const event of createEventParser().push(text + "\n\n")) {
+    const chatEvent = decodeChatEvent(event);
+    if (chatEvent) {
+      events.push(chatEvent);
     }
   }
+  return events;
 }
 
 const replayCache = new Map<string, string>();
@@ -174,34 +254,16 @@ export async function fetchReplay(
   return text;
 }
 
-export async function fetchReplayTitle() {
-  const res = chatReplayStream(
-    "",
-    {
-      thread_id: "__mock__",
-      auto_accepted_plan: false,
-      max_plan_iterations: 3,
-      max_step_num: 1,
-      max_search_results: 3,
-    },
-    {},
-  );
-  for await (const event of res) {
-    if (event.type === "message_chunk") {
-      return event.data.content;
-    }
-  }
-}
-
-export async function sleepInReplay(ms: number) {
-  if (fastForwardReplaying) {
-    await sleep(0);
-  } else {
-    await sleep(ms);
+async function loadLocalReplay(recordingId: string) {
+  const recording = await loadRecording(recordingId);
+  if (!recording) {
+    throw new Error(`Replay recording not found: ${recordingId}`);
   }
+  return recording.text;
 }
 
-let fastForwardReplaying = false;
-export function fastForwardReplay(value: boolean) {
-  fastForwardReplaying = value;
+export async function fetchReplayTitle() {
+  const events = await fetchReplayEvents();
+  const event = events.find((event) => event.type === "message_chunk");
+  return event?.data.content;
 }
@@ -0,0 +1,87 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { reportDiagnostic } from "../diagnostics";
+import type { StreamEvent } from "../sse";
+
+import {
+  CHAT_PROTOCOL_VERSION,
+  ChatEventSchema,
+  KNOWN_AGENTS,
+  type ChatEvent,
+} from "./types";
+
+export const PROTOCOL_VERSION_HEADER = "X-DeerFlow-Protocol-Version";
+
+const CHAT_EVENT_TYPES: string[] = ChatEventSchema.options.map(
+  (schema) => schema.shape.type.value,
+);
+
+// Turns a raw event into a `ChatEvent`. Events that cannot be applied to the
+// messages are reported as diagnostics and skipped.
+export function decodeChatEvent({ event, data }: StreamEvent) {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(data);
+  } catch {
+    reportDiagnostic(
+      "invalid_event",
+      event,
+      `The data of a "${event}" event is not valid JSON.`,
+      data,
+    );
+    return null;
+  }
+  if (!CHAT_EVENT_TYPES.includes(event)) {
+    reportDiagnostic(
+      "unknown_event",
+      event,
+      `Unknown event type "${event}".`,
+      payload,
+    );
+    return null;
+  }
+  const result = ChatEventSchema.safeParse({ type: event, data: payload });
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      .join("; ");
+    reportDiagnostic(
+      "invalid_event",
+      event,
+      `Invalid "${event}" event (${issues}).`,
+      payload,
+    );
+    return null;
+  }
+  const chatEvent: ChatEvent = result.data;
+  const agent = chatEvent.data.agent;
+  if (agent && !(KNOWN_AGENTS as readonly string[]).includes(agent)) {
+    reportDiagnostic(
+      "unknown_agent",
+      agent,
+      `Unknown agent "${agent}". Its messages are shown as they are.`,
+      payload,
+    );
+  }
+  return chatEvent;
+}
+
+// Servers that do not announce a version speak the original protocol, which
+// is version 1. The stream goes on either way, since most events are likely
+// to still work.
+export function checkProtocolVersion(version: string | null) {
+  if (version === null) {
+    return true;
+  }
+  const major = parseInt(version, 10);
+  if (major === CHAT_PROTOCOL_VERSION) {
+    return true;
+  }
+  reportDiagnostic(
+    "incompatible_protocol",
+    version,
+    `The server speaks version ${version} of the chat protocol, but this UI supports version ${CHAT_PROTOCOL_VERSION}. Some messages may not be shown correctly.`,
+  );
+  return false;
+}
@@ -1,17 +1,46 @@
 // Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
 // SPDX-License-Identifier: MIT
 
-import type { SimpleMCPServerMetadata } from "../mcp";
+import type { MCPToolCallResult, SimpleMCPServerMetadata } from "../mcp";
 
 import { resolveServiceURL } from "./resolve-service-url";
 
-export async function queryMCPServerMetadata(config: SimpleMCPServerMetadata) {
+export async function queryMCPServerMetadata(
+  config: SimpleMCPServerMetadata,
+  options: { abortSignal?: AbortSignal } = {},
+) {
   const response = await fetch(resolveServiceURL("mcp/server/metadata"), {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
     },
     body: JSON.stringify(config),
+    signal: options.abortSignal,
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+  return response.json();
+}
+
+// Calls a tool of the server directly, outside of any research.
+export async function callMCPTool(
+  config: SimpleMCPServerMetadata,
+  toolName: string,
+  args: Record<string, unknown>,
+  options: { abortSignal?: AbortSignal } = {},
+): Promise<MCPToolCallResult> {
+  const response = await fetch(resolveServiceURL("mcp/tool/call"), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      ...config,
+      tool_name: toolName,
+      arguments: args,
+    }),
+    signal: options.abortSignal,
   });
   if (!response.ok) {
     throw new Error(`HTTP error! status: ${response.status}`);
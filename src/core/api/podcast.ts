@@ -1,11 +1,37 @@
 // Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
 // SPDX-License-Identifier: MIT
 
+import type { PodcastLength, PodcastLocale, PodcastScript } from "../podcast";
+
 import { resolveServiceURL } from "./resolve-service-url";
 
+// Writes the dialogue of a podcast about the content, to be reviewed before
+// any audio is synthesized. Returns `null` when the server has no script
+// writer, see `generatePodcast` for servers like that.
+export async function generatePodcastScript(
+  content: string,
+  options: { locale: PodcastLocale; length: PodcastLength },
+) {
+  const response = await fetch(resolveServiceURL("podcast/script"), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ content, ...options }),
+  });
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+  return (await response.json()) as PodcastScript;
+}
+
+// Writes and speaks a podcast about the content in one go, as MP3.
 export async function generatePodcast(content: string) {
   const response = await fetch(resolveServiceURL("podcast/generate"), {
-    method: "post",
+    method: "POST",
     headers: {
       "Content-Type": "application/json",
     },
@@ -14,8 +40,20 @@ export async function generatePodcast(content: string) {
   if (!response.ok) {
     throw new Error(`HTTP error! status: ${response.status}`);
   }
-  const arrayBuffer = await response.arrayBuffer();
-  const blob = new Blob([arrayBuffer], { type: "audio/mp3" });
-  const audioUrl = URL.createObjectURL(blob);
-  return audioUrl;
+  return response.arrayBuffer();
+}
+
+// Speaks the text in the voice, as MP3.
+export async function synthesizeSpeech(text: string, voiceType: string) {
+  const response = await fetch(resolveServiceURL("tts"), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ text, voice_type: voiceType, encoding: "mp3" }),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+  return response.arrayBuffer();
 }
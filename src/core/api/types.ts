@@ -1,83 +1,117 @@
 // Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
 // SPDX-License-Identifier: MIT
 
-import type { Option } from "../messages";
+import { z } from "zod";
+
+// The version of the chat event protocol this UI speaks. The server announces
+// its own in the `X-DeerFlow-Protocol-Version` header of the stream, which a
+// server on another origin must list in `Access-Control-Expose-Headers`.
+export const CHAT_PROTOCOL_VERSION = 1;
+
+export const KNOWN_AGENTS = [
+  "coordinator",
+  "planner",
+  "researcher",
+  "coder",
+  "reporter",
+  "outline_writer",
+  "paper_writer",
+  "references_writer",
+] as const;
+
+export type KnownAgent = (typeof KNOWN_AGENTS)[number];
+
+// The server sends `null` for the id and name of the chunks that continue a
+// tool call.
+const NullableStringSchema = z
+  .string()
+  .nullish()
+  .transform((value) => value ?? "");
 
 // Tool Calls
 
-export interface ToolCall {
-  type: "tool_call";
-  id: string;
-  name: string;
-  args: Record<string, unknown>;
-}
-
-export interface ToolCallChunk {
-  type: "tool_call_chunk";
-  index: number;
-  id: string;
-  name: string;
-  args: string;
-}
+export const ToolCallSchema = z.object({
+  type: z.literal("tool_call"),
+  id: NullableStringSchema,
+  name: NullableStringSchema,
+  args: z.record(z.unknown()),
+});
+
+export type ToolCall = z.infer<typeof ToolCallSchema>;
+
+export const ToolCallChunkSchema = z.object({
+  type: z.literal("tool_call_chunk"),
+  index: z.number().nullish(),
+  id: NullableStringSchema,
+  name: NullableStringSchema,
+  args: NullableStringSchema,
+});
+
+export type ToolCallChunk = z.infer<typeof ToolCallChunkSchema>;
 
 // Events
 
-interface GenericEvent<T extends string, D extends object> {
-  type: T;
-  data: {
-    id: string;
-    thread_id: string;
-    agent: "coordinator" | "planner" | "researcher" | "coder" | "reporter" | "outline_writer" | "paper_writer";
-    role: "user" | "assistant" | "tool";
-    finish_reason?: "stop" | "tool_calls" | "interrupt";
-  } & D;
-}
-
-export interface MessageChunkEvent
-  extends GenericEvent<
-    "message_chunk",
-    {
-      content?: string;
-    }
-  > {}
-
-export interface ToolCallsEvent
-  extends GenericEvent<
-    "tool_calls",
-    {
-      tool_calls: ToolCall[];
-      tool_call_chunks: ToolCallChunk[];
-    }
-  > {}
-
-export interface ToolCallChunksEvent
-  extends GenericEvent<
-    "tool_call_chunks",
-    {
-      tool_call_chunks: ToolCallChunk[];
-    }
-  > {}
-
-export interface ToolCallResultEvent
-  extends GenericEvent<
-    "tool_call_result",
-    {
-      tool_call_id: string;
-      content?: string;
-    }
-  > {}
-
-export interface InterruptEvent
-  extends GenericEvent<
-    "interrupt",
-    {
-      options: Option[];
-    }
-  > {}
-
-export type ChatEvent =
-  | MessageChunkEvent
-  | ToolCallsEvent
-  | ToolCallChunksEvent
-  | ToolCallResultEvent
-  | InterruptEvent;
+// Agents the UI does not know yet are let through, and reported by the
+// decoder, so that a newer server does not lose messages.
+const EventDataSchema = z
+  .object({
+    id: z.string(),
+    thread_id: z.string(),
+    agent: z.union([z.enum(KNOWN_AGENTS), z.string()]).optional(),
+    role: z.enum(["user", "assistant", "tool"]),
+    finish_reason: z.enum(["stop", "tool_calls", "interrupt"]).nullish(),
+  })
+  .passthrough();
+
+export const MessageChunkEventSchema = z.object({
+  type: z.literal("message_chunk"),
+  data: EventDataSchema.extend({
+    content: z.string().nullish(),
+  }),
+});
+
+export const ToolCallsEventSchema = z.object({
+  type: z.literal("tool_calls"),
+  data: EventDataSchema.extend({
+    tool_calls: z.array(ToolCallSchema),
+    tool_call_chunks: z.array(ToolCallChunkSchema).default([]),
+  }),
+});
+
+export const ToolCallChunksEventSchema = z.object({
+  type: z.literal("tool_call_chunks"),
+  data: EventDataSchema.extend({
+    tool_call_chunks: z.array(ToolCallChunkSchema),
+  }),
+});
+
+export const ToolCallResultEventSchema = z.object({
+  type: z.literal("tool_call_result"),
+  data: EventDataSchema.extend({
+    tool_call_id: z.string(),
+    content: z.string().nullish(),
+  }),
+});
+
+export const InterruptEventSchema = z.object({
+  type: z.literal("interrupt"),
+  data: EventDataSchema.extend({
+    options: z.array(z.object({ text: z.string(), value: z.string() })),
+  }),
+});
+
+export const ChatEventSchema = z.discriminatedUnion("type", [
+  MessageChunkEventSchema,
+  ToolCallsEventSchema,
+  ToolCallChunksEventSchema,
+  ToolCallResultEventSchema,
+  InterruptEventSchema,
+]);
+
+export type MessageChunkEvent = z.infer<typeof MessageChunkEventSchema>;
+export type ToolCallsEvent = z.infer<typeof ToolCallsEventSchema>;
+export type ToolCallChunksEvent = z.infer<typeof ToolCallChunksEventSchema>;
+export type ToolCallResultEvent = z.infer<typeof ToolCallResultEventSchema>;
+export type InterruptEvent = z.infer<typeof InterruptEventSchema>;
+export type ChatEvent = z.infer<typeof ChatEventSchema>;
+export type ChatEventType = ChatEvent["type"];
@@ -0,0 +1,7 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+export * from "./markers";
+export * from "./registry";
+export * from "./styles";
+export * from "./types";
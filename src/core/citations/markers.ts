@@ -0,0 +1,52 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import type { CitationRegistry } from "./types";
+
+const LINK_REGEX =
+  /(?<!!)\[([^\]\n]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+const MARKER_REGEX = /^\\?\[(\d+)\\?\]$/;
+
+// Rewrites links to registered sources into numbered `[n]` markers. The
+// marker keeps the URL, so the renderer can look the citation up again.
+export function insertCitationMarkers(
+  markdown: string,
+  registry: CitationRegistry,
+) {
+  return markdown.replace(LINK_REGEX, (match, text: string, url: string) => {
+    const citation = registry.get(url);
+    if (!citation || MARKER_REGEX.test(text)) {
+      return match;
+    }
+    const marker = `[\\[${citation.number}\\]](${url})`;
+    const label = text.trim();
+    if (!label || label === url || label === citation.title) {
+      return `${citation.title} ${marker}`;
+    }
+    return `${label} ${marker}`;
+  });
+}
+
+export function parseCitationMarker(text: string) {
+  const match = MARKER_REGEX.exec(text.trim());
+  return match ? parseInt(match[1]!, 10) : null;
+}
+
+// Returns the citations the report links to, in numeric order. Reports that do
+// not link to any source fall back to every source of the research.
+export function getCitedCitations(
+  markdown: string,
+  registry: CitationRegistry,
+) {
+  const cited = new Set<number>();
+  for (const match of markdown.matchAll(LINK_REGEX)) {
+    const citation = registry.get(match[2]);
+    if (citation) {
+      cited.add(citation.number);
+    }
+  }
+  if (cited.size === 0) {
+    return registry.citations;
+  }
+  return registry.citations.filter((citation) => cited.has(citation.number));
+}
@@ -0,0 +1,117 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import type { Message } from "../messages";
+import { parseJSON } from "../utils";
+
+import type { Citation, CitationRegistry } from "./types";
+
+interface CitationSource {
+  url?: string;
+  title?: string;
+  snippet?: string;
+}
+
+// Builds the registry from every source a research has touched: `web_search`
+// results, crawled pages and the citations listed by the paper writer.
+// Numbers only depend on the order of the messages, so they stay stable while
+// the research is streaming.
+export function buildCitationRegistry(messages: Message[]): CitationRegistry {
+  const citations = new Map<string, Citation>();
+  const register = ({ url, title, snippet }: CitationSource) => {
+    const key = url ? normalizeURL(url) : null;
+    if (!key) {
+      return;
+    }
+    const existing = citations.get(key);
+    if (existing) {
+      // Crawled pages are registered before their title is known.
+      if (title && existing.title === existing.url) {
+        existing.title = title;
+      }
+      existing.snippet ??= snippet;
+      return;
+    }
+    citations.set(key, {
+      number: citations.size + 1,
+      url: url!,
+      title: title ?? url!,
+      siteName: getSiteName(url!),
+      snippet,
+    });
+  };
+  for (const message of messages) {
+    for (const toolCall of message.toolCalls ?? []) {
+      if (toolCall.name === "web_search" && toolCall.result) {
+        const results = parseJSON<
+          { type?: string; title?: string; url?: string; content?: string }[]
+        >(toolCall.result, []);
+        if (Array.isArray(results)) {
+          results
+            .filter((result) => result.type === "page")
+            .forEach((result) =>
+              register({
+                url: result.url,
+                title: result.title,
+                snippet: result.content,
+              }),
+            );
+        }
+      } else if (toolCall.name === "crawl_tool") {
+        register({ url: (toolCall.args as { url?: string }).url });
+      }
+    }
+    if (message.agent === "paper_writer" && !message.isStreaming) {
+      const { citations: paperCitations } = parseJSON<{
+        citations?: { title?: string; url?: string; description?: string }[];
+      }>(message.content, {});
+      if (Array.isArray(paperCitations)) {
+        paperCitations.forEach((citation) =>
+          register({
+            url: citation.url,
+            title: citation.title,
+            snippet: citation.description,
+          }),
+        );
+      }
+    }
+  }
+  const list = Array.from(citations.values());
+  return {
+    citations: list,
+    get(url) {
+      const key = url ? normalizeURL(url) : null;
+      return key ? citations.get(key) : undefined;
+    },
+  };
+}
+
+// Two URLs are the same source when they only differ in the fragment, a
+// trailing slash or tracking parameters.
+export function normalizeURL(url: string) {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      return null;
+    }
+    parsed.hash = "";
+    for (const key of Array.from(parsed.searchParams.keys())) {
+      if (key.startsWith("utm_")) {
+        parsed.searchParams.delete(key);
+      }
+    }
+    const host = parsed.host.toLowerCase().replace(/^www\./, "");
+    const path = parsed.pathname.replace(/\/+$/, "");
+    return `${host}${path}${parsed.search}`;
+  } catch {
+    return null;
+  }
+}
+
+function getSiteName(url: string) {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
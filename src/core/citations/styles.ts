@@ -0,0 +1,88 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import type { Citation, CitationStyle } from "./types";
+
+export const CITATION_STYLES: { value: CitationStyle; label: string }[] = [
+  { value: "apa", label: "APA" },
+  { value: "mla", label: "MLA" },
+  { value: "ieee", label: "IEEE" },
+  { value: "gbt7714", label: "GB/T 7714" },
+];
+
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+// Web sources rarely expose an author, so the site name takes its place.
+// The returned entry is Markdown, since titles are italicized in some styles.
+export function formatCitation(
+  citation: Citation,
+  style: CitationStyle,
+  accessed = new Date(),
+) {
+  const { number, url, siteName } = citation;
+  const title = citation.title.replace(/[*_[\]]/g, "\\$&");
+  const year = accessed.getFullYear();
+  const month = MONTHS[accessed.getMonth()]!;
+  const day = accessed.getDate();
+  switch (style) {
+    case "apa":
+      return `${siteName}. (n.d.). *${title}*. Retrieved ${month} ${day}, ${year}, from ${url}`;
+    case "mla":
+      return `"${title}." *${siteName}*, ${url}. Accessed ${day} ${abbreviateMonth(month)} ${year}.`;
+    case "ieee":
+      return `[${number}] ${siteName}, "${title}." [Online]. Available: ${url} (accessed ${abbreviateMonth(month)} ${day}, ${year}).`;
+    case "gbt7714":
+      return `[${number}] ${siteName}. ${title}[EB/OL]. [${year}-${pad(accessed.getMonth() + 1)}-${pad(day)}]. ${url}.`;
+  }
+}
+
+// APA and MLA order the list alphabetically, while numeric styles keep the
+// order in which sources are cited.
+export function formatBibliography(
+  citations: Citation[],
+  style: CitationStyle,
+  accessed = new Date(),
+) {
+  const sorted =
+    style === "apa" || style === "mla"
+      ? [...citations].sort((a, b) =>
+          (style === "apa" ? a.siteName : a.title).localeCompare(
+            style === "apa" ? b.siteName : b.title,
+          ),
+        )
+      : citations;
+  return sorted.map((citation) => formatCitation(citation, style, accessed));
+}
+
+export function getBibliographyTitle(style: CitationStyle) {
+  switch (style) {
+    case "apa":
+    case "ieee":
+      return "References";
+    case "mla":
+      return "Works Cited";
+    case "gbt7714":
+      return "参考文献";
+  }
+}
+
+function abbreviateMonth(month: string) {
+  return month.length > 4 ? `${month.slice(0, 3)}.` : month;
+}
+
+function pad(value: number) {
+  return value.toString().padStart(2, "0");
+}
@@ -0,0 +1,18 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+export type CitationStyle = "apa" | "mla" | "ieee" | "gbt7714";
+
+export interface Citation {
+  // Stable 1-based number, assigned in order of first appearance.
+  number: number;
+  url: string;
+  title: string;
+  siteName: string;
+  snippet?: string;
+}
+
+export interface CitationRegistry {
+  citations: Citation[];
+  get(url: string | undefined): Citation | undefined;
+}
@@ -0,0 +1,66 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { create } from "zustand";
+
+export type DiagnosticKind =
+  | "invalid_event"
+  | "unknown_event"
+  | "unknown_agent"
+  | "incompatible_protocol";
+
+export interface Diagnostic {
+  kind: DiagnosticKind;
+  // Identifies repeated reports of the same problem, e.g. the agent name.
+  key: string;
+  message: string;
+  // The offending payload, for debugging.
+  detail?: unknown;
+  count: number;
+  lastSeenAt: number;
+}
+
+const MAX_DIAGNOSTICS = 100;
+
+export const useDiagnosticsStore = create<{
+  diagnostics: Diagnostic[];
+}>(() => ({
+  diagnostics: [],
+}));
+
+// Problems the UI worked around instead of failing, such as events from a
+// newer server. Each problem is listed once with the number of occurrences.
+export function reportDiagnostic(
+  kind: DiagnosticKind,
+  key: string,
+  message: string,
+  detail?: unknown,
+) {
+  const { diagnostics } = useDiagnosticsStore.getState();
+  const existing = diagnostics.find((d) => d.kind === kind && d.key === key);
+  if (existing) {
+    useDiagnosticsStore.setState({
+      diagnostics: diagnostics.map((d) =>
+        d === existing
+          ? { ...d, detail, count: d.count + 1, lastSeenAt: Date.now() }
+          : d,
+      ),
+    });
+    return;
+  }
+  console.warn(message, detail);
+  useDiagnosticsStore.setState({
+    diagnostics: [
+      { kind, key, message, detail, count: 1, lastSeenAt: Date.now() },
+      ...diagnostics,
+    ].slice(0, MAX_DIAGNOSTICS),
+  });
+}
+
+export function clearDiagnostics() {
+  useDiagnosticsStore.setState({ diagnostics: [] });
+}
+
+export function useDiagnostics() {
+  return useDiagnosticsStore((state) => state.diagnostics);
+}
@@ -0,0 +1,23 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import {
+  formatBibliography,
+  getBibliographyTitle,
+  type Citation,
+  type CitationStyle,
+} from "../citations";
+
+export function appendBibliography(
+  markdown: string,
+  citations: Citation[],
+  style: CitationStyle,
+) {
+  if (citations.length === 0) {
+    return markdown;
+  }
+  // Entries are paragraphs rather than a list because numeric styles already
+  // start with their own `[n]` label.
+  const entries = formatBibliography(citations, style).join("\n\n");
+  return `${markdown.trimEnd()}\n\n## ${getBibliographyTitle(style)}\n\n${entries}\n`;
+}
@@ -0,0 +1,336 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import {
+  AlignmentType,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  ImageRun,
+  LevelFormat,
+  Packer,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+  type ParagraphChild,
+} from "docx";
+import type { List, PhrasingContent, Root, RootContent } from "mdast";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import remarkParse from "remark-parse";
+import { unified } from "unified";
+
+import { normalizeReportMarkdown } from "./html";
+import { fetchImage } from "./images";
+import type { ExportableReport } from "./types";
+
+const NUMBERED_LIST = "numbered-list";
+const CODE_FONT = "Consolas";
+const MAX_IMAGE_WIDTH = 600;
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+] as const;
+// Word only renders these formats inline; anything else is linked instead.
+const DOCX_IMAGE_TYPES = ["png", "jpg", "gif", "bmp"] as const;
+
+type DocxImageType = (typeof DOCX_IMAGE_TYPES)[number];
+type BlockElement = Paragraph | Table;
+
+interface InlineStyle {
+  bold?: boolean;
+  italics?: boolean;
+  strike?: boolean;
+  // Character style, e.g. "Hyperlink".
+  style?: string;
+}
+
+interface ConvertContext {
+  // Every ordered list restarts its numbering from a new instance.
+  listInstance: number;
+  images: Map<string, Awaited<ReturnType<typeof loadImage>>>;
+}
+
+export async function exportReportAsDocx(report: ExportableReport) {
+  const markdown = normalizeReportMarkdown(report);
+  const tree = unified()
+    .use(remarkParse)
+    .use(remarkGfm)
+    .use(remarkMath)
+    .parse(markdown);
+  const context: ConvertContext = {
+    listInstance: 0,
+    images: await loadImages(tree),
+  };
+  const document = new Document({
+    title: report.title,
+    numbering: {
+      config: [
+        {
+          reference: NUMBERED_LIST,
+          levels: Array.from({ length: 9 }, (_, level) => ({
+            level,
+            format: LevelFormat.DECIMAL,
+            text: `%${level + 1}.`,
+            alignment: AlignmentType.START,
+            style: {
+              paragraph: {
+                indent: { left: 720 * (level + 1), hanging: 360 },
+              },
+            },
+          })),
+        },
+      ],
+    },
+    sections: [
+      {
+        children: tree.children.flatMap((node) =>
+          convertBlock(node, context, 0),
+        ),
+      },
+    ],
+  });
+  return Packer.toBlob(document);
+}
+
+function convertBlock(
+  node: RootContent,
+  context: ConvertContext,
+  quoteLevel: number,
+): BlockElement[] {
+  const indent = quoteLevel > 0 ? { left: 720 * quoteLevel } : undefined;
+  switch (node.type) {
+    case "heading":
+      return [
+        new Paragraph({
+          heading: HEADING_LEVELS[node.depth - 1],
+          children: convertInlines(node.children, context),
+        }),
+      ];
+    case "paragraph":
+      return [
+        new Paragraph({
+          indent,
+          children: convertInlines(node.children, context),
+        }),
+      ];
+    case "list":
+      return convertList(node, context, 0);
+    case "blockquote":
+      return node.children.flatMap((child) =>
+        convertBlock(child, context, quoteLevel + 1),
+      );
+    case "code":
+      return [
+        new Paragraph({
+          indent,
+          shading: { type: ShadingType.CLEAR, fill: "F6F8FA", color: "auto" },
+          children: node.value.split("\n").map(
+            (line, i) =>
+              new TextRun({
+                text: line,
+                font: CODE_FONT,
+                size: 20,
+                break: i > 0 ? 1 : undefined,
+              }),
+          ),
+        }),
+      ];
+    case "math":
+      return [
+        new Paragraph({
+          alignment: AlignmentType.CENTER,
+          children: [new TextRun({ text: node.value, font: CODE_FONT })],
+        }),
+      ];
+    case "thematicBreak":
+      return [new Paragraph({ thematicBreak: true })];
+    case "table":
+      return [
+        new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          rows: node.children.map(
+            (row, rowIndex) =>
+              new TableRow({
+                tableHeader: rowIndex === 0,
+                children: row.children.map(
+                  (cell) =>
+                    new TableCell({
+                      children: [
+                        new Paragraph({
+                          children: convertInlines(
+                            cell.children,
+                            context,
+                            rowIndex === 0 ? { bold: true } : {},
+                          ),
+                        }),
+                      ],
+                    }),
+                ),
+              }),
+          ),
+        }),
+      ];
+    case "html":
+      return [new Paragraph({ indent, text: node.value })];
+    default:
+      return [];
+  }
+}
+
+function convertList(
+  list: List,
+  context: ConvertContext,
+  level: number,
+): BlockElement[] {
+  const instance = ++context.listInstance;
+  return list.children.flatMap((item) =>
+    item.children.flatMap((child, i): BlockElement[] => {
+      if (child.type === "list") {
+        return convertList(child, context, level + 1);
+      }
+      if (child.type !== "paragraph" || i > 0) {
+        return convertBlock(child, context, level + 1);
+      }
+      const children = convertInlines(child.children, context);
+      if (item.checked !== null && item.checked !== undefined) {
+        children.unshift(new TextRun(item.checked ? "☑ " : "☐ "));
+      }
+      return [
+        new Paragraph({
+          children,
+          ...(list.ordered
+            ? { numbering: { reference: NUMBERED_LIST, level, instance } }
+            : { bullet: { level } }),
+        }),
+      ];
+    }),
+  );
+}
+
+function convertInlines(
+  nodes: PhrasingContent[],
+  context: ConvertContext,
+  style: InlineStyle = {},
+): ParagraphChild[] {
+  return nodes.flatMap((node): ParagraphChild[] => {
+    switch (node.type) {
+      case "text":
+        return [new TextRun({ text: node.value, ...style })];
+      case "strong":
+        return convertInlines(node.children, context, { ...style, bold: true });
+      case "emphasis":
+        return convertInlines(node.children, context, {
+          ...style,
+          italics: true,
+        });
+      case "delete":
+        return convertInlines(node.children, context, {
+          ...style,
+          strike: true,
+        });
+      case "inlineCode":
+        return [new TextRun({ text: node.value, font: CODE_FONT, ...style })];
+      case "inlineMath":
+        return [new TextRun({ text: node.value, font: CODE_FONT, ...style })];
+      case "break":
+        return [new TextRun({ text: "", break: 1 })];
+      case "link":
+        return [
+          new ExternalHyperlink({
+            link: node.url,
+            children: convertInlines(node.children, context, {
+              ...style,
+              style: "Hyperlink",
+            }),
+          }),
+        ];
+      case "image": {
+        const image = context.images.get(node.url);
+        if (!image) {
+          return [
+            new ExternalHyperlink({
+              link: node.url,
+              children: [
+                new TextRun({
+                  text: node.alt ?? node.url,
+                  style: "Hyperlink",
+                }),
+              ],
+            }),
+          ];
+        }
+        return [
+          new ImageRun({
+            type: image.type,
+            data: image.data,
+            transformation: { width: image.width, height: image.height },
+            altText: node.alt
+              ? { name: node.alt, description: node.alt, title: node.alt }
+              : undefined,
+          }),
+        ];
+      }
+      case "html":
+        return [new TextRun({ text: node.value, ...style })];
+      default:
+        return [];
+    }
+  });
+}
+
+async function loadImages(tree: Root) {
+  const urls = new Set<string>();
+  const visit = (node: Root | RootContent) => {
+    if (node.type === "image") {
+      urls.add(node.url);
+    }
+    if ("children" in node) {
+      node.children.forEach(visit);
+    }
+  };
+  visit(tree);
+  const images: ConvertContext["images"] = new Map();
+  for (const url of urls) {
+    const image = await loadImage(url);
+    if (image) {
+      images.set(url, image);
+    }
+  }
+  return images;
+}
+
+async function loadImage(url: string) {
+  const image = await fetchImage(url);
+  if (!image || !isDocxImageType(image.extension)) {
+    return null;
+  }
+  try {
+    const bitmap = await createImageBitmap(image.blob);
+    const scale = Math.min(1, MAX_IMAGE_WIDTH / bitmap.width);
+    const size = {
+      width: Math.round(bitmap.width * scale),
+      height: Math.round(bitmap.height * scale),
+    };
+    bitmap.close();
+    return {
+      type: image.extension,
+      data: await image.blob.arrayBuffer(),
+      ...size,
+    };
+  } catch {
+    return null;
+  }
+}
+
+function isDocxImageType(extension: string): extension is DocxImageType {
+  return (DOCX_IMAGE_TYPES as readonly string[]).includes(extension);
+}
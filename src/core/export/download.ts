@@ -0,0 +1,22 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+export function toFileName(title: string) {
+  return (
+    title
+      .trim()
+      .replace(/[^a-zA-Z0-9一-龥]+/g, "_")
+      .replace(/^_+|_+$/g, "") || "report"
+  );
+}
@@ -0,0 +1,144 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import hljs from "highlight.js/lib/common";
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import ReactMarkdown from "react-markdown";
+import rehypeKatex from "rehype-katex";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+
+import { insertCitationMarkers } from "../citations";
+import { dropMarkdownQuote, processKatexInMarkdown } from "../utils/markdown";
+
+import { appendBibliography } from "./bibliography";
+import {
+  blobToDataURL,
+  extractImageURLs,
+  fetchImage,
+  replaceImageURL,
+} from "./images";
+import type { ExportableReport } from "./types";
+
+const DOCUMENT_STYLES = `
+body {
+  max-width: 800px;
+  margin: 0 auto;
+  padding: 48px 24px;
+  color: #1f2328;
+  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", "Noto Sans", Helvetica, Arial, sans-serif;
+  font-size: 16px;
+  line-height: 1.7;
+}
+h1, h2, h3, h4, h5, h6 { line-height: 1.3; margin: 1.6em 0 0.6em; }
+h1 { font-size: 2em; }
+h2 { font-size: 1.5em; border-bottom: 1px solid #d1d9e0; padding-bottom: 0.3em; }
+a { color: #0969da; }
+img { max-width: 100%; }
+blockquote { margin: 0; padding: 0 1em; color: #59636e; border-left: 4px solid #d1d9e0; }
+table { border-collapse: collapse; width: 100%; margin: 1em 0; }
+th, td { border: 1px solid #d1d9e0; padding: 6px 12px; text-align: left; }
+th { background: #f6f8fa; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.9em; }
+:not(pre) > code { background: #eff1f3; border-radius: 4px; padding: 0.2em 0.4em; }
+pre { background: #f6f8fa; border-radius: 6px; padding: 16px; overflow: auto; }
+math[display="block"] { margin: 1em 0; }
+.hljs-comment, .hljs-quote { color: #6e7781; font-style: italic; }
+.hljs-keyword, .hljs-selector-tag, .hljs-type { color: #cf222e; }
+.hljs-string, .hljs-regexp, .hljs-addition { color: #0a3069; }
+.hljs-number, .hljs-literal, .hljs-symbol, .hljs-bullet { color: #0550ae; }
+.hljs-title, .hljs-section, .hljs-function .hljs-title { color: #8250df; }
+.hljs-attr, .hljs-attribute, .hljs-variable, .hljs-template-variable { color: #953800; }
+.hljs-built_in, .hljs-meta { color: #116329; }
+.hljs-deletion { color: #82071e; }
+@media print {
+  body { max-width: none; padding: 0; }
+  pre, blockquote, table, img { break-inside: avoid; }
+  h1, h2, h3 { break-after: avoid; }
+}
+@page { margin: 20mm; }
+`;
+
+// The citation markers are added after the KaTeX delimiters are rewritten,
+// which would take their escaped brackets for formulas, as `Markdown` does.
+export function normalizeReportMarkdown(report: ExportableReport) {
+  const markdown = processKatexInMarkdown(dropMarkdownQuote(report.markdown));
+  return appendBibliography(
+    insertCitationMarkers(markdown ?? "", report.citationRegistry),
+    report.citations,
+    report.citationStyle,
+  );
+}
+
+// Renders the report the same way `Markdown` does, except that formulas are
+// emitted as MathML so that the document does not depend on KaTeX fonts.
+export function renderReportBody(markdown: string) {
+  const html = renderToStaticMarkup(
+    createElement(
+      ReactMarkdown,
+      {
+        remarkPlugins: [remarkGfm, remarkMath],
+        rehypePlugins: [[rehypeKatex, { output: "mathml" }]],
+      },
+      markdown,
+    ),
+  );
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  doc.querySelectorAll("pre code").forEach((code) => {
+    const language = /language-(\S+)/.exec(code.className)?.[1];
+    const text = code.textContent ?? "";
+    const result =
+      language && hljs.getLanguage(language)
+        ? hljs.highlight(text, { language })
+        : hljs.highlightAuto(text);
+    code.innerHTML = result.value;
+    code.classList.add("hljs");
+  });
+  doc.querySelectorAll("a[href]").forEach((a) => {
+    a.setAttribute("target", "_blank");
+    a.setAttribute("rel", "noopener noreferrer");
+  });
+  return doc.body.innerHTML;
+}
+
+export function renderStandaloneHTML(title: string, body: string) {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHTML(title)}</title>
+<style>${DOCUMENT_STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+export async function exportReportAsHTML(report: ExportableReport) {
+  let markdown = normalizeReportMarkdown(report);
+  // Inline images so that the document keeps working offline.
+  for (const url of extractImageURLs(markdown)) {
+    const image = await fetchImage(url);
+    if (image) {
+      markdown = replaceImageURL(
+        markdown,
+        url,
+        await blobToDataURL(image.blob),
+      );
+    }
+  }
+  const html = renderStandaloneHTML(report.title, renderReportBody(markdown));
+  return new Blob([html], { type: "text/html;charset=utf-8" });
+}
+
+function escapeHTML(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
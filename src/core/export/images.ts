@@ -0,0 +1,67 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/bmp": "bmp",
+  "image/webp": "webp",
+  "image/svg+xml": "svg",
+};
+
+export interface FetchedImage {
+  blob: Blob;
+  extension: string;
+}
+
+// Images hosted without CORS headers cannot be read by the browser, so callers
+// must fall back to the remote URL when this returns `null`.
+export async function fetchImage(url: string): Promise<FetchedImage | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      return null;
+    }
+    const blob = await response.blob();
+    const extension = IMAGE_EXTENSIONS[blob.type.split(";")[0]!.trim()];
+    if (!extension) {
+      return null;
+    }
+    return { blob, extension };
+  } catch {
+    return null;
+  }
+}
+
+export function blobToDataURL(blob: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () =>
+      reject(reader.error ?? new Error("Failed to read image"));
+    reader.readAsDataURL(blob);
+  });
+}
+
+export function extractImageURLs(markdown: string) {
+  const urls = new Set<string>();
+  for (const match of markdown.matchAll(/!\[[^\]]*\]\(\s*<?([^)\s>]+)>?/g)) {
+    urls.add(match[1]!);
+  }
+  return Array.from(urls);
+}
+
+// Points the images with the given URL to another one, leaving the URL alone
+// wherever else it appears, e.g. in links or the text.
+export function replaceImageURL(
+  markdown: string,
+  url: string,
+  replacement: string,
+) {
+  const escaped = url.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return markdown.replace(
+    new RegExp(`(!\\[[^\\]]*\\]\\(\\s*<?)${escaped}(?=>?[\\s)])`, "g"),
+    (_, prefix: string) => prefix + replacement,
+  );
+}
@@ -0,0 +1,36 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { exportReportAsDocx } from "./docx";
+import { downloadBlob, toFileName } from "./download";
+import { exportReportAsHTML } from "./html";
+import { exportReportAsMarkdownBundle } from "./markdown-bundle";
+import { printReportAsPDF } from "./pdf";
+import type { ExportableReport, ReportExportFormat } from "./types";
+
+export * from "./download";
+export * from "./types";
+
+export async function exportReport(
+  report: ExportableReport,
+  format: ReportExportFormat,
+) {
+  const fileName = toFileName(report.title);
+  switch (format) {
+    case "html":
+      downloadBlob(await exportReportAsHTML(report), `${fileName}.html`);
+      break;
+    case "markdown":
+      downloadBlob(
+        await exportReportAsMarkdownBundle(report),
+        `${fileName}.zip`,
+      );
+      break;
+    case "docx":
+      downloadBlob(await exportReportAsDocx(report), `${fileName}.docx`);
+      break;
+    case "pdf":
+      await printReportAsPDF(report);
+      break;
+  }
+}
@@ -0,0 +1,27 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import JSZip from "jszip";
+
+import { normalizeReportMarkdown } from "./html";
+import { extractImageURLs, fetchImage, replaceImageURL } from "./images";
+import type { ExportableReport } from "./types";
+
+// Bundles `report.md` with the images it references so that the links keep
+// working after the remote images disappear.
+export async function exportReportAsMarkdownBundle(report: ExportableReport) {
+  let markdown = normalizeReportMarkdown(report);
+  const zip = new JSZip();
+  let index = 0;
+  for (const url of extractImageURLs(markdown)) {
+    const image = await fetchImage(url);
+    if (!image) {
+      continue;
+    }
+    const path = `images/image-${++index}.${image.extension}`;
+    zip.file(path, image.blob);
+    markdown = replaceImageURL(markdown, url, path);
+  }
+  zip.file("report.md", markdown);
+  return zip.generateAsync({ type: "blob" });
+}
@@ -0,0 +1,37 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { exportReportAsHTML } from "./html";
+import type { ExportableReport } from "./types";
+
+// Prints the standalone HTML document from a hidden frame, which lets the
+// browser lay out vector text instead of rasterizing the page.
+export async function printReportAsPDF(report: ExportableReport) {
+  const html = await exportReportAsHTML(report);
+  const url = URL.createObjectURL(html);
+  const iframe = document.createElement("iframe");
+  iframe.style.position = "fixed";
+  iframe.style.width = "0";
+  iframe.style.height = "0";
+  iframe.style.border = "0";
+  iframe.src = url;
+  document.body.appendChild(iframe);
+  await new Promise<void>((resolve, reject) => {
+    iframe.onload = () => resolve();
+    iframe.onerror = () => reject(new Error("Failed to load the report"));
+  });
+  const frameWindow = iframe.contentWindow;
+  if (!frameWindow) {
+    throw new Error("Failed to open the print dialog");
+  }
+  frameWindow.addEventListener(
+    "afterprint",
+    () => {
+      document.body.removeChild(iframe);
+      URL.revokeObjectURL(url);
+    },
+    { once: true },
+  );
+  frameWindow.focus();
+  frameWindow.print();
+}
@@ -0,0 +1,15 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import type { Citation, CitationRegistry, CitationStyle } from "../citations";
+
+export type ReportExportFormat = "html" | "markdown" | "docx" | "pdf";
+
+export interface ExportableReport {
+  title: string;
+  markdown: string;
+  // Links to these sources become numbered markers in the export.
+  citationRegistry: CitationRegistry;
+  citations: Citation[];
+  citationStyle: CitationStyle;
+}
@@ -0,0 +1,28 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import type { KnownAgent } from "../api";
+
+// The agents MCP tools can be given to.
+export const MCP_AGENTS = [
+  "researcher",
+  "coder",
+  "planner",
+  "reporter",
+  "outline_writer",
+  "paper_writer",
+] as const satisfies readonly KnownAgent[];
+
+export type MCPAgent = (typeof MCP_AGENTS)[number];
+
+export const MCP_AGENT_NAMES: Record<MCPAgent, string> = {
+  researcher: "Researcher",
+  coder: "Coder",
+  planner: "Planner",
+  reporter: "Reporter",
+  outline_writer: "Outline writer",
+  paper_writer: "Paper writer",
+};
+
+// Servers added before the agents could be chosen only served the researcher.
+export const DEFAULT_MCP_AGENTS: MCPAgent[] = ["researcher"];
@@ -1,6 +1,9 @@
 // Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
 // SPDX-License-Identifier: MIT
 
+export * from "./agents";
+export * from "./playground";
 export * from "./schema";
+export * from "./tool-form";
 export * from "./types";
 export * from "./utils";
@@ -0,0 +1,47 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { callMCPTool } from "../api";
+import { resolveMCPServerSecrets } from "../store";
+
+import type { MCPServerMetadata, MCPToolCallResult } from "./types";
+import { toSimpleMCPServerMetadata } from "./utils";
+
+export interface MCPToolInvocation {
+  result?: MCPToolCallResult;
+  error?: string;
+  // In milliseconds, including the round trip to the server.
+  duration: number;
+  // Whether the tool answered, and not with an error.
+  passed: boolean;
+}
+
+// Calls the tool with the secrets of the server resolved. Failures are
+// returned rather than thrown, so that examples can be run one after another.
+export async function invokeMCPTool(
+  server: MCPServerMetadata,
+  toolName: string,
+  args: Record<string, unknown>,
+  options: { abortSignal?: AbortSignal } = {},
+): Promise<MCPToolInvocation> {
+  const start = performance.now();
+  try {
+    const result = await callMCPTool(
+      resolveMCPServerSecrets(toSimpleMCPServerMetadata(server)),
+      toolName,
+      args,
+      options,
+    );
+    return {
+      result,
+      duration: performance.now() - start,
+      passed: result.isError !== true,
+    };
+  } catch (error) {
+    return {
+      error: error instanceof Error ? error.message : String(error),
+      duration: performance.now() - start,
+      passed: false,
+    };
+  }
+}
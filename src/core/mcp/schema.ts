@@ -42,6 +42,18 @@ export const MCPConfigSchema = z.object({
                   "`url` must be a valid URL starting with http:// or https://",
               },
             ),
+          // Servers without a transport are taken to speak SSE, which was the
+          // only remote transport before.
+          transport: z
+            .enum(["sse", "streamable_http"], {
+              message: '`transport` must be "sse" or "streamable_http"',
+            })
+            .optional(),
+          headers: z
+            .record(z.string(), {
+              message: "`headers` must be an object of key-value pairs",
+            })
+            .optional(),
           env: z
             .record(z.string(), {
               message: "`env` must be an object of key-value pairs",
@@ -0,0 +1,172 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+// Turns the JSON Schema of a tool's input into form fields, and the values of
+// the form back into the arguments of the tool. Properties the form has no
+// input for, like objects and arrays, are edited as JSON.
+
+export type MCPToolFieldType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "enum"
+  | "json";
+
+export interface MCPToolField {
+  name: string;
+  type: MCPToolFieldType;
+  required: boolean;
+  description?: string;
+  // The JSON of each value of an enum.
+  options?: string[];
+  defaultValue?: unknown;
+}
+
+// What is entered for each field: the text of the input, or the state of a
+// switch. Fields left empty are `undefined`.
+export type MCPToolFormValues = Record<string, string | boolean | undefined>;
+
+export class MCPToolArgumentError extends Error {
+  constructor(
+    readonly field: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = "MCPToolArgumentError";
+  }
+}
+
+interface PropertySchema {
+  type?: string | string[];
+  enum?: unknown[];
+  description?: string;
+  default?: unknown;
+}
+
+export function getMCPToolFields(
+  inputSchema: Record<string, unknown> | undefined,
+): MCPToolField[] {
+  const properties = (inputSchema?.properties ?? {}) as Record<
+    string,
+    PropertySchema
+  >;
+  const required = Array.isArray(inputSchema?.required)
+    ? (inputSchema.required as string[])
+    : [];
+  return Object.entries(properties).map(([name, schema]) => ({
+    name,
+    type: getFieldType(schema),
+    required: required.includes(name),
+    description: schema.description,
+    options: Array.isArray(schema.enum)
+      ? schema.enum.map((value) => JSON.stringify(value))
+      : undefined,
+    defaultValue: schema.default,
+  }));
+}
+
+// The values of the form for the arguments, or for the defaults of the schema
+// when there are no arguments yet.
+export function getMCPToolFormValues(
+  fields: MCPToolField[],
+  args?: Record<string, unknown>,
+): MCPToolFormValues {
+  const values: MCPToolFormValues = {};
+  for (const field of fields) {
+    const value = args ? args[field.name] : field.defaultValue;
+    if (value === undefined) {
+      continue;
+    }
+    if (field.type === "boolean") {
+      values[field.name] = value === true;
+    } else if (field.type === "string" && typeof value === "string") {
+      values[field.name] = value;
+    } else if (field.type === "json") {
+      values[field.name] = JSON.stringify(value, null, 2);
+    } else if (field.type === "enum") {
+      values[field.name] = JSON.stringify(value);
+    } else if (typeof value === "string" || typeof value === "number") {
+      values[field.name] = String(value);
+    }
+  }
+  return values;
+}
+
+// Throws an `MCPToolArgumentError` for the first field that is missing or
+// can not be read.
+export function getMCPToolArguments(
+  fields: MCPToolField[],
+  values: MCPToolFormValues,
+) {
+  const args: Record<string, unknown> = {};
+  for (const field of fields) {
+    const value = values[field.name];
+    if (value === undefined || value === "") {
+      if (field.required) {
+        throw new MCPToolArgumentError(
+          field.name,
+          `\`${field.name}\` is required.`,
+        );
+      }
+      continue;
+    }
+    if (typeof value === "boolean") {
+      args[field.name] = value;
+      continue;
+    }
+    switch (field.type) {
+      case "number":
+      case "integer": {
+        const number = Number(value);
+        if (
+          !Number.isFinite(number) ||
+          (field.type === "integer" && !Number.isInteger(number))
+        ) {
+          throw new MCPToolArgumentError(
+            field.name,
+            `\`${field.name}\` must be ${field.type === "integer" ? "an integer" : "a number"}.`,
+          );
+        }
+        args[field.name] = number;
+        break;
+      }
+      case "enum":
+      case "json":
+        try {
+          args[field.name] = JSON.parse(value);
+        } catch {
+          throw new MCPToolArgumentError(
+            field.name,
+            `\`${field.name}\` must be valid JSON.`,
+          );
+        }
+        break;
+      default:
+        args[field.name] = value;
+    }
+  }
+  return args;
+}
+
+function getFieldType(schema: PropertySchema): MCPToolFieldType {
+  if (Array.isArray(schema.enum)) {
+    return "enum";
+  }
+  // E.g. `["string", "null"]` for an optional string.
+  const types = (
+    Array.isArray(schema.type) ? schema.type : [schema.type]
+  ).filter((type) => type !== "null");
+  if (types.length !== 1) {
+    return "json";
+  }
+  switch (types[0]) {
+    case "string":
+    case "number":
+    case "integer":
+    case "boolean":
+      return types[0];
+    default:
+      return "json";
+  }
+}
@@ -1,18 +1,49 @@
 // Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
 // SPDX-License-Identifier: MIT
 
+import type { MCPAgent } from "./agents";
+
 export interface MCPToolMetadata {
   name: string;
   description: string;
   inputSchema?: Record<string, unknown>;
 }
 
+export interface MCPToolExample {
+  id: string;
+  name: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  createdAt: number;
+}
+
+// The result of a tool call, as MCP defines it.
+export interface MCPToolCallResult {
+  content: MCPToolResultContent[];
+  isError?: boolean;
+}
+
+export type MCPToolResultContent =
+  | { type: "text"; text: string }
+  | { type: "image" | "audio"; data: string; mimeType: string }
+  | {
+      type: "resource";
+      resource: { uri: string; mimeType?: string; text?: string };
+    };
+
 export interface GenericMCPServerMetadata<T extends string> {
   name: string;
   transport: T;
   enabled: boolean;
   env?: Record<string, string>;
   tools: MCPToolMetadata[];
+  // The tools that are not given to the agents. Tools the server adds later
+  // are given to them.
+  disabledTools?: string[];
+  // The agents the tools are given to, see `getMCPServerAgents`.
+  agents?: MCPAgent[];
+  // Invocations saved in the playground, to test the tools with again.
+  examples?: MCPToolExample[];
   createdAt: number;
   updatedAt: number;
 }
@@ -25,19 +56,57 @@ export interface StdioMCPServerMetadata
 }
 export type SimpleStdioMCPServerMetadata = Omit<
   StdioMCPServerMetadata,
-  "enabled" | "tools" | "createdAt" | "updatedAt"
+  | "enabled"
+  | "tools"
+  | "disabledTools"
+  | "agents"
+  | "examples"
+  | "createdAt"
+  | "updatedAt"
 >;
 
 export interface SSEMCPServerMetadata extends GenericMCPServerMetadata<"sse"> {
   transport: "sse";
   url: string;
+  // Sent with every request, e.g. to authorize with a bearer token.
+  headers?: Record<string, string>;
 }
 export type SimpleSSEMCPServerMetadata = Omit<
   SSEMCPServerMetadata,
-  "enabled" | "tools" | "createdAt" | "updatedAt"
+  | "enabled"
+  | "tools"
+  | "disabledTools"
+  | "agents"
+  | "examples"
+  | "createdAt"
+  | "updatedAt"
+>;
+
+export interface StreamableHTTPMCPServerMetadata
+  extends GenericMCPServerMetadata<"streamable_http"> {
+  transport: "streamable_http";
+  url: string;
+  headers?: Record<string, string>;
+}
+export type SimpleStreamableHTTPMCPServerMetadata = Omit<
+  StreamableHTTPMCPServerMetadata,
+  | "enabled"
+  | "tools"
+  | "disabledTools"
+  | "agents"
+  | "examples"
+  | "createdAt"
+  | "updatedAt"
 >;
 
-export type MCPServerMetadata = StdioMCPServerMetadata | SSEMCPServerMetadata;
+export type RemoteMCPServerMetadata =
+  | SSEMCPServerMetadata
+  | StreamableHTTPMCPServerMetadata;
+
+export type MCPServerMetadata =
+  | StdioMCPServerMetadata
+  | RemoteMCPServerMetadata;
 export type SimpleMCPServerMetadata =
   | SimpleStdioMCPServerMetadata
-  | SimpleSSEMCPServerMetadata;
+  | SimpleSSEMCPServerMetadata
+  | SimpleStreamableHTTPMCPServerMetadata;
@@ -1,8 +1,16 @@
 // Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
 // SPDX-License-Identifier: MIT
 
+import { hasSecretReferences } from "../secrets";
 import { useSettingsStore } from "../store";
 
+import { DEFAULT_MCP_AGENTS } from "./agents";
+import type {
+  MCPServerMetadata,
+  MCPToolMetadata,
+  SimpleMCPServerMetadata,
+} from "./types";
+
 export function findMCPTool(name: string) {
   const mcpServers = useSettingsStore.getState().mcp.servers;
   for (const server of mcpServers) {
@@ -14,3 +22,88 @@ export function findMCPTool(name: string) {
   }
   return null;
 }
+
+export function isMCPToolEnabled(server: MCPServerMetadata, name: string) {
+  return !server.disabledTools?.includes(name);
+}
+
+export function getEnabledMCPTools(server: MCPServerMetadata) {
+  return server.tools.filter((tool) => isMCPToolEnabled(server, tool.name));
+}
+
+export function getMCPServerAgents(server: MCPServerMetadata) {
+  return server.agents ?? DEFAULT_MCP_AGENTS;
+}
+
+// The names of the tools the server has gained and lost since it was added.
+export function diffMCPTools(
+  tools: MCPToolMetadata[],
+  latestTools: MCPToolMetadata[],
+) {
+  const names = new Set(tools.map((tool) => tool.name));
+  const latestNames = new Set(latestTools.map((tool) => tool.name));
+  return {
+    added: [...latestNames].filter((name) => !names.has(name)),
+    removed: [...names].filter((name) => !latestNames.has(name)),
+  };
+}
+
+// The server as its config, without what DeerFlow keeps about it.
+export function toSimpleMCPServerMetadata(
+  server: MCPServerMetadata,
+): SimpleMCPServerMetadata {
+  const { name, transport, env } = server;
+  if (transport === "stdio") {
+    return { name, transport, env, command: server.command, args: server.args };
+  }
+  return { name, transport, env, url: server.url, headers: server.headers };
+}
+
+export const REDACTED_VALUE = "<redacted>";
+
+// The servers in the standard JSON MCP config, as `AddMCPServerDialog` takes
+// it. Values of `env` and `headers` other than secret references are
+// redacted, as they may be secrets themselves.
+export function exportMCPConfig(servers: MCPServerMetadata[]) {
+  const mcpServers: Record<string, Record<string, unknown>> = {};
+  for (const server of servers) {
+    const env = redactValues(server.env);
+    if (server.transport === "stdio") {
+      mcpServers[server.name] = {
+        command: server.command,
+        args: server.args,
+        env,
+      };
+    } else {
+      mcpServers[server.name] = {
+        url: server.url,
+        transport: server.transport,
+        headers: redactValues(server.headers),
+        env,
+      };
+    }
+  }
+  return { mcpServers };
+}
+
+export function hasPlainMCPServerSecrets(server: SimpleMCPServerMetadata) {
+  const values = [
+    ...Object.values(server.env ?? {}),
+    ...(server.transport !== "stdio"
+      ? Object.values(server.headers ?? {})
+      : []),
+  ];
+  return values.some((value) => !hasSecretReferences(value));
+}
+
+function redactValues(record: Record<string, string> | undefined) {
+  if (!record) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [
+      key,
+      hasSecretReferences(value) ? value : REDACTED_VALUE,
+    ]),
+  );
+}
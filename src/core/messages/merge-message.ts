@@ -86,7 +86,7 @@ function mergeToolCallResultMessage(
     (toolCall) => toolCall.id === event.data.tool_call_id,
   );
   if (toolCall) {
-    toolCall.result = event.data.content;
+    toolCall.result = event.data.content ?? undefined;
   }
 }
 
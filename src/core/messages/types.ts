@@ -17,7 +17,9 @@ export interface Message {
     | "outline_writer"
     | "paper_writer"
     | "final_paper"
-    | "references_writer";
+    | "references_writer"
+    // Agents of a newer server keep their name.
+    | (string & {});
   role: MessageRole;
   isStreaming?: boolean;
   content: string;
@@ -26,6 +28,9 @@ export interface Message {
   options?: Option[];
   finishReason?: "stop" | "interrupt" | "tool_calls";
   interruptFeedback?: string;
+  // Set when the run producing this message was cancelled or failed before
+  // the message was finished.
+  status?: "cancelled" | "failed";
 }
 
 export interface Option {
@@ -0,0 +1,141 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import {
+  diffText,
+  longestCommonSubsequence,
+  tokenize,
+  type TextDiffSegment,
+} from "../utils/diff";
+
+import type { Plan, PlanStep } from "./types";
+
+export { diffText, type TextDiffSegment };
+
+// Steps whose words overlap at least this much are treated as the same step
+// being reworded rather than one step removed and another added.
+const REWORDED_STEP_SIMILARITY = 0.3;
+
+export type PlanStepDiff =
+  | { type: "unchanged"; before: PlanStep; after: PlanStep }
+  | {
+      type: "changed";
+      before: PlanStep;
+      after: PlanStep;
+      title: TextDiffSegment[];
+      description: TextDiffSegment[];
+    }
+  | { type: "added"; after: PlanStep }
+  | { type: "removed"; before: PlanStep };
+
+export interface PlanDiff {
+  title: TextDiffSegment[] | null;
+  thought: TextDiffSegment[] | null;
+  steps: PlanStepDiff[];
+  hasChanges: boolean;
+}
+
+export function diffPlans(before: Plan, after: Plan): PlanDiff {
+  const title =
+    before.title !== after.title ? diffText(before.title, after.title) : null;
+  const thought =
+    before.thought !== after.thought
+      ? diffText(before.thought, after.thought)
+      : null;
+  const steps = diffSteps(before.steps, after.steps);
+  return {
+    title,
+    thought,
+    steps,
+    hasChanges:
+      title !== null ||
+      thought !== null ||
+      steps.some((step) => step.type !== "unchanged"),
+  };
+}
+
+// Identical steps anchor the alignment. The steps between two anchors are then
+// paired up by similarity, and whatever is left was added or removed.
+function diffSteps(before: PlanStep[], after: PlanStep[]) {
+  const anchors = longestCommonSubsequence(before, after, isSameStep);
+  const result: PlanStepDiff[] = [];
+  let i = 0;
+  let j = 0;
+  for (const [anchorI, anchorJ] of [
+    ...anchors,
+    [before.length, after.length],
+  ] as const) {
+    result.push(
+      ...pairSteps(before.slice(i, anchorI), after.slice(j, anchorJ)),
+    );
+    if (anchorI < before.length && anchorJ < after.length) {
+      result.push({
+        type: "unchanged",
+        before: before[anchorI]!,
+        after: after[anchorJ]!,
+      });
+    }
+    i = anchorI + 1;
+    j = anchorJ + 1;
+  }
+  return result;
+}
+
+function pairSteps(removed: PlanStep[], added: PlanStep[]) {
+  const result: PlanStepDiff[] = [];
+  let j = 0;
+  for (const before of removed) {
+    const match = added.findIndex(
+      (after, index) =>
+        index >= j &&
+        similarity(stepText(before), stepText(after)) >=
+          REWORDED_STEP_SIMILARITY,
+    );
+    if (match === -1) {
+      result.push({ type: "removed", before });
+      continue;
+    }
+    for (; j < match; j++) {
+      result.push({ type: "added", after: added[j]! });
+    }
+    const after = added[j++]!;
+    result.push({
+      type: "changed",
+      before,
+      after,
+      title: diffText(before.title, after.title),
+      description: diffText(before.description, after.description),
+    });
+  }
+  for (; j < added.length; j++) {
+    result.push({ type: "added", after: added[j]! });
+  }
+  return result;
+}
+
+function similarity(a: string, b: string) {
+  const wordsA = new Set(
+    tokenize(a.toLowerCase()).filter((token) => token.trim()),
+  );
+  const wordsB = new Set(
+    tokenize(b.toLowerCase()).filter((token) => token.trim()),
+  );
+  if (wordsA.size === 0 && wordsB.size === 0) {
+    return 1;
+  }
+  let shared = 0;
+  wordsA.forEach((word) => {
+    if (wordsB.has(word)) {
+      shared++;
+    }
+  });
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+function isSameStep(a: PlanStep, b: PlanStep) {
+  return a.title === b.title && a.description === b.description;
+}
+
+function stepText(step: PlanStep) {
+  return `${step.title} ${step.description}`;
+}
@@ -0,0 +1,6 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+export * from "./diff";
+export * from "./plan";
+export * from "./types";
@@ -0,0 +1,50 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { parseJSON } from "../utils";
+
+import type { Plan, PlanStep } from "./types";
+
+export const EDITED_PLAN_FEEDBACK_TYPE = "edited_plan";
+
+export function parsePlan(content: string | null | undefined): Plan {
+  const plan = parseJSON<Partial<Plan>>(content, {});
+  return {
+    ...plan,
+    title: plan.title ?? "",
+    thought: plan.thought ?? "",
+    steps: (Array.isArray(plan.steps) ? plan.steps : []).map((step) => ({
+      ...step,
+      title: step.title ?? "",
+      description: step.description ?? "",
+    })),
+  };
+}
+
+// A new step searches the web, like most of the steps the planner writes.
+export function createPlanStep(): PlanStep {
+  return {
+    title: "",
+    description: "",
+    step_type: "research",
+    need_web_search: true,
+  };
+}
+
+// The edited plan replaces the planner's output as a whole, so the server can
+// start the research without asking the planner to re-plan.
+export function createEditedPlanFeedback(plan: Plan) {
+  return JSON.stringify({ type: EDITED_PLAN_FEEDBACK_TYPE, plan });
+}
+
+export function isEditedPlanFeedback(feedback: string | undefined) {
+  return (
+    parseJSON<{ type?: string } | null>(feedback, null)?.type ===
+    EDITED_PLAN_FEEDBACK_TYPE
+  );
+}
+
+// Feedback that has the planner write a new iteration of the plan.
+export function isPlanRevisionFeedback(feedback: string | undefined) {
+  return feedback === "edit_plan" || isEditedPlanFeedback(feedback);
+}
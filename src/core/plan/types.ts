@@ -0,0 +1,24 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+// The plan produced by the planner. Fields the UI does not edit, such as
+// `locale`, are kept as they are.
+
+// Research steps go to the researcher, processing steps, like computations,
+// to the coder.
+export type PlanStepType = "research" | "processing";
+
+export interface PlanStep {
+  title: string;
+  description: string;
+  step_type?: PlanStepType;
+  need_web_search?: boolean;
+  [key: string]: unknown;
+}
+
+export interface Plan {
+  title: string;
+  thought: string;
+  steps: PlanStep[];
+  [key: string]: unknown;
+}
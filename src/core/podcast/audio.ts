@@ -0,0 +1,14 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+export const PODCAST_AUDIO_TYPE = "audio/mpeg";
+
+// The duration of encoded audio, in seconds.
+export async function getAudioDuration(data: ArrayBuffer) {
+  // An offline context decodes without waiting for the user to interact with
+  // the page, which a realtime one would.
+  const context = new OfflineAudioContext(1, 1, 44100);
+  // Decoding detaches the buffer, which is still needed afterwards.
+  const buffer = await context.decodeAudioData(data.slice(0));
+  return buffer.duration;
+}
@@ -0,0 +1,134 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { tokenize } from "../utils";
+
+import type { PodcastChapter, PodcastScriptLine } from "./types";
+
+interface ReportSection {
+  title: string;
+  text: string;
+}
+
+// Maps the dialogue to the sections of the report it was written from. Each
+// line goes to the section it shares the most distinctive words with, and the
+// dialogue is taken to go through the sections in order.
+export function mapPodcastChapters(
+  lines: PodcastScriptLine[],
+  markdown: string,
+): PodcastChapter[] {
+  const sections = splitReportSections(markdown);
+  if (sections.length === 0 || lines.length === 0) {
+    return [];
+  }
+  const sectionTerms = sections.map((section) =>
+    getTerms(`${section.title}\n${section.text}`),
+  );
+  // Words found in every section tell nothing about where a line belongs.
+  const weights = new Map<string, number>();
+  for (const terms of sectionTerms) {
+    for (const term of terms) {
+      weights.set(term, (weights.get(term) ?? 0) + 1);
+    }
+  }
+  for (const [term, count] of weights) {
+    weights.set(term, Math.log((sections.length + 1) / count));
+  }
+  const scores = lines.map((line) => {
+    const terms = Array.from(getTerms(line.paragraph));
+    const total = terms.reduce(
+      (sum, term) => sum + (weights.get(term) ?? 0),
+      0,
+    );
+    return sectionTerms.map((sectionTerms) =>
+      total > 0
+        ? terms
+            .filter((term) => sectionTerms.has(term))
+            .reduce((sum, term) => sum + weights.get(term)!, 0) / total
+        : 0,
+    );
+  });
+
+  // The best total score with line `i` in section `s`, where the sections of
+  // earlier lines never come after `s`. Ties keep the earlier section, so
+  // that lines matching nothing stay in the section before them.
+  let best = scores[0]!;
+  const previous: number[][] = [];
+  for (let i = 1; i < lines.length; i++) {
+    const row: number[] = [];
+    const from: number[] = [];
+    let max = 0;
+    for (let s = 0; s < sections.length; s++) {
+      if (s === 0 || best[s]! > best[max]!) {
+        max = s;
+      }
+      row.push(scores[i]![s]! + best[max]!);
+      from.push(max);
+    }
+    best = row;
+    previous.push(from);
+  }
+  let section = best.indexOf(Math.max(...best));
+  const assignment = [section];
+  for (let i = previous.length - 1; i >= 0; i--) {
+    section = previous[i]![section]!;
+    assignment.unshift(section);
+  }
+
+  const chapters: PodcastChapter[] = [];
+  assignment.forEach((section, i) => {
+    if (i === 0 || section !== assignment[i - 1]) {
+      chapters.push({ title: sections[section]!.title, lineIndex: i });
+    }
+  });
+  return chapters;
+}
+
+// The report split at its second level headings, or at the first level ones
+// when it has none, leaving out what comes before the first heading.
+export function splitReportSections(markdown: string) {
+  const lines = markdown.split("\n");
+  const levels: (number | null)[] = [];
+  let inCode = false;
+  for (const line of lines) {
+    if (line.trimStart().startsWith("```")) {
+      inCode = !inCode;
+    }
+    const match = inCode ? null : /^(#{1,6})\s+\S/.exec(line);
+    levels.push(match ? match[1]!.length : null);
+  }
+  const level = [2, 1, 3].find((level) => levels.includes(level));
+  const sections: ReportSection[] = [];
+  lines.forEach((line, i) => {
+    if (levels[i] === level) {
+      sections.push({ title: line.replace(/^#+\s*/, "").trim(), text: "" });
+    } else if (sections.length > 0) {
+      sections[sections.length - 1]!.text += `${line}\n`;
+    }
+  });
+  return sections;
+}
+
+// Words long enough to be meaningful, and pairs of CJK characters since
+// single ones mostly are not.
+function getTerms(text: string) {
+  const terms = new Set<string>();
+  const tokens = tokenize(text.toLowerCase());
+  tokens.forEach((token, i) => {
+    if (isCJK(token)) {
+      const next = tokens[i + 1];
+      if (next && isCJK(next)) {
+        terms.add(token + next);
+      }
+    } else if (token.length >= 4) {
+      terms.add(token);
+    }
+  });
+  return terms;
+}
+
+function isCJK(token: string) {
+  return /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]$/u.test(
+    token,
+  );
+}
@@ -0,0 +1,38 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { defineObjectStore } from "../utils/indexed-db";
+
+interface PodcastAudioRecord {
+  id: string;
+  threadId: string;
+  blob: Blob;
+}
+
+const audioStore = defineObjectStore<PodcastAudioRecord>("podcast_audio");
+
+export async function savePodcastAudio(
+  id: string,
+  threadId: string,
+  blob: Blob,
+) {
+  await audioStore.put({ id, threadId, blob });
+}
+
+export async function loadPodcastAudio(id: string) {
+  const record = await audioStore.get(id);
+  return record?.blob ?? null;
+}
+
+export async function removePodcastAudio(id: string) {
+  await audioStore.delete(id);
+}
+
+export async function removeThreadPodcastAudio(threadId: string) {
+  const records = await audioStore.getAll();
+  await Promise.all(
+    records
+      .filter((record) => record.threadId === threadId)
+      .map((record) => audioStore.delete(record.id)),
+  );
+}
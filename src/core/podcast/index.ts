@@ -0,0 +1,9 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+export * from "./audio";
+export * from "./chapters";
+export * from "./db";
+export * from "./podcast";
+export * from "./types";
+export * from "./voices";
@@ -0,0 +1,76 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import type { Message } from "../messages";
+import { parseJSON } from "../utils";
+
+import type { Podcast, PodcastAudio, PodcastChapter } from "./types";
+import { DEFAULT_PODCAST_OPTIONS } from "./voices";
+
+export function parsePodcast(message: Message): Podcast {
+  const podcast = parseJSON<Partial<Podcast>>(message.content, {});
+  const parsed: Podcast = {
+    ...podcast,
+    title: podcast.title ?? "",
+    researchId: podcast.researchId ?? "",
+    status: podcast.status ?? (podcast.error ? "error" : "ready"),
+    options: {
+      ...DEFAULT_PODCAST_OPTIONS,
+      ...podcast.options,
+      voices: {
+        ...DEFAULT_PODCAST_OPTIONS.voices,
+        ...podcast.options?.voices,
+      },
+    },
+    lines: Array.isArray(podcast.lines) ? podcast.lines : [],
+  };
+  // Work that was going on when the page was closed does not go on after it
+  // is opened again.
+  if (!message.isStreaming) {
+    if (parsed.status === "scripting") {
+      return {
+        ...parsed,
+        status: "error",
+        error: "Writing the script was interrupted.",
+      };
+    }
+    if (parsed.status === "synthesizing") {
+      return { ...parsed, status: "draft", progress: undefined };
+    }
+  }
+  // Podcasts from before the audio was saved with the thread only had a URL
+  // that did not outlive the page.
+  if (parsed.status === "ready" && !parsed.audio) {
+    return {
+      ...parsed,
+      status: "error",
+      error: "The audio of this podcast is no longer available.",
+    };
+  }
+  return parsed;
+}
+
+// The index of the line being spoken at the time.
+export function getPodcastLineAt(audio: PodcastAudio, time: number) {
+  let index = 0;
+  audio.lineStarts.forEach((start, i) => {
+    if (start <= time) {
+      index = i;
+    }
+  });
+  return index;
+}
+
+// The index of the chapter the line is in, or -1 before the first chapter.
+export function getPodcastChapterAt(
+  chapters: PodcastChapter[],
+  lineIndex: number,
+) {
+  let index = -1;
+  chapters.forEach((chapter, i) => {
+    if (chapter.lineIndex <= lineIndex) {
+      index = i;
+    }
+  });
+  return index;
+}
@@ -0,0 +1,65 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+export type PodcastSpeaker = "male" | "female";
+
+export type PodcastLocale = "en" | "zh";
+
+export type PodcastLength = "short" | "medium" | "long";
+
+// A line of the dialogue, in the shape the script writer returns it.
+export interface PodcastScriptLine {
+  speaker: PodcastSpeaker;
+  paragraph: string;
+}
+
+export interface PodcastScript {
+  locale: PodcastLocale;
+  lines: PodcastScriptLine[];
+}
+
+export interface PodcastOptions {
+  locale: PodcastLocale;
+  length: PodcastLength;
+  // The TTS voice type of each speaker.
+  voices: Record<PodcastSpeaker, string>;
+}
+
+// A report section the dialogue turns to, from the line it starts at.
+export interface PodcastChapter {
+  title: string;
+  lineIndex: number;
+}
+
+// The synthesized audio, with the script as it was spoken, which may since
+// have been edited.
+export interface PodcastAudio {
+  // The key of the audio in IndexedDB, see `savePodcastAudio`.
+  id: string;
+  duration: number;
+  lines: PodcastScriptLine[];
+  // When each line starts, in seconds.
+  lineStarts: number[];
+  chapters: PodcastChapter[];
+}
+
+export type PodcastStatus =
+  | "scripting"
+  | "draft"
+  | "synthesizing"
+  | "ready"
+  | "error";
+
+// The content of a podcast message.
+export interface Podcast {
+  title: string;
+  researchId: string;
+  status: PodcastStatus;
+  options: PodcastOptions;
+  // The script, as it is being reviewed.
+  lines: PodcastScriptLine[];
+  audio?: PodcastAudio;
+  // How many lines have been synthesized so far.
+  progress?: number;
+  error?: string;
+}
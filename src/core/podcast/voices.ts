@@ -0,0 +1,21 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import type { PodcastOptions } from "./types";
+
+// Voice types of the TTS service behind the `tts` endpoint.
+export const PODCAST_VOICES = [
+  { id: "BV001_streaming", name: "General (female)" },
+  { id: "BV002_streaming", name: "General (male)" },
+  { id: "BV700_V2_streaming", name: "Cancan (female)" },
+  { id: "BV701_V2_streaming", name: "Qingcang (male)" },
+] as const;
+
+export const DEFAULT_PODCAST_OPTIONS: PodcastOptions = {
+  locale: "en",
+  length: "medium",
+  voices: {
+    male: "BV002_streaming",
+    female: "BV001_streaming",
+  },
+};
@@ -0,0 +1,25 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { defineObjectStore } from "../utils/indexed-db";
+
+import type { ReplayRecording } from "./types";
+
+const replayStore = defineObjectStore<ReplayRecording>("replays");
+
+export async function listRecordings() {
+  const recordings = await replayStore.getAll();
+  return recordings.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function loadRecording(id: string) {
+  return replayStore.get(id);
+}
+
+export async function saveRecording(recording: ReplayRecording) {
+  await replayStore.put(recording);
+}
+
+export async function removeRecording(id: string) {
+  await replayStore.delete(id);
+}
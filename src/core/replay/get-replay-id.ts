@@ -1,6 +1,9 @@
 // Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
 // SPDX-License-Identifier: MIT
 
+// Replays saved in this browser are addressed as `?replay=local:<id>`.
+const LOCAL_REPLAY_PREFIX = "local:";
+
 export function extractReplayIdFromSearchParams(params: string) {
   const urlParams = new URLSearchParams(params);
   if (urlParams.has("replay")) {
@@ -8,3 +11,16 @@ export function extractReplayIdFromSearchParams(params: string) {
   }
   return null;
 }
+
+export function extractLocalRecordingId(replayId: string) {
+  return replayId.startsWith(LOCAL_REPLAY_PREFIX)
+    ? replayId.slice(LOCAL_REPLAY_PREFIX.length)
+    : null;
+}
+
+export function getLocalReplayURL(recordingId: string) {
+  const params = new URLSearchParams({
+    replay: `${LOCAL_REPLAY_PREFIX}${recordingId}`,
+  });
+  return `/chat?${params.toString()}`;
+}
@@ -1,4 +1,9 @@
 // Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
 // SPDX-License-Identifier: MIT
 
+export * from "./db";
+export * from "./get-replay-id";
 export * from "./hooks";
+export * from "./recorder";
+export * from "./timeline";
+export * from "./types";
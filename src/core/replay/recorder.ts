@@ -0,0 +1,73 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { nanoid } from "nanoid";
+
+import { createEventParser, type StreamEvent } from "../sse";
+
+// Raw events of the live runs in this session, serialized the same way as the
+// files in `public/replay`, keyed by thread id.
+const recordings = new Map<string, string[]>();
+
+export function recordStreamEvent(threadId: string, event: StreamEvent) {
+  let recording = recordings.get(threadId);
+  if (!recording) {
+    recording = [];
+    recordings.set(threadId, recording);
+  }
+  recording.push(serializeStreamEvent(event));
+}
+
+// The server does not echo user messages, so they are written into the
+// recording the way the hand-made replays start.
+export function recordUserMessage(threadId: string, content: string) {
+  recordStreamEvent(threadId, {
+    event: "message_chunk",
+    data: JSON.stringify({
+      thread_id: threadId,
+      id: `run-${nanoid()}`,
+      role: "user",
+      content,
+      finish_reason: "stop",
+    }),
+  });
+}
+
+export function getRecording(threadId: string) {
+  const recording = recordings.get(threadId);
+  return recording ? recording.join("") : null;
+}
+
+export function clearRecording(threadId: string) {
+  recordings.delete(threadId);
+}
+
+export function serializeStreamEvent({ event, data }: StreamEvent) {
+  const lines = data.split("\n").map((line) => `data: ${line}`);
+  return `event: ${event}\n${lines.join("\n")}\n\n`;
+}
+
+export function parseRecording(text: string) {
+  return createEventParser().push(text + "\n\n");
+}
+
+// The first user message, which is also what the replay page shows as title.
+export function getRecordingTitle(text: string) {
+  for (const { event, data } of parseRecording(text)) {
+    if (event !== "message_chunk") {
+      continue;
+    }
+    try {
+      const { role, content } = JSON.parse(data) as {
+        role?: string;
+        content?: string;
+      };
+      if (role === "user" && content) {
+        return content;
+      }
+    } catch {
+      // Skip malformed events, the replay stream does the same.
+    }
+  }
+  return null;
+}
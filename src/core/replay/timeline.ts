@@ -0,0 +1,143 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import type { ChatEvent } from "../api/types";
+import { parsePlan } from "../plan";
+
+export type ReplayPhaseKind = "coordinator" | "plan" | "research" | "report";
+
+export interface ReplayPhase {
+  kind: ReplayPhaseKind;
+  label: string;
+  // Index of the first event of the phase.
+  start: number;
+  // Index after the last event of the phase.
+  end: number;
+}
+
+export interface ReplayTimeline {
+  // The time in milliseconds at which each event is shown at 1x speed.
+  times: number[];
+  duration: number;
+  phases: ReplayPhase[];
+}
+
+const PHASE_KINDS: Record<string, ReplayPhaseKind> = {
+  coordinator: "coordinator",
+  planner: "plan",
+  researcher: "research",
+  coder: "research",
+  outline_writer: "report",
+  paper_writer: "report",
+  references_writer: "report",
+  reporter: "report",
+};
+
+// The pauses around an event that make a replay read like a live run.
+export function getReplayEventDelays(event: ChatEvent) {
+  if (event.type === "tool_call_result") {
+    return { before: 500, after: 800 };
+  }
+  if (event.type === "message_chunk") {
+    return {
+      before: event.data.finish_reason ? 0 : 50,
+      after: event.data.role === "user" ? 500 : 0,
+    };
+  }
+  return { before: 0, after: 0 };
+}
+
+export function buildReplayTimeline(events: ChatEvent[]): ReplayTimeline {
+  const times: number[] = [];
+  let time = 0;
+  for (const event of events) {
+    const { before, after } = getReplayEventDelays(event);
+    time += before;
+    times.push(time);
+    time += after;
+  }
+  return { times, duration: time, phases: buildPhases(events) };
+}
+
+// The index of the last event shown at the given time, plus one.
+export function getReplayPosition(timeline: ReplayTimeline, time: number) {
+  let low = 0;
+  let high = timeline.times.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (timeline.times[middle]! <= time) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+export function getReplayTime(timeline: ReplayTimeline, position: number) {
+  return position > 0 ? (timeline.times[position - 1] ?? 0) : 0;
+}
+
+function buildPhases(events: ChatEvent[]) {
+  const phases: ReplayPhase[] = [];
+  const planContents = new Map<string, string>();
+  let planId: string | undefined;
+  let planCount = 0;
+  let stepIndex = 0;
+  // A research step ends with an answer, every reasoning turn before it ends
+  // with tool calls.
+  let stepFinished = false;
+  events.forEach((event, index) => {
+    const kind = event.data.agent ? PHASE_KINDS[event.data.agent] : undefined;
+    const current = phases[phases.length - 1];
+    if (current) {
+      current.end = index + 1;
+    }
+    if (!kind) {
+      return;
+    }
+    if (
+      !current ||
+      current.kind !== kind ||
+      (kind === "research" && stepFinished)
+    ) {
+      if (current) {
+        current.end = index;
+      }
+      let label = "Coordinator";
+      if (kind === "plan") {
+        planCount++;
+        stepIndex = 0;
+        label = planCount > 1 ? `Plan (${planCount})` : "Plan";
+      } else if (kind === "research") {
+        const steps = parsePlan(planId && planContents.get(planId)).steps;
+        label = steps[stepIndex]?.title ?? "";
+        if (!label) {
+          label = `Step ${stepIndex + 1}`;
+        }
+        stepIndex++;
+      } else if (kind === "report") {
+        label = "Report";
+      }
+      phases.push({
+        kind,
+        label,
+        start: phases.length === 0 ? 0 : index,
+        end: index + 1,
+      });
+      stepFinished = false;
+    }
+    if (event.type === "message_chunk") {
+      if (kind === "plan") {
+        planId = event.data.id;
+        planContents.set(
+          planId,
+          (planContents.get(planId) ?? "") + (event.data.content ?? ""),
+        );
+      } else if (kind === "research" && event.data.finish_reason === "stop") {
+        stepFinished = true;
+      }
+    }
+  });
+  return phases;
+}
@@ -0,0 +1,10 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+export interface ReplayRecording {
+  id: string;
+  title: string;
+  createdAt: number;
+  // The events in the `event:`/`data:` format of the files in `public/replay`.
+  text: string;
+}
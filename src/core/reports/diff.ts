@@ -0,0 +1,67 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import {
+  diffText,
+  longestCommonSubsequence,
+  type TextDiffSegment,
+} from "../utils/diff";
+
+export type ReportDiffLine =
+  | { type: "equal" | "added" | "removed"; text: string }
+  | { type: "changed"; segments: TextDiffSegment[] };
+
+// Diffs two reports line by line, since a word by word diff of whole reports
+// is too slow. Lines replaced in place are diffed word by word.
+export function diffReports(before: string, after: string): ReportDiffLine[] {
+  const beforeLines = before.split("\n");
+  const afterLines = after.split("\n");
+  const anchors = longestCommonSubsequence(
+    beforeLines,
+    afterLines,
+    (a, b) => a === b,
+  );
+  const lines: ReportDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  for (const [anchorI, anchorJ] of [
+    ...anchors,
+    [beforeLines.length, afterLines.length],
+  ] as const) {
+    lines.push(
+      ...pairLines(beforeLines.slice(i, anchorI), afterLines.slice(j, anchorJ)),
+    );
+    if (anchorI < beforeLines.length) {
+      lines.push({ type: "equal", text: beforeLines[anchorI]! });
+    }
+    i = anchorI + 1;
+    j = anchorJ + 1;
+  }
+  return lines;
+}
+
+export function countChangedLines(lines: ReportDiffLine[]) {
+  return lines.filter((line) => line.type !== "equal").length;
+}
+
+function pairLines(removed: string[], added: string[]) {
+  const lines: ReportDiffLine[] = [];
+  const paired = Math.min(removed.length, added.length);
+  for (let k = 0; k < paired; k++) {
+    // Blank lines have nothing to compare word by word.
+    if (removed[k]!.trim() && added[k]!.trim()) {
+      lines.push({
+        type: "changed",
+        segments: diffText(removed[k]!, added[k]!),
+      });
+    } else {
+      lines.push({ type: "removed", text: removed[k]! });
+      lines.push({ type: "added", text: added[k]! });
+    }
+  }
+  removed
+    .slice(paired)
+    .forEach((text) => lines.push({ type: "removed", text }));
+  added.slice(paired).forEach((text) => lines.push({ type: "added", text }));
+  return lines;
+}
@@ -0,0 +1,91 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { buildCitationRegistry } from "../citations";
+import type { Message } from "../messages";
+import { parsePlan } from "../plan";
+
+// Keeps the request to the prose endpoint within what the model takes in.
+const MAX_CONTEXT_LENGTH = 16000;
+const MAX_TOOL_RESULT_LENGTH = 2000;
+
+export type ReportRewriteCommand =
+  | "expand"
+  | "cite"
+  | "fact_check"
+  | "translate";
+
+// What the research found, as Markdown for the model to work from.
+export function buildResearchContext(
+  planMessage: Message | undefined,
+  activityMessages: Message[],
+) {
+  const sections: string[] = [];
+  const plan = parsePlan(planMessage?.content);
+  if (plan.steps.length > 0) {
+    sections.push(
+      [
+        `## Research Plan: ${plan.title}`,
+        ...plan.steps.map(
+          (step, i) => `${i + 1}. ${step.title}: ${step.description}`,
+        ),
+      ].join("\n"),
+    );
+  }
+  const { citations } = buildCitationRegistry(activityMessages);
+  if (citations.length > 0) {
+    sections.push(
+      [
+        "## Sources",
+        ...citations.map(
+          (citation) =>
+            `- [${citation.title}](${citation.url})${citation.snippet ? `: ${citation.snippet}` : ""}`,
+        ),
+      ].join("\n"),
+    );
+  }
+  const toolResults = activityMessages.flatMap((message) =>
+    (message.toolCalls ?? [])
+      .filter((toolCall) => toolCall.result && toolCall.name !== "web_search")
+      .map(
+        (toolCall) =>
+          `### ${toolCall.name}(${JSON.stringify(toolCall.args)})\n\n${truncate(toolCall.result!, MAX_TOOL_RESULT_LENGTH)}`,
+      ),
+  );
+  if (toolResults.length > 0) {
+    sections.push(["## Tool Results", ...toolResults].join("\n\n"));
+  }
+  return truncate(sections.join("\n\n"), MAX_CONTEXT_LENGTH);
+}
+
+// The instruction sent along with the selected text. The research context is
+// part of it, so that the prose endpoint needs no changes.
+export function buildRewriteInstruction(
+  command: ReportRewriteCommand,
+  researchContext: string,
+  { language = "English" }: { language?: string } = {},
+) {
+  let instruction: string;
+  switch (command) {
+    case "expand":
+      instruction =
+        "Expand the text with more detail, using only facts from the research below. Cite every source you use as a Markdown link to its URL.";
+      break;
+    case "cite":
+      instruction =
+        "Add citations to the text, as Markdown links to the sources below that support its claims. Keep the wording of the text otherwise unchanged.";
+      break;
+    case "fact_check":
+      instruction =
+        'Fact-check the text against the sources and tool results below. Correct the statements they contradict, and mark the ones they do not support with "(unverified)". Return only the corrected text.';
+      break;
+    case "translate":
+      instruction = `Translate the text into ${language}. Keep the Markdown formatting, links and citations.`;
+      break;
+  }
+  return `${instruction}\n\n# Research\n\n${researchContext || "No research is available."}`;
+}
+
+function truncate(text: string, length: number) {
+  return text.length > length ? `${text.slice(0, length)}\n…` : text;
+}
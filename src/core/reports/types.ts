@@ -0,0 +1,22 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+// Where the content of a version came from: written by the reporter, edited by
+// the user, rewritten by the model on request, or restored from an earlier
+// version.
+export type ReportVersionSource =
+  | "generated"
+  | "edited"
+  | "rewritten"
+  | "restored";
+
+export interface ReportVersion {
+  id: string;
+  // 1-based, in the order the versions were created.
+  number: number;
+  source: ReportVersionSource;
+  content: string;
+  createdAt: number;
+  // The number of the version a restored version was copied from.
+  restoredFrom?: number;
+}
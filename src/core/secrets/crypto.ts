@@ -0,0 +1,119 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { SecretVaultError } from "./errors";
+import type { EncryptedSecretVault } from "./types";
+
+const VAULT_VERSION = 1;
+
+// OWASP's recommendation for PBKDF2 with SHA-256.
+const KEY_ITERATIONS = 600_000;
+
+export interface SecretVaultKey {
+  key: CryptoKey;
+  salt: string;
+  iterations: number;
+}
+
+// Derives the key of a new vault from the passphrase.
+export async function createSecretVaultKey(
+  passphrase: string,
+): Promise<SecretVaultKey> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return {
+    key: await deriveKey(passphrase, salt, KEY_ITERATIONS),
+    salt: encodeBase64(salt),
+    iterations: KEY_ITERATIONS,
+  };
+}
+
+export async function encryptSecrets(
+  vaultKey: SecretVaultKey,
+  secrets: Record<string, string>,
+): Promise<EncryptedSecretVault> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    vaultKey.key,
+    new TextEncoder().encode(JSON.stringify(secrets)),
+  );
+  return {
+    version: VAULT_VERSION,
+    salt: vaultKey.salt,
+    iterations: vaultKey.iterations,
+    iv: encodeBase64(iv),
+    data: encodeBase64(new Uint8Array(data)),
+  };
+}
+
+// Opens the vault with the passphrase, returning the key to seal it again with
+// and the secrets in it.
+export async function decryptSecrets(
+  vault: EncryptedSecretVault,
+  passphrase: string,
+) {
+  if (vault.version !== VAULT_VERSION) {
+    throw new SecretVaultError(
+      `Unsupported secret vault version: ${vault.version}`,
+    );
+  }
+  const vaultKey: SecretVaultKey = {
+    key: await deriveKey(
+      passphrase,
+      decodeBase64(vault.salt),
+      vault.iterations,
+    ),
+    salt: vault.salt,
+    iterations: vault.iterations,
+  };
+  let data: ArrayBuffer;
+  try {
+    data = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: decodeBase64(vault.iv) },
+      vaultKey.key,
+      decodeBase64(vault.data),
+    );
+  } catch {
+    // AES-GCM can not tell a wrong key from tampered data.
+    throw new SecretVaultError("Wrong passphrase.");
+  }
+  const secrets = JSON.parse(new TextDecoder().decode(data)) as Record<
+    string,
+    string
+  >;
+  return { vaultKey, secrets };
+}
+
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number,
+) {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    // The key never leaves the page.
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+function encodeBase64(bytes: Uint8Array) {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function decodeBase64(text: string) {
+  return Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+}
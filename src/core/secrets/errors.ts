@@ -0,0 +1,9 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+export class SecretVaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SecretVaultError";
+  }
+}
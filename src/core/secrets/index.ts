@@ -0,0 +1,7 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+export * from "./crypto";
+export * from "./errors";
+export * from "./references";
+export * from "./types";
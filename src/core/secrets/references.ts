@@ -0,0 +1,47 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { SecretVaultError } from "./errors";
+
+// A secret is referenced as `{{secret:NAME}}`, so that it can also be a part
+// of a value, like `Bearer {{secret:API_TOKEN}}`.
+const SECRET_REFERENCE_PATTERN = /\{\{\s*secret:([A-Za-z_]\w*)\s*\}\}/g;
+
+export const SECRET_NAME_PATTERN = /^[A-Za-z_]\w*$/;
+
+export function createSecretReference(name: string) {
+  return `{{secret:${name}}}`;
+}
+
+export function getSecretReferences(value: string) {
+  return Array.from(value.matchAll(SECRET_REFERENCE_PATTERN), (m) => m[1]!);
+}
+
+export function hasSecretReferences(value: string) {
+  return getSecretReferences(value).length > 0;
+}
+
+// Replaces the references with the values of the secrets.
+export function resolveSecretReferences(
+  value: string,
+  secrets: ReadonlyMap<string, string>,
+) {
+  return value.replace(SECRET_REFERENCE_PATTERN, (_, name: string) => {
+    const secret = secrets.get(name);
+    if (secret === undefined) {
+      throw new SecretVaultError(`Secret "${name}" is not in the vault.`);
+    }
+    return secret;
+  });
+}
+
+// A name for a secret from the names of what it belongs to, e.g.
+// `GITHUB_API_KEY` for the `API_KEY` of the `github` server.
+export function toSecretName(...parts: string[]) {
+  const name = parts
+    .join("_")
+    .replace(/\W+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .toUpperCase();
+  return /^\d/.test(name) ? `_${name}` : name || "SECRET";
+}
@@ -0,0 +1,16 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+// The vault as it is kept in `localStorage`. The names of the secrets are
+// encrypted along with their values.
+export interface EncryptedSecretVault {
+  version: number;
+  // The salt and iterations of the PBKDF2 key derived from the passphrase.
+  salt: string;
+  iterations: number;
+  // The AES-GCM initialization vector and the encrypted JSON of the secrets.
+  iv: string;
+  data: string;
+}
+
+export type SecretVaultStatus = "empty" | "locked" | "unlocked";
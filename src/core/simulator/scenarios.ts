@@ -0,0 +1,174 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import type { Plan } from "../plan";
+
+import type { SimulatorScenario, SimulatorStep } from "./types";
+
+const RESEARCH_STEPS: SimulatorStep[] = [
+  {
+    toolCalls: [
+      {
+        name: "web_search",
+        args: { query: "{query} overview" },
+        result: [
+          {
+            type: "page",
+            title: "An Introduction to {query}",
+            url: "https://example.com/introduction",
+            content:
+              "A broad overview of {query}, its history and the ideas behind it.",
+          },
+          {
+            type: "page",
+            title: "{query}: Frequently Asked Questions",
+            url: "https://example.org/faq",
+            content: "Short answers to the questions people ask most often.",
+          },
+        ],
+      },
+      {
+        name: "crawl_tool",
+        args: { url: "https://example.com/introduction" },
+        result: {
+          url: "https://example.com/introduction",
+          crawled_content:
+            "# An Introduction to {query}\n\nThis article covers the background of {query} and why it matters today.",
+        },
+      },
+    ],
+    answer:
+      "## Background\n\n{query} has a long history. The main ideas are summarized in [An Introduction to {query}](https://example.com/introduction), and common questions are answered in [the FAQ](https://example.org/faq).",
+  },
+  {
+    toolCalls: [
+      {
+        name: "web_search",
+        args: { query: "{query} latest developments" },
+        result: [
+          {
+            type: "page",
+            title: "What Is New in {query}",
+            url: "https://example.net/news",
+            content: "Recent developments and the trends experts expect.",
+          },
+        ],
+      },
+    ],
+    answer:
+      "## Recent Developments\n\nAccording to [What Is New in {query}](https://example.net/news), interest keeps growing and several new approaches appeared last year.",
+  },
+  {
+    agent: "coder",
+    toolCalls: [
+      {
+        name: "python_repl_tool",
+        args: {
+          code: "growth = [12, 18, 27, 41]\nprint(sum(growth) / len(growth))",
+        },
+        result:
+          "Successfully executed:\n```python\ngrowth = [12, 18, 27, 41]\nprint(sum(growth) / len(growth))\n```\nStdout: 24.5",
+      },
+    ],
+    answer: "## Analysis\n\nThe average yearly growth is **24.5%**.",
+  },
+];
+
+const RESEARCH_PLAN: Plan = {
+  locale: "en-US",
+  has_enough_context: false,
+  title: "Research on {query}",
+  thought:
+    "The user wants to learn about {query}. Some background, the latest developments and a short analysis are needed to answer well.",
+  steps: [
+    {
+      need_web_search: true,
+      title: "Background of {query}",
+      description: "Collect the history and the core ideas of {query}.",
+      step_type: "research",
+    },
+    {
+      need_web_search: true,
+      title: "Latest Developments",
+      description: "Find out what changed recently and what experts expect.",
+      step_type: "research",
+    },
+    {
+      need_web_search: false,
+      title: "Growth Analysis",
+      description: "Compute the average growth from the collected figures.",
+      step_type: "processing",
+    },
+  ],
+};
+
+const REPORT = `# {query}
+
+## Key Points
+
+- {query} has a long history and is well documented.
+- Interest keeps growing, with an average yearly growth of **24.5%**.
+
+## Background
+
+The main ideas are summarized in [An Introduction to {query}](https://example.com/introduction).
+
+## Recent Developments
+
+Several new approaches appeared last year, see [What Is New in {query}](https://example.net/news).
+
+## Key Citations
+
+- [An Introduction to {query}](https://example.com/introduction)
+
+- [{query}: Frequently Asked Questions](https://example.org/faq)
+
+- [What Is New in {query}](https://example.net/news)
+`;
+
+export const BUILTIN_SCENARIOS: SimulatorScenario[] = [
+  {
+    id: "default",
+    plans: [
+      RESEARCH_PLAN,
+      {
+        ...RESEARCH_PLAN,
+        thought: `${RESEARCH_PLAN.thought} The plan was revised after the user's feedback.`,
+        steps: RESEARCH_PLAN.steps.slice(0, 2),
+      },
+    ],
+    steps: RESEARCH_STEPS,
+    report: REPORT,
+  },
+  {
+    id: "direct-answer",
+    directAnswer: "Hello! I'm DeerFlow. What would you like to research today?",
+    plans: [],
+    steps: [],
+    report: "",
+  },
+  {
+    id: "failure",
+    plans: [RESEARCH_PLAN],
+    steps: [
+      {
+        toolCalls: [
+          {
+            name: "web_search",
+            args: { query: "{query} overview" },
+            error: "Error: the search engine is not reachable.",
+          },
+          ...RESEARCH_STEPS[0]!.toolCalls.slice(1),
+        ],
+        answer: RESEARCH_STEPS[0]!.answer,
+      },
+      ...RESEARCH_STEPS.slice(1),
+    ],
+    report: REPORT,
+    failure: {
+      stage: "research",
+      step: 1,
+      message: "The connection to the server was lost.",
+    },
+  },
+];
@@ -0,0 +1,364 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { nanoid } from "nanoid";
+
+import type { ChatEvent, ChatStreamOptions, ChatStreamParams } from "../api";
+import { isEditedPlanFeedback, parsePlan, type Plan } from "../plan";
+import { parseJSON } from "../utils";
+
+import { BUILTIN_SCENARIOS } from "./scenarios";
+import type {
+  SimulatorDelays,
+  SimulatorScenario,
+  SimulatorStep,
+  SimulatorToolCall,
+} from "./types";
+
+const DEFAULT_DELAYS: SimulatorDelays = {
+  chunk: 30,
+  thinking: 400,
+  toolCall: 800,
+};
+
+// What the server would keep in its checkpoints, per thread.
+interface SimulatorSession {
+  scenario: SimulatorScenario;
+  query: string;
+  planIndex: number;
+  plan: Plan | null;
+  completedSteps: number;
+  failed: boolean;
+}
+
+const scenarios = new Map(
+  BUILTIN_SCENARIOS.map((scenario) => [scenario.id, scenario]),
+);
+const sessions = new Map<string, SimulatorSession>();
+
+export function registerSimulatorScenario(scenario: SimulatorScenario) {
+  scenarios.set(scenario.id, scenario);
+}
+
+export function isSimulatorEnabled() {
+  return new URLSearchParams(location.search).has("simulate");
+}
+
+export async function* simulatorChatStream(
+  userMessage: string,
+  params: ChatStreamParams,
+  options: ChatStreamOptions,
+): AsyncIterable<ChatEvent> {
+  const feedback = params.interrupt_feedback;
+  let session = sessions.get(params.thread_id);
+  if (!session || !feedback) {
+    session = {
+      scenario: await loadScenario(),
+      query: userMessage,
+      planIndex: 0,
+      plan: null,
+      completedSteps: 0,
+      // A run started again on the same thread doesn't fail a second time.
+      failed: session?.failed ?? false,
+    };
+    sessions.set(params.thread_id, session);
+  }
+  const simulator = new Simulator(session, params, options);
+  for await (const event of simulator.run(feedback)) {
+    options.onEvent?.({ event: event.type, data: JSON.stringify(event.data) });
+    yield event;
+  }
+}
+
+// `?simulate=<id>` picks a built-in scenario, or loads one from
+// `public/simulator/<id>.json`.
+async function loadScenario() {
+  const id = getScenarioId();
+  const scenario = scenarios.get(id);
+  if (scenario) {
+    return scenario;
+  }
+  const res = await fetch(`/simulator/${id}.json`);
+  if (!res.ok) {
+    throw new Error(`Simulator scenario not found: ${id}`);
+  }
+  const loaded = { ...((await res.json()) as SimulatorScenario), id };
+  scenarios.set(id, loaded);
+  return loaded;
+}
+
+function getScenarioId() {
+  const id = new URLSearchParams(location.search).get("simulate")?.trim();
+  // A bare `?simulate` selects the default scenario.
+  return id === undefined || id === "" ? "default" : id;
+}
+
+class Simulator {
+  private readonly delays: SimulatorDelays;
+
+  constructor(
+    private readonly session: SimulatorSession,
+    private readonly params: ChatStreamParams,
+    private readonly options: ChatStreamOptions,
+  ) {
+    this.delays = { ...DEFAULT_DELAYS, ...session.scenario.delays };
+  }
+
+  async *run(feedback: string | undefined): AsyncIterable<ChatEvent> {
+    const { scenario } = this.session;
+    if (!feedback) {
+      if (scenario.directAnswer) {
+        yield* this.streamText("coordinator", scenario.directAnswer);
+        return;
+      }
+      yield* this.handoffToPlanner();
+      yield* this.streamPlan();
+      if (!this.params.auto_accepted_plan) {
+        yield this.interrupt();
+        return;
+      }
+    } else if (feedback === "edit_plan") {
+      this.session.planIndex++;
+      yield* this.streamPlan();
+      yield this.interrupt();
+      return;
+    } else if (isEditedPlanFeedback(feedback)) {
+      const { plan } = parseJSON<{ plan?: Plan }>(feedback, {});
+      this.session.plan = parsePlan(JSON.stringify(plan));
+      this.session.completedSteps = 0;
+    }
+    yield* this.research();
+    yield* this.streamText("reporter", scenario.report, "reporting");
+  }
+
+  private async *handoffToPlanner() {
+    const id = createRunId();
+    yield this.event("tool_calls", "coordinator", id, {
+      tool_calls: [
+        {
+          type: "tool_call",
+          id: `call_${nanoid()}`,
+          name: "handoff_to_planner",
+          args: {},
+        },
+      ],
+      tool_call_chunks: [],
+    });
+    yield this.event("message_chunk", "coordinator", id, {
+      finish_reason: "tool_calls",
+    });
+  }
+
+  private async *streamPlan() {
+    const { plans } = this.session.scenario;
+    const plan =
+      plans[Math.min(this.session.planIndex, plans.length - 1)] ??
+      this.session.plan;
+    if (!plan) {
+      throw new Error("The simulator scenario has no plan.");
+    }
+    this.session.plan = parsePlan(JSON.stringify(plan));
+    this.session.completedSteps = 0;
+    await this.sleep(this.delays.thinking);
+    this.failIfScripted("planning");
+    yield* this.streamText(
+      "planner",
+      JSON.stringify(this.session.plan, null, 2),
+    );
+  }
+
+  private async *research() {
+    const plan = this.session.plan;
+    if (!plan) {
+      return;
+    }
+    for (let i = this.session.completedSteps; i < plan.steps.length; i++) {
+      const planStep = plan.steps[i]!;
+      const step =
+        this.session.scenario.steps[i] ?? createFallbackStep(planStep.title);
+      const agent =
+        step.agent ??
+        (planStep.step_type === "processing" ? "coder" : "researcher");
+      for (const toolCall of step.toolCalls) {
+        yield* this.callTool(agent, toolCall);
+      }
+      this.failIfScripted("research", i);
+      yield* this.streamText(agent, step.answer);
+      this.session.completedSteps = i + 1;
+    }
+  }
+
+  private async *callTool(
+    agent: "researcher" | "coder",
+    toolCall: SimulatorToolCall,
+  ) {
+    const id = createRunId();
+    const toolCallId = `call_${nanoid()}`;
+    await this.sleep(this.delays.thinking);
+    yield this.event("tool_calls", agent, id, {
+      tool_calls: [
+        { type: "tool_call", id: toolCallId, name: toolCall.name, args: {} },
+      ],
+      tool_call_chunks: [
+        {
+          type: "tool_call_chunk",
+          index: 0,
+          id: toolCallId,
+          name: toolCall.name,
+          args: "",
+        },
+      ],
+    });
+    const args = JSON.stringify(this.fill(toolCall.args));
+    for (const chunk of splitIntoChunks(args)) {
+      await this.sleep(this.delays.chunk);
+      yield this.event("tool_call_chunks", agent, id, {
+        tool_call_chunks: [
+          {
+            type: "tool_call_chunk",
+            index: 0,
+            id: null,
+            name: null,
+            args: chunk,
+          },
+        ],
+      });
+    }
+    yield this.event("message_chunk", agent, id, {
+      finish_reason: "tool_calls",
+    });
+    await this.sleep(toolCall.delay ?? this.delays.toolCall);
+    const result = toolCall.error ?? this.fill(toolCall.result ?? "");
+    yield this.event("tool_call_result", agent, nanoid(), {
+      tool_call_id: toolCallId,
+      content: typeof result === "string" ? result : JSON.stringify(result),
+    });
+  }
+
+  // A scripted failure of the stage breaks the text off halfway, leaving an
+  // unfinished message behind.
+  private async *streamText(
+    agent: string,
+    text: string,
+    failureStage?: "reporting",
+  ) {
+    const id = createRunId();
+    await this.sleep(this.delays.thinking);
+    const chunks = splitIntoChunks(this.fill(text));
+    for (const [i, chunk] of chunks.entries()) {
+      if (failureStage && i === Math.floor(chunks.length / 2)) {
+        this.failIfScripted(failureStage);
+      }
+      yield this.event("message_chunk", agent, id, { content: chunk });
+      await this.sleep(this.delays.chunk);
+    }
+    if (failureStage) {
+      this.failIfScripted(failureStage);
+    }
+    yield this.event("message_chunk", agent, id, { finish_reason: "stop" });
+  }
+
+  private interrupt() {
+    return this.event("interrupt", undefined, `human_feedback:${nanoid()}`, {
+      content: "Please Review the Plan.",
+      finish_reason: "interrupt",
+      options: [
+        { text: "Edit plan", value: "edit_plan" },
+        { text: "Start research", value: "accepted" },
+      ],
+    });
+  }
+
+  private failIfScripted(
+    stage: "planning" | "research" | "reporting",
+    step?: number,
+  ) {
+    const { failure } = this.session.scenario;
+    if (
+      !failure ||
+      this.session.failed ||
+      failure.stage !== stage ||
+      (stage === "research" && (failure.step ?? 0) !== step)
+    ) {
+      return;
+    }
+    this.session.failed = true;
+    throw new Error(failure.message ?? `Simulated failure during ${stage}.`);
+  }
+
+  private event(
+    type: ChatEvent["type"],
+    agent: string | undefined,
+    id: string,
+    data: Record<string, unknown>,
+  ) {
+    return {
+      type,
+      data: {
+        thread_id: this.params.thread_id,
+        agent,
+        id,
+        role: "assistant",
+        ...data,
+      },
+    } as ChatEvent;
+  }
+
+  // Replaces `{query}` in every string of a value.
+  private fill<T>(value: T): T {
+    const query = this.session.query;
+    return JSON.parse(
+      JSON.stringify(value, (_key, v: unknown) =>
+        typeof v === "string" ? v.replaceAll("{query}", query) : v,
+      ),
+    ) as T;
+  }
+
+  private sleep(ms: number) {
+    const signal = this.options.abortSignal;
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException("The operation was aborted.", "AbortError"));
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException("The operation was aborted.", "AbortError"));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+}
+
+function createRunId() {
+  return `run-${nanoid()}`;
+}
+
+function createFallbackStep(title: string): SimulatorStep {
+  return {
+    toolCalls: [
+      {
+        name: "web_search",
+        args: { query: title },
+        result: [
+          {
+            type: "page",
+            title,
+            url: `https://example.com/search?q=${encodeURIComponent(title)}`,
+            content: `Simulated search results for "${title}".`,
+          },
+        ],
+      },
+    ],
+    answer: `## ${title}\n\nThe simulated findings for this step.`,
+  };
+}
+
+// A few words at a time, like the tokens of a language model.
+function splitIntoChunks(text: string) {
+  return text.match(/(\S+\s*){1,3}|\s+/g) ?? [];
+}
@@ -0,0 +1,57 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import type { Plan } from "../plan";
+
+// A scripted research run. Text may contain `{query}`, which is replaced with
+// the message the user sent.
+export interface SimulatorScenario {
+  id: string;
+  // Answered by the coordinator right away, without planning or research.
+  directAnswer?: string;
+  // Each iteration of the plan. Asking for changes moves on to the next one,
+  // or reuses the last one.
+  plans: Plan[];
+  // The work done for each step of the plan, in order. Steps without an entry
+  // get a single web search.
+  steps: SimulatorStep[];
+  report: string;
+  delays?: Partial<SimulatorDelays>;
+  // Breaks the stream off with an error, to exercise the failure handling.
+  // It fails once per conversation, so the run can be continued afterwards.
+  failure?: SimulatorFailure;
+}
+
+export interface SimulatorStep {
+  // Defaults to the coder for processing steps and the researcher otherwise.
+  agent?: "researcher" | "coder";
+  toolCalls: SimulatorToolCall[];
+  answer: string;
+}
+
+export interface SimulatorToolCall {
+  name: string;
+  args: Record<string, unknown>;
+  // Serialized as JSON unless it is a string already.
+  result?: unknown;
+  // Returned as the result of the tool call instead of `result`.
+  error?: string;
+  // Overrides the time the tool takes to run.
+  delay?: number;
+}
+
+export interface SimulatorDelays {
+  // Between two chunks of streamed text or tool call arguments.
+  chunk: number;
+  // Before an agent starts to answer.
+  thinking: number;
+  // The time a tool takes to run.
+  toolCall: number;
+}
+
+export interface SimulatorFailure {
+  stage: "planning" | "research" | "reporting";
+  // The step that fails during research, starting at 0.
+  step?: number;
+  message?: string;
+}
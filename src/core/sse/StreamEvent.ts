@@ -4,4 +4,5 @@
 export interface StreamEvent {
   event: string;
   data: string;
+  id?: string;
 }
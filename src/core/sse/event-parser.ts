@@ -0,0 +1,111 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { type StreamEvent } from "./StreamEvent";
+
+// An incremental parser for the `text/event-stream` format.
+// See https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation
+export function createEventParser({
+  lastEventId = "",
+  onRetry,
+}: {
+  lastEventId?: string;
+  onRetry?: (retry: number) => void;
+} = {}) {
+  let buffer = "";
+  let eventType = "";
+  let dataLines: string[] = [];
+  let eventId = lastEventId;
+
+  function processLine(line: string): StreamEvent | undefined {
+    if (line === "") {
+      return dispatch();
+    }
+    if (line.startsWith(":")) {
+      // Comment, usually a keep-alive.
+      return;
+    }
+    const colon = line.indexOf(":");
+    let field: string;
+    let value: string;
+    if (colon === -1) {
+      field = line;
+      value = "";
+    } else {
+      field = line.slice(0, colon);
+      value = line.slice(colon + 1);
+      if (value.startsWith(" ")) {
+        value = value.slice(1);
+      }
+    }
+    switch (field) {
+      case "event":
+        eventType = value;
+        break;
+      case "data":
+        dataLines.push(value);
+        break;
+      case "id":
+        if (!value.includes("\0")) {
+          eventId = value;
+        }
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) {
+          onRetry?.(parseInt(value, 10));
+        }
+        break;
+    }
+  }
+
+  function dispatch(): StreamEvent | undefined {
+    const data = dataLines.join("\n");
+    const event = eventType || "message";
+    const hasData = dataLines.length > 0;
+    eventType = "";
+    dataLines = [];
+    if (!hasData) {
+      return;
+    }
+    return {
+      event,
+      data,
+      id: eventId || undefined,
+    };
+  }
+
+  return {
+    get lastEventId() {
+      return eventId;
+    },
+    push(chunk: string) {
+      buffer += chunk;
+      const events: StreamEvent[] = [];
+      let start = 0;
+      const handleLine = (end: number) => {
+        const event = processLine(buffer.slice(start, end));
+        if (event) {
+          events.push(event);
+        }
+      };
+      for (let i = 0; i < buffer.length; i++) {
+        if (buffer[i] === "\n") {
+          handleLine(i);
+          start = i + 1;
+        } else if (buffer[i] === "\r") {
+          if (i === buffer.length - 1) {
+            // Wait for the next chunk to tell whether a "\n" follows.
+            break;
+          }
+          handleLine(i);
+          if (buffer[i + 1] === "\n") {
+            i++;
+          }
+          start = i + 1;
+        }
+      }
+      buffer = buffer.slice(start);
+      return events;
+    },
+  };
+}
@@ -1,73 +1,156 @@
 // Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
 // SPDX-License-Identifier: MIT
 
+import { createEventParser } from "./event-parser";
 import { type StreamEvent } from "./StreamEvent";
 
+const DEFAULT_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30_000;
+const DEFAULT_MAX_RETRIES = 5;
+// Gateway errors usually come from a proxy in front of the server, so the
+// request can be sent again safely.
+const RETRYABLE_STATUS_CODES = [502, 503, 504];
+
+export interface FetchStreamOptions {
+  lastEventId?: string;
+  maxRetries?: number;
+  onEventId?: (id: string) => void;
+  onReconnect?: (attempt: number, delay: number) => void;
+  // Called for every successful response, including those of reconnections.
+  onResponse?: (response: Response) => void;
+}
+
+class RetryableStreamError extends Error {}
+
 export async function* fetchStream(
   url: string,
   init: RequestInit,
+  {
+    lastEventId: initialEventId = "",
+    maxRetries = DEFAULT_MAX_RETRIES,
+    onEventId,
+    onReconnect,
+    onResponse,
+  }: FetchStreamOptions = {},
 ): AsyncIterable<StreamEvent> {
-  const response = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "Cache-Control": "no-cache",
-    },
-    ...init,
+  let lastEventId = initialEventId;
+  let retryDelay = DEFAULT_RETRY_DELAY;
+  let attempt = 0;
+  let receivedEvents = false;
+  while (true) {
+    try {
+      const reader = await connect(url, init, lastEventId, onResponse);
+      const parser = createEventParser({
+        lastEventId,
+        onRetry: (retry) => {
+          retryDelay = retry;
+        },
+      });
+      while (true) {
+        let result: ReadableStreamReadResult<string>;
+        try {
+          result = await reader.read();
+        } catch (error) {
+          if (init.signal?.aborted) {
+            throw error;
+          }
+          throw new RetryableStreamError(
+            error instanceof Error ? error.message : "Stream interrupted",
+          );
+        }
+        if (result.done) {
+          return;
+        }
+        for (const event of parser.push(result.value)) {
+          receivedEvents = true;
+          attempt = 0;
+          if (event.id && event.id !== lastEventId) {
+            lastEventId = event.id;
+            onEventId?.(event.id);
+          }
+          yield event;
+        }
+      }
+    } catch (error) {
+      // Without an event id the server cannot tell where to resume, and sending
+      // the request again would start the whole run over.
+      const resumable = lastEventId !== "" || !receivedEvents;
+      if (
+        !(error instanceof RetryableStreamError) ||
+        init.signal?.aborted ||
+        !resumable ||
+        attempt >= maxRetries
+      ) {
+        throw error;
+      }
+      attempt++;
+      const delay = Math.min(retryDelay * 2 ** (attempt - 1), MAX_RETRY_DELAY);
+      onReconnect?.(attempt, delay);
+      await sleepUnlessAborted(delay, init.signal);
+    }
+  }
+}
+
+async function connect(
+  url: string,
+  init: RequestInit,
+  lastEventId: string,
+  onResponse?: (response: Response) => void,
+) {
+  const headers = new Headers({
+    "Content-Type": "application/json",
+    "Cache-Control": "no-cache",
   });
+  new Headers(init.headers).forEach((value, key) => headers.set(key, value));
+  if (lastEventId) {
+    headers.set("Last-Event-ID", lastEventId);
+  }
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      ...init,
+      headers,
+    });
+  } catch (error) {
+    if (init.signal?.aborted) {
+      throw error;
+    }
+    throw new RetryableStreamError(
+      error instanceof Error ? error.message : `Failed to fetch from ${url}`,
+    );
+  }
   if (response.status !== 200) {
-    throw new Error(`Failed to fetch from ${url}: ${response.status}`);
+    const message = `Failed to fetch from ${url}: ${response.status}`;
+    if (RETRYABLE_STATUS_CODES.includes(response.status)) {
+      throw new RetryableStreamError(message);
+    }
+    throw new Error(message);
   }
-  // Read from response body, event by event. An event always ends with a '\n\n'.
+  onResponse?.(response);
   const reader = response.body
     ?.pipeThrough(new TextDecoderStream())
     .getReader();
   if (!reader) {
     throw new Error("Response body is not readable");
   }
-  let buffer = "";
-  while (true) {
-    const { done, value } = await reader.read();
-    if (done) {
-      break;
-    }
-    buffer += value;
-    while (true) {
-      const index = buffer.indexOf("\n\n");
-      if (index === -1) {
-        break;
-      }
-      const chunk = buffer.slice(0, index);
-      buffer = buffer.slice(index + 2);
-      const event = parseEvent(chunk);
-      if (event) {
-        yield event;
-      }
-    }
-  }
+  return reader;
 }
 
-function parseEvent(chunk: string) {
-  let resultEvent = "message";
-  let resultData: string | null = null;
-  for (const line of chunk.split("\n")) {
-    const pos = line.indexOf(": ");
-    if (pos === -1) {
-      continue;
-    }
-    const key = line.slice(0, pos);
-    const value = line.slice(pos + 2);
-    if (key === "event") {
-      resultEvent = value;
-    } else if (key === "data") {
-      resultData = value;
+function sleepUnlessAborted(ms: number, signal?: AbortSignal | null) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("The operation was aborted.", "AbortError"));
+      return;
     }
-  }
-  if (resultEvent === "message" && resultData === null) {
-    return undefined;
-  }
-  return {
-    event: resultEvent,
-    data: resultData,
-  } as StreamEvent;
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("The operation was aborted.", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 }
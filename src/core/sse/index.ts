@@ -1,5 +1,6 @@
 // Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
 // SPDX-License-Identifier: MIT
 
+export * from "./event-parser";
 export * from "./fetch-stream";
 export * from "./StreamEvent";
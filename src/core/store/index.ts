@@ -1,5 +1,11 @@
 // Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
 // SPDX-License-Identifier: MIT
 
+export * from "./mcp-health-store";
+export * from "./podcast-store";
+export * from "./replay-store";
+export * from "./report-store";
+export * from "./secret-store";
 export * from "./store";
 export * from "./settings-store";
+export * from "./thread-store";
@@ -0,0 +1,127 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { useEffect, useRef } from "react";
+import { create } from "zustand";
+
+import { queryMCPServerMetadata } from "../api";
+import {
+  toSimpleMCPServerMetadata,
+  type MCPServerMetadata,
+  type MCPToolMetadata,
+  type SimpleMCPServerMetadata,
+} from "../mcp";
+import { SecretVaultError } from "../secrets";
+
+import { getActiveMCPServers, resolveMCPServerSecrets } from "./settings-store";
+
+const HEALTH_CHECK_TIMEOUT = 15_000;
+
+export interface MCPServerHealth {
+  status: "checking" | "healthy" | "unreachable";
+  // How long the server took to list its tools, in milliseconds.
+  latency?: number;
+  checkedAt?: number;
+  error?: string;
+  // The tools the server had at the last check, which may differ from the
+  // ones in the settings.
+  tools?: MCPToolMetadata[];
+}
+
+// Kept for the session only, by the name of each server.
+export const useMCPHealthStore = create<{
+  servers: Record<string, MCPServerHealth>;
+}>(() => ({
+  servers: {},
+}));
+
+export function useMCPServerHealth(name: string) {
+  return useMCPHealthStore((state) => state.servers[name]);
+}
+
+// Lists the tools of the server again, which also tells whether it is up.
+export async function checkMCPServerHealth(server: MCPServerMetadata) {
+  const previous = useMCPHealthStore.getState().servers[server.name];
+  if (previous?.status === "checking") {
+    return;
+  }
+  let config: SimpleMCPServerMetadata;
+  try {
+    config = resolveMCPServerSecrets(toSimpleMCPServerMetadata(server));
+  } catch (error) {
+    // Nothing is known about the server while its secrets are locked away.
+    if (error instanceof SecretVaultError) {
+      return;
+    }
+    throw error;
+  }
+  updateHealth(server.name, { ...previous, status: "checking" });
+  const start = performance.now();
+  try {
+    const metadata = (await queryMCPServerMetadata(config, {
+      abortSignal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT),
+    })) as Pick<MCPServerMetadata, "tools">;
+    updateHealth(server.name, {
+      status: "healthy",
+      latency: performance.now() - start,
+      checkedAt: Date.now(),
+      tools: metadata.tools,
+    });
+  } catch (error) {
+    updateHealth(server.name, {
+      ...previous,
+      status: "unreachable",
+      latency: undefined,
+      checkedAt: Date.now(),
+      error:
+        error instanceof Error && error.name === "TimeoutError"
+          ? "The server did not answer in time."
+          : error instanceof Error
+            ? error.message
+            : String(error),
+    });
+  }
+}
+
+// One server after another, as each check may start a process on the server.
+export async function checkMCPServersHealth(servers: MCPServerMetadata[]) {
+  for (const server of servers) {
+    await checkMCPServerHealth(server);
+  }
+}
+
+// The servers a research would start that did not answer the last check.
+export function getUnreachableMCPServers() {
+  const health = useMCPHealthStore.getState().servers;
+  return getActiveMCPServers().filter(
+    (server) => health[server.name]?.status === "unreachable",
+  );
+}
+
+// Checks the servers now and then again after each interval, while mounted.
+// Other changes to the servers than adding or removing one do not start
+// another check.
+export function useMCPHealthMonitor(
+  servers: MCPServerMetadata[],
+  interval: number,
+) {
+  const serversRef = useRef(servers);
+  serversRef.current = servers;
+  const names = servers.map((server) => server.name).join("\n");
+  useEffect(() => {
+    if (!names) {
+      return;
+    }
+    void checkMCPServersHealth(serversRef.current);
+    const timer = setInterval(() => {
+      void checkMCPServersHealth(serversRef.current);
+    }, interval);
+    return () => clearInterval(timer);
+  }, [names, interval]);
+}
+
+function updateHealth(name: string, health: MCPServerHealth) {
+  useMCPHealthStore.setState((state) => ({
+    servers: { ...state.servers, [name]: health },
+  }));
+}
@@ -0,0 +1,289 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { nanoid } from "nanoid";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+import {
+  generatePodcast,
+  generatePodcastScript,
+  synthesizeSpeech,
+} from "../api";
+import {
+  DEFAULT_PODCAST_OPTIONS,
+  getAudioDuration,
+  loadPodcastAudio,
+  mapPodcastChapters,
+  parsePodcast,
+  PODCAST_AUDIO_TYPE,
+  removePodcastAudio,
+  savePodcastAudio,
+  type Podcast,
+  type PodcastOptions,
+  type PodcastScriptLine,
+} from "../podcast";
+import { parseJSON } from "../utils";
+
+import { getReportContent } from "./report-store";
+import { useStore } from "./store";
+
+// Starts a podcast about the research with its script, which is reviewed
+// before any audio is synthesized.
+export async function listenToPodcast(researchId: string) {
+  const { threadId, messages, researchPlanIds, researchReportIds } =
+    useStore.getState();
+  const planMessage = messages.get(researchPlanIds.get(researchId) ?? "");
+  const reportId = researchReportIds.get(researchId);
+  if (!planMessage || !reportId || !getReportContent(reportId)) {
+    return;
+  }
+  useStore.getState().appendMessage({
+    id: nanoid(),
+    threadId,
+    role: "user",
+    content: "Please generate a podcast for the above research.",
+    contentChunks: [],
+  });
+  const podcast: Podcast = {
+    title: parseJSON(planMessage.content, { title: "Untitled" }).title,
+    researchId,
+    status: "scripting",
+    options: getLastPodcastOptions(),
+    lines: [],
+  };
+  const messageId = nanoid();
+  useStore.getState().appendMessage({
+    id: messageId,
+    threadId,
+    role: "assistant",
+    agent: "podcast",
+    content: JSON.stringify(podcast),
+    contentChunks: [],
+    isStreaming: true,
+  });
+  await writePodcastScript(messageId);
+}
+
+// Writes the script again, e.g. in another language or at another length.
+export async function rewritePodcastScript(
+  messageId: string,
+  options: PodcastOptions,
+) {
+  updatePodcast(messageId, { status: "scripting", options }, true);
+  await writePodcastScript(messageId);
+}
+
+export function updatePodcastScript(
+  messageId: string,
+  lines: PodcastScriptLine[],
+) {
+  updatePodcast(messageId, { lines });
+}
+
+export function updatePodcastOptions(
+  messageId: string,
+  options: PodcastOptions,
+) {
+  updatePodcast(messageId, { options });
+}
+
+// Goes back from the player to the script, keeping the audio until it is
+// synthesized again.
+export function editPodcastScript(messageId: string) {
+  updatePodcast(messageId, { status: "draft" });
+}
+
+export function cancelPodcastScriptEdit(messageId: string) {
+  const podcast = getPodcast(messageId);
+  if (podcast?.audio) {
+    updatePodcast(messageId, { status: "ready" });
+  }
+}
+
+// Speaks the script line by line, so that the time each line starts at is
+// known, and saves the audio with the thread.
+export async function synthesizePodcast(messageId: string) {
+  const podcast = getPodcast(messageId);
+  if (!podcast || podcast.lines.length === 0) {
+    return;
+  }
+  const { threadId } = useStore.getState();
+  updatePodcast(messageId, { status: "synthesizing", progress: 0 }, true);
+  try {
+    const clips: ArrayBuffer[] = [];
+    const lineStarts: number[] = [];
+    let duration = 0;
+    for (const line of podcast.lines) {
+      const clip = await synthesizeSpeech(
+        line.paragraph,
+        podcast.options.voices[line.speaker],
+      );
+      lineStarts.push(duration);
+      duration += await getAudioDuration(clip);
+      clips.push(clip);
+      updatePodcast(messageId, { progress: clips.length }, true);
+    }
+    const audioId = nanoid();
+    // MP3 frames play back to back, so the clips join into one file.
+    await savePodcastAudio(
+      audioId,
+      threadId,
+      new Blob(clips, { type: PODCAST_AUDIO_TYPE }),
+    );
+    if (podcast.audio) {
+      await removePodcastAudio(podcast.audio.id);
+    }
+    const reportId = useStore
+      .getState()
+      .researchReportIds.get(podcast.researchId);
+    updatePodcast(messageId, {
+      status: "ready",
+      audio: {
+        id: audioId,
+        duration,
+        lines: podcast.lines,
+        lineStarts,
+        chapters: mapPodcastChapters(
+          podcast.lines,
+          (reportId && getReportContent(reportId)) ?? "",
+        ),
+      },
+      progress: undefined,
+    });
+  } catch (error) {
+    console.error(error);
+    updatePodcast(messageId, {
+      status: "draft",
+      progress: undefined,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    toast("An error occurred while generating podcast. Please try again.");
+  }
+}
+
+// An object URL of the saved audio, revoked once it is no longer used.
+export function usePodcastAudioURL(audioId: string | undefined) {
+  const [url, setURL] = useState<string | null>(null);
+  useEffect(() => {
+    if (!audioId) {
+      return;
+    }
+    let objectURL: string | null = null;
+    let cancelled = false;
+    loadPodcastAudio(audioId)
+      .then((blob) => {
+        if (blob && !cancelled) {
+          objectURL = URL.createObjectURL(blob);
+          setURL(objectURL);
+        }
+      })
+      .catch((error) => console.error(error));
+    return () => {
+      cancelled = true;
+      if (objectURL) {
+        URL.revokeObjectURL(objectURL);
+      }
+      setURL(null);
+    };
+  }, [audioId]);
+  return url;
+}
+
+async function writePodcastScript(messageId: string) {
+  const podcast = getPodcast(messageId);
+  if (!podcast) {
+    return;
+  }
+  const reportId = useStore
+    .getState()
+    .researchReportIds.get(podcast.researchId);
+  const content = reportId ? getReportContent(reportId) : null;
+  try {
+    if (!content) {
+      throw new Error("The report is not available.");
+    }
+    const script = await generatePodcastScript(content, {
+      locale: podcast.options.locale,
+      length: podcast.options.length,
+    });
+    if (!script) {
+      await generateWholePodcast(messageId, content);
+      return;
+    }
+    updatePodcast(messageId, { status: "draft", lines: script.lines });
+  } catch (error) {
+    console.error(error);
+    updatePodcast(messageId, {
+      status: "error",
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    toast(
+      "An error occurred while writing the podcast script. Please try again.",
+    );
+  }
+}
+
+// For servers without a script writer, which write and speak the podcast in
+// one go. There is no script to review or transcript to follow then.
+async function generateWholePodcast(messageId: string, content: string) {
+  const { threadId } = useStore.getState();
+  const data = await generatePodcast(content);
+  const audioId = nanoid();
+  await savePodcastAudio(
+    audioId,
+    threadId,
+    new Blob([data], { type: PODCAST_AUDIO_TYPE }),
+  );
+  updatePodcast(messageId, {
+    status: "ready",
+    lines: [],
+    audio: {
+      id: audioId,
+      duration: await getAudioDuration(data),
+      lines: [],
+      lineStarts: [],
+      chapters: [],
+    },
+  });
+}
+
+// The options of the last podcast in the thread, so that voices picked once
+// are kept.
+function getLastPodcastOptions() {
+  const { messageIds, messages } = useStore.getState();
+  for (let i = messageIds.length - 1; i >= 0; i--) {
+    const message = messages.get(messageIds[i]!);
+    if (message?.agent === "podcast") {
+      return parsePodcast(message).options;
+    }
+  }
+  return DEFAULT_PODCAST_OPTIONS;
+}
+
+function getPodcast(messageId: string) {
+  const message = useStore.getState().messages.get(messageId);
+  return message ? parsePodcast(message) : null;
+}
+
+function updatePodcast(
+  messageId: string,
+  changes: Partial<Podcast>,
+  isStreaming = false,
+) {
+  const message = useStore.getState().messages.get(messageId);
+  // The thread may have been switched in the meantime.
+  if (!message) {
+    return;
+  }
+  const podcast = { ...parsePodcast(message), ...changes };
+  // An error only stays until the next change of status.
+  if (changes.status && !changes.error) {
+    delete podcast.error;
+  }
+  useStore.getState().updateMessage({
+    ...message,
+    content: JSON.stringify(podcast),
+    isStreaming,
+  });
+}
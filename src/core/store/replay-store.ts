@@ -0,0 +1,191 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { create } from "zustand";
+
+import { fetchReplayEvents, type ChatEvent } from "../api";
+import {
+  buildReplayTimeline,
+  getReplayPosition,
+  getReplayTime,
+  type ReplayTimeline,
+} from "../replay/timeline";
+import { sleep } from "../utils";
+
+import { applyChatEvent, getFinishedRunState, useStore } from "./store";
+import { resetActiveThread } from "./thread-store";
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 5, 10];
+
+export type ReplayStatus =
+  | "idle"
+  | "loading"
+  | "playing"
+  | "paused"
+  | "ended"
+  | "failed";
+
+export const useReplayStore = create<{
+  status: ReplayStatus;
+  speed: number;
+  events: ChatEvent[];
+  timeline: ReplayTimeline | null;
+  // The number of events that have been applied to the thread.
+  position: number;
+}>(() => ({
+  status: "idle",
+  speed: 1,
+  events: [],
+  timeline: null,
+  position: 0,
+}));
+
+// Bumped whenever playback stops or jumps, so that a pending playback loop
+// notices it has been superseded.
+let playbackId = 0;
+
+export async function loadReplay() {
+  const { status } = useReplayStore.getState();
+  if (status !== "idle" && status !== "failed") {
+    return;
+  }
+  useReplayStore.setState({ status: "loading" });
+  try {
+    const events = await fetchReplayEvents();
+    useReplayStore.setState({
+      status: "paused",
+      events,
+      timeline: buildReplayTimeline(events),
+      position: 0,
+    });
+  } catch (error) {
+    console.error(error);
+    useReplayStore.setState({ status: "failed" });
+  }
+}
+
+export function playReplay() {
+  const { status, events, position } = useReplayStore.getState();
+  if (status !== "paused" && status !== "ended") {
+    return;
+  }
+  if (position >= events.length) {
+    seekReplay(0);
+  }
+  useReplayStore.setState({ status: "playing" });
+  useStore.setState({ responding: true, runState: "streaming" });
+  void runPlayback(++playbackId);
+}
+
+export function pauseReplay() {
+  if (useReplayStore.getState().status !== "playing") {
+    return;
+  }
+  playbackId++;
+  useReplayStore.setState({ status: "paused" });
+  useStore.setState({ responding: false });
+}
+
+export function toggleReplay() {
+  if (useReplayStore.getState().status === "playing") {
+    pauseReplay();
+  } else {
+    playReplay();
+  }
+}
+
+export function setReplaySpeed(speed: number) {
+  useReplayStore.setState({ speed });
+}
+
+export function changeReplaySpeed(offset: number) {
+  const index = REPLAY_SPEEDS.indexOf(useReplayStore.getState().speed);
+  const speed =
+    REPLAY_SPEEDS[
+      Math.min(Math.max(index + offset, 0), REPLAY_SPEEDS.length - 1)
+    ];
+  if (speed) {
+    setReplaySpeed(speed);
+  }
+}
+
+// Moves the replay to right after the given number of events. Going back
+// rebuilds the thread from the first event, since messages only ever grow.
+export function seekReplay(target: number) {
+  const { status, events, position } = useReplayStore.getState();
+  if (status === "idle" || status === "loading" || status === "failed") {
+    return;
+  }
+  const nextPosition = Math.min(Math.max(target, 0), events.length);
+  const playing = status === "playing";
+  playbackId++;
+  let start = position;
+  if (nextPosition < position) {
+    resetActiveThread();
+    start = 0;
+  }
+  for (let i = start; i < nextPosition; i++) {
+    applyChatEvent(events[i]!);
+  }
+  const ended = nextPosition >= events.length;
+  useReplayStore.setState({
+    position: nextPosition,
+    status: ended ? "ended" : playing ? "playing" : "paused",
+  });
+  useStore.setState({
+    responding: playing && !ended,
+    runState: ended ? getFinishedRunState() : "streaming",
+  });
+  if (playing && !ended) {
+    void runPlayback(++playbackId);
+  }
+}
+
+export function seekReplayToTime(time: number) {
+  const { timeline } = useReplayStore.getState();
+  if (timeline) {
+    seekReplay(getReplayPosition(timeline, time));
+  }
+}
+
+// Jumps to the start of the next phase, or of the current phase when going
+// back, unless the current phase has only just started.
+export function jumpToReplayPhase(offset: 1 | -1) {
+  const { timeline, position } = useReplayStore.getState();
+  if (!timeline) {
+    return;
+  }
+  const starts = timeline.phases.map((phase) => phase.start);
+  const target =
+    offset > 0
+      ? starts.find((start) => start > position)
+      : starts.reverse().find((start) => start < position - 1);
+  seekReplay(target ?? (offset > 0 ? timeline.times.length : 0));
+}
+
+export function useReplayTime() {
+  return useReplayStore((state) =>
+    state.timeline ? getReplayTime(state.timeline, state.position) : 0,
+  );
+}
+
+async function runPlayback(id: number) {
+  while (id === playbackId) {
+    const { events, timeline, position, speed } = useReplayStore.getState();
+    if (!timeline || position >= events.length) {
+      useReplayStore.setState({ status: "ended" });
+      useStore.setState({
+        responding: false,
+        runState: getFinishedRunState(),
+      });
+      return;
+    }
+    const wait = timeline.times[position]! - getReplayTime(timeline, position);
+    await sleep(wait / speed);
+    if (id !== playbackId) {
+      return;
+    }
+    applyChatEvent(events[position]!);
+    useReplayStore.setState({ position: position + 1 });
+  }
+}
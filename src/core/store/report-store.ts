@@ -0,0 +1,147 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { nanoid } from "nanoid";
+
+import type { Message } from "../messages";
+import {
+  buildResearchContext,
+  type ReportVersion,
+  type ReportVersionSource,
+} from "../reports";
+
+import { useStore } from "./store";
+
+const NO_VERSIONS: ReportVersion[] = [];
+
+// In the paper writing workflow the final paper is shown, and edited, instead
+// of the report.
+export function isPaperWritingWorkflow(messages: Map<string, Message>) {
+  return Array.from(messages.values()).some(
+    (message) =>
+      message.agent === "paper_writer" || message.agent === "outline_writer",
+  );
+}
+
+// The content shown for a report, or `null` while it is still being written.
+// In the paper writing workflow, that is until the final paper is fetched
+// after the report, unless fetching it failed.
+export function getReportContent(reportId: string) {
+  const { messages, finalPaper, finalPaperError } = useStore.getState();
+  if (isPaperWritingWorkflow(messages)) {
+    if (finalPaper) {
+      return finalPaper.final_paper;
+    }
+    if (!finalPaperError) {
+      return null;
+    }
+  }
+  const message = messages.get(reportId);
+  return message && !message.isStreaming ? message.content : null;
+}
+
+export function setReportContent(reportId: string, content: string) {
+  const { messages, finalPaper } = useStore.getState();
+  if (isPaperWritingWorkflow(messages) && finalPaper) {
+    useStore.setState({ finalPaper: { ...finalPaper, final_paper: content } });
+    return;
+  }
+  const message = messages.get(reportId);
+  if (message) {
+    useStore.setState({
+      messages: new Map(messages).set(reportId, { ...message, content }),
+    });
+  }
+}
+
+// Adds a version unless the content is the same as the latest one's.
+export function addReportVersion(
+  reportId: string,
+  content: string,
+  source: ReportVersionSource,
+  restoredFrom?: number,
+) {
+  const versions = getReportVersions(reportId);
+  const latest = versions[versions.length - 1];
+  if (latest?.content === content) {
+    return latest;
+  }
+  const version: ReportVersion = {
+    id: nanoid(),
+    number: versions.length + 1,
+    source,
+    content,
+    createdAt: Date.now(),
+    restoredFrom,
+  };
+  useStore.setState((state) => ({
+    reportVersions: new Map(state.reportVersions).set(reportId, [
+      ...versions,
+      version,
+    ]),
+  }));
+  return version;
+}
+
+// Keeps what the model wrote, before anyone edits it.
+export function recordGeneratedReport(reportId: string) {
+  if (useStore.getState().finalPaperLoading) {
+    return;
+  }
+  const content = getReportContent(reportId);
+  if (content && getReportVersions(reportId).length === 0) {
+    addReportVersion(reportId, content, "generated");
+  }
+}
+
+export function saveReportEdit(reportId: string) {
+  const content = getReportContent(reportId);
+  if (content !== null) {
+    addReportVersion(reportId, content, "edited");
+  }
+}
+
+// Restoring does not drop the versions after the restored one, it adds a copy
+// of it on top.
+export function restoreReportVersion(reportId: string, versionId: string) {
+  const version = getReportVersions(reportId).find((v) => v.id === versionId);
+  if (!version) {
+    return;
+  }
+  setReportContent(reportId, version.content);
+  addReportVersion(reportId, version.content, "restored", version.number);
+}
+
+// Saves what the user typed, then the rewrite on top, so that the rewrite is
+// a version of its own.
+export function applyReportRewrite(
+  reportId: string,
+  before: string,
+  after: string,
+) {
+  addReportVersion(reportId, before, "edited");
+  setReportContent(reportId, after);
+  addReportVersion(reportId, after, "rewritten");
+}
+
+export function getResearchContext(researchId: string) {
+  const { messages, researchPlanIds, researchActivityIds } =
+    useStore.getState();
+  const planMessage = messages.get(researchPlanIds.get(researchId) ?? "");
+  const activityMessages = (researchActivityIds.get(researchId) ?? [])
+    .map((id) => messages.get(id))
+    .filter((message): message is Message => !!message);
+  return buildResearchContext(planMessage, activityMessages);
+}
+
+export function useReportVersions(reportId: string | null | undefined) {
+  return useStore((state) =>
+    reportId
+      ? (state.reportVersions.get(reportId) ?? NO_VERSIONS)
+      : NO_VERSIONS,
+  );
+}
+
+function getReportVersions(reportId: string) {
+  return useStore.getState().reportVersions.get(reportId) ?? NO_VERSIONS;
+}
@@ -0,0 +1,177 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { create } from "zustand";
+
+import {
+  createSecretReference,
+  createSecretVaultKey,
+  decryptSecrets,
+  encryptSecrets,
+  hasSecretReferences,
+  resolveSecretReferences,
+  SECRET_NAME_PATTERN,
+  SecretVaultError,
+  toSecretName,
+  type EncryptedSecretVault,
+  type SecretVaultKey,
+  type SecretVaultStatus,
+} from "../secrets";
+
+const SECRETS_KEY = "deerflow.secrets";
+
+export type SecretState = {
+  status: SecretVaultStatus;
+  // The names of the secrets, known only while the vault is unlocked.
+  names: string[];
+};
+
+export const useSecretStore = create<SecretState>(() => ({
+  status: "empty",
+  names: [],
+}));
+
+// The key and the secrets are only kept in memory, so that the vault is
+// unlocked again in every session.
+let vaultKey: SecretVaultKey | null = null;
+let secrets = new Map<string, string>();
+
+export async function createSecretVault(passphrase: string) {
+  vaultKey = await createSecretVaultKey(passphrase);
+  secrets = new Map();
+  await saveSecretVault();
+}
+
+export async function unlockSecretVault(passphrase: string) {
+  const vault = readSecretVault();
+  if (!vault) {
+    throw new SecretVaultError("There is no secret vault yet.");
+  }
+  const opened = await decryptSecrets(vault, passphrase);
+  vaultKey = opened.vaultKey;
+  secrets = new Map(Object.entries(opened.secrets));
+  updateSecretState();
+}
+
+export function lockSecretVault() {
+  vaultKey = null;
+  secrets = new Map();
+  updateSecretState();
+}
+
+// Forgets the vault and all the secrets in it, e.g. when the passphrase is
+// lost.
+export function deleteSecretVault() {
+  localStorage.removeItem(SECRETS_KEY);
+  lockSecretVault();
+}
+
+export async function setSecret(name: string, value: string) {
+  await setSecrets({ [name]: value });
+}
+
+export async function setSecrets(entries: Record<string, string>) {
+  getUnlockedVaultKey();
+  for (const [name, value] of Object.entries(entries)) {
+    if (!SECRET_NAME_PATTERN.test(name)) {
+      throw new SecretVaultError(
+        `"${name}" is not a valid secret name. Use letters, digits and underscores.`,
+      );
+    }
+    secrets.set(name, value);
+  }
+  await saveSecretVault();
+}
+
+export async function removeSecret(name: string) {
+  getUnlockedVaultKey();
+  secrets.delete(name);
+  await saveSecretVault();
+}
+
+// Replaces the secret references in the value with the secrets. Values
+// without references are returned as they are, even while the vault is
+// locked.
+export function resolveSecrets(value: string) {
+  if (!hasSecretReferences(value)) {
+    return value;
+  }
+  if (!vaultKey) {
+    throw new SecretVaultError(
+      "Unlock the secret vault in the settings to use the secrets of your MCP servers.",
+    );
+  }
+  return resolveSecretReferences(value, secrets);
+}
+
+export function resolveSecretRecord(record: Record<string, string>) {
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [key, resolveSecrets(value)]),
+  );
+}
+
+// Moves the plain values of the record into the vault, under names made from
+// the prefix and their keys, and returns the record with references to them.
+export async function moveToSecretVault(
+  record: Record<string, string>,
+  prefix: string,
+) {
+  getUnlockedVaultKey();
+  const moved: Record<string, string> = {};
+  const added: Record<string, string> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (hasSecretReferences(value)) {
+      moved[key] = value;
+      continue;
+    }
+    const baseName = toSecretName(prefix, key);
+    let name = baseName;
+    for (let i = 2; (secrets.get(name) ?? value) !== value; i++) {
+      name = `${baseName}_${i}`;
+    }
+    added[name] = value;
+    moved[key] = createSecretReference(name);
+  }
+  await setSecrets(added);
+  return moved;
+}
+
+function getUnlockedVaultKey() {
+  if (!vaultKey) {
+    throw new SecretVaultError("The secret vault is locked.");
+  }
+  return vaultKey;
+}
+
+function readSecretVault() {
+  const json = localStorage.getItem(SECRETS_KEY);
+  return json ? (JSON.parse(json) as EncryptedSecretVault) : null;
+}
+
+async function saveSecretVault() {
+  const vault = await encryptSecrets(
+    getUnlockedVaultKey(),
+    Object.fromEntries(secrets),
+  );
+  localStorage.setItem(SECRETS_KEY, JSON.stringify(vault));
+  updateSecretState();
+}
+
+function updateSecretState() {
+  useSecretStore.setState({
+    status: vaultKey
+      ? "unlocked"
+      : localStorage.getItem(SECRETS_KEY)
+        ? "locked"
+        : "empty",
+    names: Array.from(secrets.keys()).sort(),
+  });
+}
+
+function loadSecretState() {
+  if (typeof window === "undefined") {
+    return;
+  }
+  updateSecretState();
+}
+loadSecretState();
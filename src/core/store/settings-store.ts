@@ -3,7 +3,16 @@
 
 import { create } from "zustand";
 
-import type { MCPServerMetadata, SimpleMCPServerMetadata } from "../mcp";
+import type { CitationStyle } from "../citations";
+import {
+  getEnabledMCPTools,
+  getMCPServerAgents,
+  toSimpleMCPServerMetadata,
+  type MCPServerMetadata,
+  type SimpleMCPServerMetadata,
+} from "../mcp";
+
+import { moveToSecretVault, resolveSecretRecord } from "./secret-store";
 
 const SETTINGS_KEY = "deerflow.settings";
 
@@ -14,6 +23,7 @@ const DEFAULT_SETTINGS: SettingsState = {
     maxPlanIterations: 1,
     maxStepNum: 3,
     maxSearchResults: 3,
+    citationStyle: "apa",
   },
   mcp: {
     servers: [],
@@ -27,6 +37,7 @@ export type SettingsState = {
     maxPlanIterations: number;
     maxStepNum: number;
     maxSearchResults: number;
+    citationStyle: CitationStyle;
   };
   mcp: {
     servers: MCPServerMetadata[];
@@ -73,6 +84,52 @@ export const saveSettings = () => {
   localStorage.setItem(SETTINGS_KEY, json);
 };
 
+// The server with the secret references in its `env` and `headers` replaced by
+// the secrets. Throws a `SecretVaultError` while the vault is locked.
+export function resolveMCPServerSecrets<T extends SimpleMCPServerMetadata>(
+  server: T,
+): T {
+  const resolved = { ...server };
+  if (resolved.env) {
+    resolved.env = resolveSecretRecord(resolved.env);
+  }
+  if (resolved.transport !== "stdio" && resolved.headers) {
+    resolved.headers = resolveSecretRecord(resolved.headers);
+  }
+  return resolved;
+}
+
+// The server with the plain values of its `env` and `headers` moved into the
+// vault, and referred to instead. Throws a `SecretVaultError` while the vault
+// is locked.
+export async function moveMCPServerSecretsToVault<
+  T extends SimpleMCPServerMetadata,
+>(server: T): Promise<T> {
+  const moved = { ...server };
+  if (moved.env) {
+    moved.env = await moveToSecretVault(moved.env, moved.name);
+  }
+  if (moved.transport !== "stdio" && moved.headers) {
+    moved.headers = await moveToSecretVault(moved.headers, moved.name);
+  }
+  return moved;
+}
+
+// The MCP servers a research starts. A server whose tools would reach no agent
+// is not started at all.
+export function getActiveMCPServers() {
+  return useSettingsStore
+    .getState()
+    .mcp.servers.filter(
+      (server) =>
+        server.enabled &&
+        getEnabledMCPTools(server).length > 0 &&
+        getMCPServerAgents(server).length > 0,
+    );
+}
+
+// The secrets of the MCP servers are resolved into the request, never into
+// the settings.
 export const getChatStreamSettings = () => {
   let mcpSettings:
     | {
@@ -85,35 +142,17 @@ export const getChatStreamSettings = () => {
         >;
       }
     | undefined = undefined;
-  const { mcp, general } = useSettingsStore.getState();
-  const mcpServers = mcp.servers.filter((server) => server.enabled);
+  const { general } = useSettingsStore.getState();
+  const mcpServers = getActiveMCPServers();
   if (mcpServers.length > 0) {
     mcpSettings = {
       servers: mcpServers.reduce((acc, cur) => {
-        const { transport, env } = cur;
-        let server: SimpleMCPServerMetadata;
-        if (transport === "stdio") {
-          server = {
-            name: cur.name,
-            transport,
-            env,
-            command: cur.command,
-            args: cur.args,
-          };
-        } else {
-          server = {
-            name: cur.name,
-            transport,
-            env,
-            url: cur.url,
-          };
-        }
         return {
           ...acc,
           [cur.name]: {
-            ...server,
-            enabled_tools: cur.tools.map((tool) => tool.name),
-            add_to_agents: ["researcher"],
+            ...resolveMCPServerSecrets(toSimpleMCPServerMetadata(cur)),
+            enabled_tools: getEnabledMCPTools(cur).map((tool) => tool.name),
+            add_to_agents: getMCPServerAgents(cur),
           },
         };
       }, {}),
@@ -134,4 +173,14 @@ export function setEnableBackgroundInvestigation(value: boolean) {
   }));
   saveSettings();
 }
+
+export function setCitationStyle(value: CitationStyle) {
+  useSettingsStore.setState((state) => ({
+    general: {
+      ...state.general,
+      citationStyle: value,
+    },
+  }));
+  saveSettings();
+}
 loadSettings();
@@ -2,30 +2,67 @@
 // SPDX-License-Identifier: MIT
 
 import { nanoid } from "nanoid";
+import { useMemo } from "react";
 import { toast } from "sonner";
 import { create } from "zustand";
 import { useShallow } from "zustand/react/shallow";
 
-import { chatStream, generatePodcast, getFinalPaper, type FinalPaperResponse } from "../api";
+import {
+  chatStream,
+  getFinalPaper,
+  getLastEventId,
+  type ChatEvent,
+  type FinalPaperResponse,
+} from "../api";
+import { buildCitationRegistry } from "../citations";
 import type { Message } from "../messages";
 import { mergeMessage } from "../messages";
+import { isPlanRevisionFeedback, type Plan } from "../plan";
+import { recordStreamEvent, recordUserMessage } from "../replay/recorder";
+import type { ReportVersion } from "../reports";
 import { parseJSON } from "../utils";
 
+import { getUnreachableMCPServers } from "./mcp-health-store";
 import { getChatStreamSettings } from "./settings-store";
 
-const THREAD_ID = nanoid();
+export type RunState =
+  | "idle"
+  | "streaming"
+  | "cancelled"
+  | "failed"
+  | "interrupted";
+
+interface StoppedRun {
+  researchId: string | null;
+  // The messages marked as stopped.
+  messageIds: string[];
+  // The message the run was started with.
+  content: string | undefined;
+}
+
+// The message sent along with the feedback when a stopped run is continued.
+const CONTINUE_MESSAGE = "Please continue from where you left off.";
 
 export const useStore = create<{
   responding: boolean;
-  threadId: string | undefined;
+  runState: RunState;
+  lastInterruptFeedback: string | undefined;
+  // What a cancelled or failed run left unfinished, which continuing it goes
+  // on with.
+  stoppedRun: StoppedRun | null;
+  threadId: string;
   messageIds: string[];
   messages: Map<string, Message>;
   researchIds: string[];
   researchPlanIds: Map<string, string>;
   researchReportIds: Map<string, string>;
   researchActivityIds: Map<string, string[]>;
+  // Every version of each report, keyed by the id of the report message.
+  reportVersions: Map<string, ReportVersion[]>;
   ongoingResearchId: string | null;
   openResearchId: string | null;
+  // The research activity to scroll to, e.g. after clicking an agent node.
+  focusedActivityId: string | null;
 
   // Paper writing state
   paperSections: string[];
@@ -53,15 +90,20 @@ export const useStore = create<{
   clearFinalPaper: () => void;
 }>((set, _get) => ({
   responding: false,
-  threadId: THREAD_ID,
+  runState: "idle",
+  lastInterruptFeedback: undefined,
+  stoppedRun: null,
+  threadId: nanoid(),
   messageIds: [],
   messages: new Map<string, Message>(),
   researchIds: [],
   researchPlanIds: new Map<string, string>(),
   researchReportIds: new Map<string, string>(),
   researchActivityIds: new Map<string, string[]>(),
+  reportVersions: new Map<string, ReportVersion[]>(),
   ongoingResearchId: null,
   openResearchId: null,
+  focusedActivityId: null,
   
   // Paper writing state
   paperSections: [],
@@ -165,30 +207,64 @@ export const useStore = create<{
   },
 }));
 
+// Whether a run can start, telling why not or asking before starting with MCP
+// servers that did not answer their last health check. Called before the
+// input of the user is taken, which is kept when the run does not start.
+export function confirmStartRun() {
+  try {
+    getChatStreamSettings();
+  } catch (error) {
+    // E.g. the secret vault is locked, which the user can fix and send again.
+    toast(error instanceof Error ? error.message : String(error));
+    return false;
+  }
+  const unreachableServers = getUnreachableMCPServers();
+  if (unreachableServers.length === 0) {
+    return true;
+  }
+  const names = unreachableServers.map((server) => server.name).join(", ");
+  return window.confirm(
+    unreachableServers.length === 1
+      ? `The MCP server ${names} did not answer its last health check, so the research may fail. Start anyway?`
+      : `The MCP servers ${names} did not answer their last health checks, so the research may fail. Start anyway?`,
+  );
+}
+
 export async function sendMessage(
   content?: string,
   {
     interruptFeedback,
+    silent = false,
   }: {
     interruptFeedback?: string;
+    // Send `content` to the server without showing it as a user message.
+    silent?: boolean;
   } = {},
-  options: { abortSignal?: AbortSignal } = {},
+  options: { abortSignal?: AbortSignal; lastEventId?: string } = {},
 ) {
-  if (content != null) {
+  let settings: ReturnType<typeof getChatStreamSettings>;
+  try {
+    settings = getChatStreamSettings();
+  } catch (error) {
+    toast(error instanceof Error ? error.message : String(error));
+    return;
+  }
+  const threadId = getThreadId();
+  if (content != null && !silent) {
     appendMessage({
       id: nanoid(),
-      threadId: THREAD_ID,
+      threadId,
       role: "user",
       content: content,
       contentChunks: [content],
     });
+    recordUserMessage(threadId, content);
   }
 
-  const settings = getChatStreamSettings();
   const stream = chatStream(
     content ?? "[REPLAY]",
     {
-      thread_id: THREAD_ID,
+      thread_id: threadId,
       interrupt_feedback: interruptFeedback,
       auto_accepted_plan: settings.autoAcceptedPlan,
       enable_background_investigation:
@@ -198,54 +274,145 @@ export async function sendMessage(
       max_search_results: settings.maxSearchResults,
       mcp_settings: settings.mcpSettings,
     },
-    options,
+    {
+      ...options,
+      onReconnect: (attempt) => {
+        toast(`Connection lost. Reconnecting (attempt ${attempt})...`, {
+          id: "chat-stream-reconnect",
+        });
+      },
+      onEvent: (event) => recordStreamEvent(threadId, event),
+    },
   );
 
   setResponding(true);
+  useStore.setState({
+    runState: "streaming",
+    lastInterruptFeedback: interruptFeedback,
+    stoppedRun: null,
+  });
   let messageId: string | undefined;
   try {
     for await (const event of stream) {
-      const { type, data } = event;
-      messageId = data.id;
-      let message: Message | undefined;
-      if (type === "tool_call_result") {
-        message = findMessageByToolCallId(data.tool_call_id);
-      } else if (!existsMessage(messageId)) {
-        message = {
-          id: messageId,
-          threadId: data.thread_id,
-          agent: data.agent,
-          role: data.role,
-          content: "",
-          contentChunks: [],
-          isStreaming: true,
-          interruptFeedback,
-        };
-        appendMessage(message);
-      }
-      message ??= getMessage(messageId);
-      if (message) {
-        message = mergeMessage(message, event);
-        updateMessage(message);
-      }
+      messageId = applyChatEvent(event, interruptFeedback);
     }
-  } catch {
-    toast("An error occurred while generating the response. Please try again.");
-    // Update message status.
-    // TODO: const isAborted = (error as Error).name === "AbortError";
-    if (messageId != null) {
-      const message = getMessage(messageId);
-      if (message?.isStreaming) {
-        message.isStreaming = false;
-        useStore.getState().updateMessage(message);
-      }
+    useStore.setState({ runState: getFinishedRunState() });
+  } catch (error) {
+    const isAborted =
+      options.abortSignal?.aborted === true ||
+      (error as Error).name === "AbortError";
+    if (!isAborted) {
+      toast(
+        "An error occurred while generating the response. Please try again.",
+      );
     }
-    useStore.getState().setOngoingResearch(null);
+    stopRun(isAborted ? "cancelled" : "failed", content, messageId);
   } finally {
     setResponding(false);
   }
 }
 
+// Merges an event of a stream into the messages of the current thread and
+// returns the id of the message it belongs to.
+export function applyChatEvent(event: ChatEvent, interruptFeedback?: string) {
+  const { type, data } = event;
+  let messageId = data.id;
+  let message: Message | undefined;
+  if (type === "tool_call_result") {
+    message = findMessageByToolCallId(data.tool_call_id);
+  } else if (!existsMessage(messageId)) {
+    message = {
+      id: messageId,
+      threadId: data.thread_id,
+      agent: data.agent,
+      role: data.role,
+      content: "",
+      contentChunks: [],
+      isStreaming: true,
+      interruptFeedback,
+    };
+    appendMessage(message);
+  }
+  message ??= getMessage(messageId);
+  if (message) {
+    messageId = message.id;
+    updateMessage(mergeMessage(message, event));
+  }
+  return messageId;
+}
+
+// The state of a run whose stream has ended, which depends on whether the
+// last message waits for feedback.
+export function getFinishedRunState(): RunState {
+  const lastMessageId = useStore.getState().messageIds.at(-1);
+  const interrupted =
+    lastMessageId !== undefined &&
+    getMessage(lastMessageId)?.finishReason === "interrupt";
+  return interrupted ? "interrupted" : "idle";
+}
+
+// Re-issue the stream for the current thread after a run was cancelled or
+// failed, so the server resumes the graph from its last checkpoint. The
+// research that was stopped goes on in the same card.
+export async function continueRun(options: { abortSignal?: AbortSignal } = {}) {
+  const { runState, lastInterruptFeedback, stoppedRun, messages } =
+    useStore.getState();
+  if ((runState !== "cancelled" && runState !== "failed") || !stoppedRun) {
+    return;
+  }
+  useStore.getState().updateMessages(
+    stoppedRun.messageIds
+      .map((id) => messages.get(id))
+      .filter((message): message is Message => !!message)
+      .map((message) => ({ ...message, status: undefined })),
+  );
+  useStore.getState().setOngoingResearch(stoppedRun.researchId);
+  // The server only resumes a run with feedback to resume it with. A run that
+  // had none, like the first turn of a thread or one with auto-accepted plans,
+  // is started again with the same message. Either way the server gets the
+  // last event received on the thread, to go on after it.
+  await sendMessage(
+    lastInterruptFeedback ? CONTINUE_MESSAGE : stoppedRun.content,
+    {
+      interruptFeedback: lastInterruptFeedback,
+      silent: true,
+    },
+    { ...options, lastEventId: getLastEventId(getThreadId()) },
+  );
+}
+
+function stopRun(
+  state: "cancelled" | "failed",
+  content: string | undefined,
+  lastMessageId?: string,
+) {
+  const { messages, ongoingResearchId } = useStore.getState();
+  const stoppedMessages: Message[] = [];
+  for (const message of messages.values()) {
+    const unfinished =
+      message.id === lastMessageId &&
+      message.finishReason !== "stop" &&
+      message.finishReason !== "interrupt";
+    if (message.isStreaming || unfinished) {
+      stoppedMessages.push({ ...message, isStreaming: false, status: state });
+    }
+  }
+  useStore.getState().updateMessages(stoppedMessages);
+  useStore.setState({
+    runState: state,
+    stoppedRun: {
+      researchId: ongoingResearchId,
+      messageIds: stoppedMessages.map((message) => message.id),
+      content,
+    },
+  });
+  useStore.getState().setOngoingResearch(null);
+}
+
+function getThreadId() {
+  return useStore.getState().threadId;
+}
+
 function setResponding(value: boolean) {
   useStore.setState({ responding: value });
 }
@@ -626,66 +793,38 @@ export function closeResearch() {
   useStore.getState().closeResearch();
 }
 
-export async function listenToPodcast(researchId: string) {
-  const planMessageId = useStore.getState().researchPlanIds.get(researchId);
-  const reportMessageId = useStore.getState().researchReportIds.get(researchId);
-  if (planMessageId && reportMessageId) {
-    const planMessage = getMessage(planMessageId)!;
-    const title = parseJSON(planMessage.content, { title: "Untitled" }).title;
-    const reportMessage = getMessage(reportMessageId);
-    if (reportMessage?.content) {
-      appendMessage({
-        id: nanoid(),
-        threadId: THREAD_ID,
-        role: "user",
-        content: "Please generate a podcast for the above research.",
-        contentChunks: [],
+export function focusActivity(messageId: string) {
+  const { researchActivityIds } = useStore.getState();
+  for (const [researchId, activityIds] of researchActivityIds) {
+    if (activityIds.includes(messageId)) {
+      useStore.setState({
+        openResearchId: researchId,
+        focusedActivityId: messageId,
       });
-      const podCastMessageId = nanoid();
-      const podcastObject = { title, researchId };
-      const podcastMessage: Message = {
-        id: podCastMessageId,
-        threadId: THREAD_ID,
-        role: "assistant",
-        agent: "podcast",
-        content: JSON.stringify(podcastObject),
-        contentChunks: [],
-        isStreaming: true,
-      };
-      appendMessage(podcastMessage);
-      // Generating podcast...
-      let audioUrl: string | undefined;
-      try {
-        audioUrl = await generatePodcast(reportMessage.content);
-      } catch (e) {
-        console.error(e);
-        useStore.setState((state) => ({
-          messages: new Map(useStore.getState().messages).set(
-            podCastMessageId,
-            {
-              ...state.messages.get(podCastMessageId)!,
-              content: JSON.stringify({
-                ...podcastObject,
-                error: e instanceof Error ? e.message : "Unknown error",
-              }),
-              isStreaming: false,
-            },
-          ),
-        }));
-        toast("An error occurred while generating podcast. Please try again.");
-        return;
-      }
-      useStore.setState((state) => ({
-        messages: new Map(useStore.getState().messages).set(podCastMessageId, {
-          ...state.messages.get(podCastMessageId)!,
-          content: JSON.stringify({ ...podcastObject, audioUrl }),
-          isStreaming: false,
-        }),
-      }));
+      return;
     }
   }
 }
 
+export function clearFocusedActivity() {
+  useStore.setState({ focusedActivityId: null });
+}
+
+// Replaces the planner's output with a plan edited by the user, so that the
+// plan card, the thread title and the report title all reflect the edits.
+export function updatePlan(messageId: string, plan: Plan) {
+  const message = getMessage(messageId);
+  if (!message) {
+    return;
+  }
+  const content = JSON.stringify(plan);
+  useStore.getState().updateMessage({
+    ...message,
+    content,
+    contentChunks: [content],
+  });
+}
+
 export function useResearchMessage(researchId: string) {
   return useStore(
     useShallow((state) => {
@@ -695,6 +834,28 @@ export function useResearchMessage(researchId: string) {
   );
 }
 
+export function useResearchIdOfMessage(messageId: string) {
+  return useStore((state) => {
+    for (const [researchId, activityIds] of state.researchActivityIds) {
+      if (activityIds.includes(messageId)) {
+        return researchId;
+      }
+    }
+    return null;
+  });
+}
+
+export function useResearchCitations(researchId: string | null) {
+  const messages = useStore(
+    useShallow((state) =>
+      (researchId ? (state.researchActivityIds.get(researchId) ?? []) : [])
+        .map((id) => state.messages.get(id))
+        .filter((message): message is Message => !!message),
+    ),
+  );
+  return useMemo(() => buildCitationRegistry(messages), [messages]);
+}
+
 export function useMessage(messageId: string | null | undefined) {
   return useStore(
     useShallow((state) =>
@@ -707,6 +868,27 @@ export function useMessageIds() {
   return useStore(useShallow((state) => state.messageIds));
 }
 
+// The plan that the plan is a new iteration of, i.e. the plan before it when
+// it was written after `edit_plan` or edited plan feedback. Only the latest
+// plan of the thread is compared with the one before it.
+export function usePreviousPlanMessageId(messageId: string) {
+  return useStore((state) => {
+    const planMessageIds = state.messageIds.filter(
+      (id) => state.messages.get(id)?.agent === "planner",
+    );
+    const index = planMessageIds.indexOf(messageId);
+    const feedback = state.messages.get(messageId)?.interruptFeedback;
+    if (
+      index < 1 ||
+      index !== planMessageIds.length - 1 ||
+      !isPlanRevisionFeedback(feedback)
+    ) {
+      return null;
+    }
+    return planMessageIds[index - 1]!;
+  });
+}
+
 export function useLastInterruptMessage() {
   return useStore(
     useShallow((state) => {
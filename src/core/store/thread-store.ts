@@ -0,0 +1,267 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { nanoid } from "nanoid";
+import { create } from "zustand";
+
+import type { Message } from "../messages";
+import { removeThreadPodcastAudio } from "../podcast";
+import { clearRecording } from "../replay/recorder";
+import type { ReportVersion } from "../reports";
+import {
+  listThreads,
+  loadThreadSnapshot,
+  removeThread,
+  saveThread,
+  type Thread,
+  type ThreadSnapshot,
+} from "../threads";
+import { parseJSON } from "../utils";
+
+import { useStore } from "./store";
+
+const ACTIVE_THREAD_KEY = "deerflow.thread";
+const SAVE_DELAY = 1000;
+
+export const useThreadStore = create<{
+  threads: Thread[];
+}>(() => ({
+  threads: [],
+}));
+
+let initialized = false;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+export async function loadThreads() {
+  if (typeof window === "undefined" || initialized) {
+    return;
+  }
+  initialized = true;
+  useStore.subscribe((state, prevState) => {
+    if (state.threadId !== prevState.threadId) {
+      return;
+    }
+    if (
+      state.messages !== prevState.messages ||
+      state.messageIds !== prevState.messageIds ||
+      state.researchIds !== prevState.researchIds ||
+      state.researchPlanIds !== prevState.researchPlanIds ||
+      state.researchReportIds !== prevState.researchReportIds ||
+      state.researchActivityIds !== prevState.researchActivityIds ||
+      state.reportVersions !== prevState.reportVersions
+    ) {
+      scheduleSave();
+    }
+  });
+  try {
+    const threads = await listThreads();
+    useThreadStore.setState({ threads });
+    const activeThreadId = localStorage.getItem(ACTIVE_THREAD_KEY);
+    if (activeThreadId && threads.some((t) => t.id === activeThreadId)) {
+      await switchThread(activeThreadId);
+    }
+  } catch (error) {
+    console.error(error);
+  }
+}
+
+export async function createThread() {
+  if (useStore.getState().responding) {
+    return;
+  }
+  await flushSave();
+  const threadId = nanoid();
+  useStore.setState({
+    threadId,
+    ...emptySnapshot(),
+    ...resetResearchState(),
+  });
+  localStorage.setItem(ACTIVE_THREAD_KEY, threadId);
+}
+
+export async function switchThread(threadId: string) {
+  const state = useStore.getState();
+  if (state.responding || state.threadId === threadId) {
+    return;
+  }
+  await flushSave();
+  const snapshot = await loadThreadSnapshot(threadId);
+  if (!snapshot) {
+    return;
+  }
+  useStore.setState({
+    threadId,
+    messageIds: snapshot.messageIds,
+    researchIds: snapshot.researchIds,
+    researchPlanIds: snapshot.researchPlanIds,
+    researchReportIds: snapshot.researchReportIds,
+    researchActivityIds: snapshot.researchActivityIds,
+    reportVersions: snapshot.reportVersions ?? new Map(),
+    // A stream cannot survive a reload, so no restored message is streaming.
+    messages: new Map(
+      Array.from(snapshot.messages, ([id, message]) => [
+        id,
+        message.isStreaming ? { ...message, isStreaming: false } : message,
+      ]),
+    ),
+    ...resetResearchState(),
+  });
+  localStorage.setItem(ACTIVE_THREAD_KEY, threadId);
+}
+
+export async function renameThread(threadId: string, title: string) {
+  const thread = useThreadStore
+    .getState()
+    .threads.find((t) => t.id === threadId);
+  if (!thread) {
+    return;
+  }
+  const renamed: Thread = { ...thread, title: title.trim() || undefined };
+  await saveThread(renamed);
+  updateThreadList(renamed);
+}
+
+export async function deleteThread(threadId: string) {
+  if (useStore.getState().threadId === threadId) {
+    if (useStore.getState().responding) {
+      return;
+    }
+    if (saveTimer) {
+      clearTimeout(saveTimer);
+      saveTimer = null;
+    }
+    await createThread();
+  }
+  await removeThread(threadId);
+  await removeThreadPodcastAudio(threadId);
+  clearRecording(threadId);
+  useThreadStore.setState((state) => ({
+    threads: state.threads.filter((t) => t.id !== threadId),
+  }));
+}
+
+// Empties the current thread without switching to another one, e.g. to rebuild
+// it from the events of a replay.
+export function resetActiveThread() {
+  useStore.setState({
+    ...emptySnapshot(),
+    ...resetResearchState(),
+  });
+}
+
+export function useThreads() {
+  return useThreadStore((state) => state.threads);
+}
+
+function scheduleSave() {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+  }
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    void saveActiveThread();
+  }, SAVE_DELAY);
+}
+
+async function flushSave() {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+    await saveActiveThread();
+  }
+}
+
+async function saveActiveThread() {
+  const state = useStore.getState();
+  if (state.messageIds.length === 0) {
+    return;
+  }
+  const snapshot: ThreadSnapshot = {
+    id: state.threadId,
+    messageIds: state.messageIds,
+    messages: state.messages,
+    researchIds: state.researchIds,
+    researchPlanIds: state.researchPlanIds,
+    researchReportIds: state.researchReportIds,
+    researchActivityIds: state.researchActivityIds,
+    reportVersions: state.reportVersions,
+  };
+  const existing = useThreadStore
+    .getState()
+    .threads.find((t) => t.id === state.threadId);
+  const now = Date.now();
+  const thread: Thread = {
+    id: state.threadId,
+    title: existing?.title,
+    preview: getPreview(state.messageIds, state.messages),
+    planTitles: getPlanTitles(state.researchPlanIds, state.messages),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  try {
+    await saveThread(thread, snapshot);
+    updateThreadList(thread);
+  } catch (error) {
+    console.error(error);
+  }
+}
+
+function updateThreadList(thread: Thread) {
+  useThreadStore.setState((state) => ({
+    threads: [thread, ...state.threads.filter((t) => t.id !== thread.id)].sort(
+      (a, b) => b.updatedAt - a.updatedAt,
+    ),
+  }));
+}
+
+function getPreview(messageIds: string[], messages: Map<string, Message>) {
+  for (const id of messageIds) {
+    const message = messages.get(id);
+    if (message?.role === "user" && message.content) {
+      return message.content.slice(0, 100);
+    }
+  }
+  return "";
+}
+
+function getPlanTitles(
+  researchPlanIds: Map<string, string>,
+  messages: Map<string, Message>,
+) {
+  const titles: string[] = [];
+  for (const planId of researchPlanIds.values()) {
+    const title = parseJSON(messages.get(planId)?.content, { title: "" }).title;
+    if (title && !titles.includes(title)) {
+      titles.push(title);
+    }
+  }
+  return titles;
+}
+
+function emptySnapshot(): Required<Omit<ThreadSnapshot, "id">> {
+  return {
+    messageIds: [],
+    messages: new Map<string, Message>(),
+    researchIds: [],
+    researchPlanIds: new Map<string, string>(),
+    researchReportIds: new Map<string, string>(),
+    researchActivityIds: new Map<string, string[]>(),
+    reportVersions: new Map<string, ReportVersion[]>(),
+  };
+}
+
+function resetResearchState() {
+  return {
+    runState: "idle" as const,
+    stoppedRun: null,
+    ongoingResearchId: null,
+    openResearchId: null,
+    focusedActivityId: null,
+    paperSections: [],
+    paperOutlineId: null,
+    completedPaperId: null,
+    finalPaper: null,
+    finalPaperLoading: false,
+    finalPaperError: null,
+  };
+}
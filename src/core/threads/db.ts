@@ -0,0 +1,30 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { defineObjectStore } from "../utils/indexed-db";
+
+import type { Thread, ThreadSnapshot } from "./types";
+
+const threadStore = defineObjectStore<Thread>("threads");
+const snapshotStore = defineObjectStore<ThreadSnapshot>("thread_snapshots");
+
+export async function listThreads() {
+  const threads = await threadStore.getAll();
+  return threads.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function loadThreadSnapshot(threadId: string) {
+  return snapshotStore.get(threadId);
+}
+
+export async function saveThread(thread: Thread, snapshot?: ThreadSnapshot) {
+  if (snapshot) {
+    await snapshotStore.put(snapshot);
+  }
+  await threadStore.put(thread);
+}
+
+export async function removeThread(threadId: string) {
+  await snapshotStore.delete(threadId);
+  await threadStore.delete(threadId);
+}
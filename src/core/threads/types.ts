@@ -0,0 +1,27 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import type { Message } from "../messages";
+import type { ReportVersion } from "../reports";
+
+export interface Thread {
+  id: string;
+  // Only set when the user renames the thread.
+  title?: string;
+  preview: string;
+  planTitles: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ThreadSnapshot {
+  id: string;
+  messageIds: string[];
+  messages: Map<string, Message>;
+  researchIds: string[];
+  researchPlanIds: Map<string, string>;
+  researchReportIds: Map<string, string>;
+  researchActivityIds: Map<string, string[]>;
+  // Missing in threads saved before reports were versioned.
+  reportVersions?: Map<string, ReportVersion[]>;
+}
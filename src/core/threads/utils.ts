@@ -0,0 +1,12 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import type { Thread } from "./types";
+
+export function getThreadTitle(thread: Thread) {
+  return (
+    thread.title ??
+    thread.planTitles[0] ??
+    (thread.preview || "New conversation")
+  );
+}
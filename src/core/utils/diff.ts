@@ -0,0 +1,81 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+export type TextDiffSegment = {
+  type: "equal" | "added" | "removed";
+  text: string;
+};
+
+export function diffText(before: string, after: string): TextDiffSegment[] {
+  const beforeTokens = tokenize(before);
+  const afterTokens = tokenize(after);
+  const anchors = longestCommonSubsequence(
+    beforeTokens,
+    afterTokens,
+    (a, b) => a === b,
+  );
+  const segments: TextDiffSegment[] = [];
+  const push = (type: TextDiffSegment["type"], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else if (text) {
+      segments.push({ type, text });
+    }
+  };
+  let i = 0;
+  let j = 0;
+  for (const [anchorI, anchorJ] of [
+    ...anchors,
+    [beforeTokens.length, afterTokens.length],
+  ] as const) {
+    push("removed", beforeTokens.slice(i, anchorI).join(""));
+    push("added", afterTokens.slice(j, anchorJ).join(""));
+    if (anchorI < beforeTokens.length) {
+      push("equal", beforeTokens[anchorI]!);
+    }
+    i = anchorI + 1;
+    j = anchorJ + 1;
+  }
+  return segments;
+}
+
+export function longestCommonSubsequence<T>(
+  a: T[],
+  b: T[],
+  equals: (a: T, b: T) => boolean,
+) {
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i]![j] = equals(a[i]!, b[j]!)
+        ? lengths[i + 1]![j + 1]! + 1
+        : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+    }
+  }
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (equals(a[i]!, b[j]!)) {
+      pairs.push([i++, j++]);
+    } else if (lengths[i + 1]![j]! >= lengths[i]![j + 1]!) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+// Splits text into words and the whitespace or punctuation between them. CJK
+// characters are separate tokens since they are not delimited by spaces.
+export function tokenize(text: string) {
+  return (
+    text.match(
+      /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|[\p{L}\p{N}_]+|\s+|[^\p{L}\p{N}_\s]/gu,
+    ) ?? []
+  );
+}
@@ -4,3 +4,4 @@
 export * from "./time";
 export * from "./json";
 export * from "./deep-clone";
+export * from "./diff";
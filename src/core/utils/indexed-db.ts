@@ -0,0 +1,72 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+const DB_NAME = "deerflow";
+const DB_VERSION = 3;
+
+// Every object store lives in the same database. Adding a store requires
+// bumping `DB_VERSION` so that `onupgradeneeded` creates it.
+const OBJECT_STORE_NAMES = [
+  "threads",
+  "thread_snapshots",
+  "replays",
+  "podcast_audio",
+] as const;
+
+export type ObjectStoreName = (typeof OBJECT_STORE_NAMES)[number];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase() {
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const name of OBJECT_STORE_NAMES) {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: "id" });
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      databasePromise = null;
+      reject(request.error ?? new Error("Failed to open IndexedDB"));
+    };
+  });
+  return databasePromise;
+}
+
+export function defineObjectStore<T extends { id: string }>(
+  name: ObjectStoreName,
+) {
+  async function run<R>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<R>,
+  ) {
+    const db = await openDatabase();
+    return new Promise<R>((resolve, reject) => {
+      const transaction = db.transaction(name, mode);
+      const request = operation(transaction.objectStore(name));
+      transaction.oncomplete = () => resolve(request.result);
+      const fail = () =>
+        reject(transaction.error ?? new Error("IndexedDB transaction failed"));
+      transaction.onerror = fail;
+      transaction.onabort = fail;
+    });
+  }
+  return {
+    get(id: string) {
+      return run<T | undefined>("readonly", (store) => store.get(id));
+    },
+    getAll() {
+      return run<T[]>("readonly", (store) => store.getAll());
+    },
+    async put(value: T) {
+      await run("readwrite", (store) => store.put(value));
+    },
+    async delete(id: string) {
+      await run("readwrite", (store) => store.delete(id));
+    },
+  };
+}
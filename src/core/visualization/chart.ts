@@ -0,0 +1,150 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { parseTableRows } from "./table";
+import type { ChartFieldType, ChartMark, ChartSpec, DataRow } from "./types";
+
+const MARKS: Record<string, ChartMark> = {
+  bar: "bar",
+  line: "line",
+  area: "area",
+  point: "point",
+  circle: "point",
+  square: "point",
+  tick: "point",
+};
+
+// The field that holds the name of the series when several `y` fields are
+// folded into one.
+const SERIES_FIELD = "series";
+
+// Accepts a Vega-Lite spec with inline `data.values`, or the shorter format of
+// ```chart blocks:
+//
+//   { "type": "line", "title": "...", "data": [...], "x": "year", "y": ["a", "b"] }
+export function parseChartSpec(value: unknown): ChartSpec | null {
+  if (!isObject(value)) {
+    return null;
+  }
+  return "encoding" in value ? parseVegaLite(value) : parseShortChart(value);
+}
+
+function parseVegaLite(spec: Record<string, unknown>): ChartSpec | null {
+  const mark = parseMark(isObject(spec.mark) ? spec.mark.type : spec.mark);
+  const rows = parseTableRows(isObject(spec.data) ? spec.data.values : null);
+  const encoding = isObject(spec.encoding) ? spec.encoding : {};
+  let x = parseEncoding(encoding.x);
+  let y = parseEncoding(encoding.y);
+  if (!mark || !rows || !x || !y) {
+    return null;
+  }
+  // Horizontal bars are drawn vertically.
+  if (x.type === "quantitative" && y.type !== "quantitative") {
+    [x, y] = [y, x];
+  }
+  const color = parseEncoding(encoding.color);
+  return {
+    title: parseTitle(spec.title),
+    mark,
+    data: rows.rows,
+    x: {
+      field: x.field,
+      type: x.type ?? inferType(rows.rows, x.field),
+      title: x.title,
+    },
+    y: { field: y.field, title: y.title },
+    color: color ? { field: color.field } : undefined,
+  };
+}
+
+function parseShortChart(spec: Record<string, unknown>): ChartSpec | null {
+  const mark = parseMark(spec.type ?? spec.mark);
+  const rows = parseTableRows(spec.data);
+  const fields = typeof spec.y === "string" ? [spec.y] : spec.y;
+  if (
+    !mark ||
+    !rows ||
+    typeof spec.x !== "string" ||
+    !Array.isArray(fields) ||
+    fields.length === 0 ||
+    !fields.every((field) => typeof field === "string")
+  ) {
+    return null;
+  }
+  const x = spec.x;
+  const title = parseTitle(spec.title);
+  if (fields.length === 1) {
+    return {
+      title,
+      mark,
+      data: rows.rows,
+      x: { field: x, type: inferType(rows.rows, x) },
+      y: { field: fields[0]! },
+    };
+  }
+  return {
+    title,
+    mark,
+    data: rows.rows.flatMap((row) =>
+      fields.map((field) => ({
+        [x]: row[x] ?? null,
+        [SERIES_FIELD]: field,
+        value: row[field] ?? null,
+      })),
+    ),
+    x: { field: x, type: inferType(rows.rows, x) },
+    y: { field: "value" },
+    color: { field: SERIES_FIELD },
+  };
+}
+
+function parseMark(mark: unknown) {
+  return typeof mark === "string" ? (MARKS[mark] ?? null) : null;
+}
+
+function parseEncoding(encoding: unknown) {
+  if (!isObject(encoding) || typeof encoding.field !== "string") {
+    return null;
+  }
+  let type: ChartFieldType | undefined;
+  if (encoding.type === "quantitative" || encoding.type === "temporal") {
+    type = encoding.type;
+  } else if (encoding.type === "nominal" || encoding.type === "ordinal") {
+    type = "nominal";
+  }
+  return {
+    field: encoding.field,
+    type,
+    title: typeof encoding.title === "string" ? encoding.title : undefined,
+  };
+}
+
+function parseTitle(title: unknown) {
+  if (typeof title === "string") {
+    return title;
+  }
+  if (isObject(title) && typeof title.text === "string") {
+    return title.text;
+  }
+  return undefined;
+}
+
+function inferType(rows: DataRow[], field: string): ChartFieldType {
+  const values = rows.map((row) => row[field]);
+  if (values.every((value) => typeof value === "number")) {
+    return "quantitative";
+  }
+  if (
+    values.every(
+      (value) =>
+        typeof value === "string" && /^\d{4}-\d{2}(-\d{2})?/.test(value),
+    )
+  ) {
+    return "temporal";
+  }
+  return "nominal";
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
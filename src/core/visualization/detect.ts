@@ -0,0 +1,112 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { parseChartSpec } from "./chart";
+import { parseDelimitedTable, parseTableRows } from "./table";
+import type { Visualization } from "./types";
+
+const IMAGE_SIGNATURES: Record<string, string> = {
+  iVBORw0KGgo: "image/png",
+  "/9j/": "image/jpeg",
+  R0lGOD: "image/gif",
+  UklGR: "image/webp",
+};
+
+// Splits the output of a tool, e.g. the stdout of the coder's Python code, into
+// the charts, tables and images it prints, and the text around them. Blocks
+// are separated by blank lines.
+export function detectVisualizations(output: string): Visualization[] {
+  const whole = detectVisualization(output.trim());
+  if (whole) {
+    return [whole];
+  }
+  // Images are usually printed on a line of their own, right after the text.
+  const blocks = output
+    .split("\n")
+    .map((line) => (parseBase64Image(line.trim()) ? `\n${line}\n` : line))
+    .join("\n")
+    .split(/\n\s*\n/);
+  const visualizations: Visualization[] = [];
+  for (const block of blocks) {
+    const visualization = detectVisualization(block.trim()) ?? {
+      type: "text",
+      text: block,
+    };
+    const last = visualizations[visualizations.length - 1];
+    if (visualization.type === "text" && last?.type === "text") {
+      last.text += "\n\n" + visualization.text;
+    } else {
+      visualizations.push(visualization);
+    }
+  }
+  return visualizations;
+}
+
+// The visualization of a fenced code block in Markdown, if its language is one
+// that can be drawn.
+export function parseCodeBlock(
+  language: string,
+  code: string,
+): Visualization | null {
+  switch (language) {
+    case "vega-lite":
+    case "vegalite":
+    case "chart": {
+      const spec = parseChartSpec(parseJSONOrNull(code));
+      return spec ? { type: "chart", spec } : null;
+    }
+    case "mermaid":
+      return code.trim() ? { type: "diagram", code } : null;
+    case "csv":
+    case "tsv": {
+      const table = parseDelimitedTable(code);
+      return table ? { type: "table", table } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function detectVisualization(text: string): Visualization | null {
+  if (!text) {
+    return null;
+  }
+  const src = parseBase64Image(text);
+  if (src) {
+    return { type: "image", src };
+  }
+  if (text.startsWith("{") || text.startsWith("[")) {
+    const json = parseJSONOrNull(text);
+    const spec = parseChartSpec(json);
+    if (spec) {
+      return { type: "chart", spec };
+    }
+    const table = parseTableRows(json);
+    return table ? { type: "table", table } : null;
+  }
+  const table = parseDelimitedTable(text);
+  return table ? { type: "table", table } : null;
+}
+
+function parseBase64Image(text: string) {
+  if (/^data:image\/[\w+.-]+;base64,[A-Za-z0-9+/=\s]+$/.test(text)) {
+    return text.replace(/\s/g, "");
+  }
+  if (!/^[A-Za-z0-9+/=\s]{64,}$/.test(text)) {
+    return null;
+  }
+  for (const [signature, type] of Object.entries(IMAGE_SIGNATURES)) {
+    if (text.startsWith(signature)) {
+      return `data:${type};base64,${text.replace(/\s/g, "")}`;
+    }
+  }
+  return null;
+}
+
+function parseJSONOrNull(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,7 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+export * from "./chart";
+export * from "./detect";
+export * from "./table";
+export * from "./types";
@@ -0,0 +1,103 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import type { DataRow, DataValue, TableData } from "./types";
+
+const MAX_CELL_LENGTH = 200;
+
+// Rows of flat values, e.g. the result of a SQL query.
+export function parseTableRows(value: unknown): TableData | null {
+  if (!Array.isArray(value) || value.length === 0) {
+    return null;
+  }
+  const columns = new Set<string>();
+  for (const row of value) {
+    if (!isDataRow(row)) {
+      return null;
+    }
+    Object.keys(row).forEach((key) => columns.add(key));
+  }
+  return { columns: Array.from(columns), rows: value as DataRow[] };
+}
+
+function isDataRow(row: unknown): row is DataRow {
+  return (
+    typeof row === "object" &&
+    row !== null &&
+    !Array.isArray(row) &&
+    Object.values(row).every(
+      (value) => value === null || typeof value !== "object",
+    )
+  );
+}
+
+// Parses CSV, or TSV when every line has a tab. The text must look like a
+// table of data, with a header, at least two rows of the same width and a
+// numeric column, so that prose with commas is not mistaken for one.
+export function parseDelimitedTable(text: string): TableData | null {
+  const lines = text.trim().split(/\r?\n/);
+  if (lines.length < 3) {
+    return null;
+  }
+  const delimiter = lines.every((line) => line.includes("\t")) ? "\t" : ",";
+  const [header, ...records] = lines.map((line) => splitLine(line, delimiter));
+  if (
+    !header ||
+    header.length < 2 ||
+    header.some((column) => column === "" || column.length > 64) ||
+    records.some(
+      (record) =>
+        record.length !== header.length ||
+        record.some((cell) => cell.length > MAX_CELL_LENGTH),
+    )
+  ) {
+    return null;
+  }
+  const rows: DataRow[] = records.map((record) =>
+    Object.fromEntries(
+      header.map((column, i) => [column, parseCell(record[i]!)]),
+    ),
+  );
+  const hasNumericColumn = header.some((column) =>
+    rows.every(
+      (row) => row[column] === null || typeof row[column] === "number",
+    ),
+  );
+  return hasNumericColumn ? { columns: header, rows } : null;
+}
+
+function splitLine(line: string, delimiter: string) {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function parseCell(cell: string): DataValue {
+  if (cell === "") {
+    return null;
+  }
+  const number = Number(cell);
+  return Number.isFinite(number) ? number : cell;
+}
@@ -0,0 +1,34 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+export type DataValue = string | number | boolean | null;
+
+export type DataRow = Record<string, DataValue>;
+
+export interface TableData {
+  columns: string[];
+  rows: DataRow[];
+}
+
+export type ChartMark = "bar" | "line" | "area" | "point";
+
+export type ChartFieldType = "quantitative" | "temporal" | "nominal";
+
+// The subset of Vega-Lite that the chart component draws: a single mark over
+// inline data, with an optional field that splits the data into series.
+export interface ChartSpec {
+  title?: string;
+  mark: ChartMark;
+  data: DataRow[];
+  x: { field: string; type: ChartFieldType; title?: string };
+  y: { field: string; title?: string };
+  color?: { field: string };
+}
+
+export type Visualization =
+  | { type: "text"; text: string }
+  | { type: "chart"; spec: ChartSpec }
+  | { type: "table"; table: TableData }
+  | { type: "image"; src: string }
+  // Mermaid code, drawn by the browser.
+  | { type: "diagram"; code: string };
@@ -13,6 +13,13 @@ export const env = createEnv({
     NODE_ENV: z.enum(["development", "test", "production"]),
     AMPLITUDE_API_KEY: z.string().optional(),
     GITHUB_OAUTH_TOKEN: z.string().optional(),
+    UPLOAD_DIR: z.string().optional(),
+    UPLOAD_MAX_SIZE_MB: z.coerce.number().positive().optional(),
+    S3_ENDPOINT: z.string().url().optional(),
+    S3_REGION: z.string().optional(),
+    S3_BUCKET: z.string().optional(),
+    S3_ACCESS_KEY_ID: z.string().optional(),
+    S3_SECRET_ACCESS_KEY: z.string().optional(),
   },
 
   /**
@@ -23,6 +30,7 @@ export const env = createEnv({
   client: {
     NEXT_PUBLIC_API_URL: z.string().optional(),
     NEXT_PUBLIC_STATIC_WEBSITE_ONLY: z.boolean().optional(),
+    NEXT_PUBLIC_SIMULATE_BACKEND: z.boolean().optional(),
   },
 
   /**
@@ -34,8 +42,17 @@ export const env = createEnv({
     NEXT_PUBLIC_API_URL: process.env.NEXT_PUBLIC_API_URL,
     NEXT_PUBLIC_STATIC_WEBSITE_ONLY:
       process.env.NEXT_PUBLIC_STATIC_WEBSITE_ONLY === "true",
+    NEXT_PUBLIC_SIMULATE_BACKEND:
+      process.env.NEXT_PUBLIC_SIMULATE_BACKEND === "true",
     AMPLITUDE_API_KEY: process.env.AMPLITUDE_API_KEY,
     GITHUB_OAUTH_TOKEN: process.env.GITHUB_OAUTH_TOKEN,
+    UPLOAD_DIR: process.env.UPLOAD_DIR,
+    UPLOAD_MAX_SIZE_MB: process.env.UPLOAD_MAX_SIZE_MB,
+    S3_ENDPOINT: process.env.S3_ENDPOINT,
+    S3_REGION: process.env.S3_REGION,
+    S3_BUCKET: process.env.S3_BUCKET,
+    S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID,
+    S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY,
   },
   /**
    * Run `build` or `dev` with `SKIP_ENV_VALIDATION` to skip env validation. This is especially
@@ -0,0 +1,205 @@
+// Copyright (c) 2025 Bytedance Ltd. and/or its affiliates
+// SPDX-License-Identifier: MIT
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { AwsClient } from "aws4fetch";
+import { nanoid } from "nanoid";
+
+import { env } from "~/env";
+
+// SVG is left out, since an SVG served from this origin could run scripts.
+const UPLOAD_TYPES: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/avif": "avif",
+  "image/bmp": "bmp",
+};
+
+const DEFAULT_MAX_SIZE_MB = 20;
+
+export interface StoredUpload {
+  data: Uint8Array | ReadableStream<Uint8Array>;
+  contentType: string;
+  size?: number;
+}
+
+interface UploadStorage {
+  put(name: string, data: ArrayBuffer, contentType: string): Promise<void>;
+  get(name: string): Promise<StoredUpload | null>;
+}
+
+export class UploadError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+export function getMaxUploadSize() {
+  return (env.UPLOAD_MAX_SIZE_MB ?? DEFAULT_MAX_SIZE_MB) * 1024 * 1024;
+}
+
+// Reads the body of an upload request, giving up as soon as it is larger than
+// allowed, since the body may not say its length up front.
+export async function readUploadBody(
+  body: ReadableStream<Uint8Array> | null,
+): Promise<ArrayBuffer> {
+  if (!body) {
+    throw new UploadError("The file is empty.", 400);
+  }
+  const maxSize = getMaxUploadSize();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.byteLength;
+    if (size > maxSize) {
+      await reader.cancel();
+      throw new UploadError("The file is too large.", 413);
+    }
+    chunks.push(value);
+  }
+  const data = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return data.buffer;
+}
+
+// Stores the upload under a new name, which is returned.
+export async function saveUpload(data: ArrayBuffer, contentType: string) {
+  const type = contentType.split(";")[0]!.trim().toLowerCase();
+  const extension = UPLOAD_TYPES[type];
+  if (!extension) {
+    throw new UploadError(`Unsupported file type: ${type || "unknown"}`, 415);
+  }
+  if (data.byteLength === 0) {
+    throw new UploadError("The file is empty.", 400);
+  }
+  if (data.byteLength > getMaxUploadSize()) {
+    throw new UploadError("The file is too large.", 413);
+  }
+  const name = `${nanoid()}.${extension}`;
+  await getStorage().put(name, data, type);
+  return name;
+}
+
+export async function loadUpload(name: string) {
+  const contentType = getUploadContentType(name);
+  if (!contentType) {
+    return null;
+  }
+  return getStorage().get(name);
+}
+
+// The content type of an upload by its name, or `null` when the name is not
+// one given out by `saveUpload`, which also keeps names from reaching outside
+// of the storage.
+function getUploadContentType(name: string) {
+  const match = /^[\w-]+\.(\w+)$/.exec(name);
+  if (!match) {
+    return null;
+  }
+  const entry = Object.entries(UPLOAD_TYPES).find(
+    ([, extension]) => extension === match[1],
+  );
+  return entry ? entry[0] : null;
+}
+
+let storage: UploadStorage | undefined;
+
+function getStorage() {
+  storage ??= env.S3_ENDPOINT ? createS3Storage() : createLocalStorage();
+  return storage;
+}
+
+function createLocalStorage(): UploadStorage {
+  const dir = path.resolve(env.UPLOAD_DIR ?? "uploads");
+  return {
+    async put(name, data) {
+      await mkdir(dir, { recursive: true });
+      await writeFile(path.join(dir, name), new Uint8Array(data));
+    },
+    async get(name) {
+      try {
+        const data = await readFile(path.join(dir, name));
+        return {
+          data,
+          contentType: getUploadContentType(name)!,
+          size: data.byteLength,
+        };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return null;
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+// Any S3-compatible service, like MinIO or R2, addressed path-style.
+function createS3Storage(): UploadStorage {
+  const { S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } =
+    env;
+  if (
+    !S3_ENDPOINT ||
+    !S3_BUCKET ||
+    !S3_ACCESS_KEY_ID ||
+    !S3_SECRET_ACCESS_KEY
+  ) {
+    throw new Error(
+      "S3_ENDPOINT requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY to be set.",
+    );
+  }
+  const client = new AwsClient({
+    accessKeyId: S3_ACCESS_KEY_ID,
+    secretAccessKey: S3_SECRET_ACCESS_KEY,
+    region: env.S3_REGION ?? "us-east-1",
+    service: "s3",
+  });
+  const getURL = (name: string) =>
+    `${S3_ENDPOINT.replace(/\/+$/, "")}/${encodeURIComponent(S3_BUCKET)}/${name}`;
+  return {
+    async put(name, data, contentType) {
+      const response = await client.fetch(getURL(name), {
+        method: "PUT",
+        headers: { "content-type": contentType },
+        body: data,
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Failed to store ${name} in S3: ${response.status} ${await response.text()}`,
+        );
+      }
+    },
+    async get(name) {
+      const response = await client.fetch(getURL(name));
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok || !response.body) {
+        throw new Error(`Failed to read ${name} from S3: ${response.status}`);
+      }
+      const size = Number(response.headers.get("content-length"));
+      return {
+        data: response.body,
+        contentType: getUploadContentType(name)!,
+        size: Number.isFinite(size) && size > 0 ? size : undefined,
+      };
+    },
+  };
+}